@@ -141,6 +141,73 @@ describe("Configuration", () => {
     });
   });
 
+  describe("isAuthSeedRandom", () => {
+    const seedSources = [
+      "AUTH_SEED",
+      "DB_PASSWORD",
+      "SERVER_ADMIN_PASSWORD",
+      "AUTH_OAUTH2_CLIENT_SECRET",
+      "METADATA_IGDB_CLIENT_SECRET",
+    ];
+    let originalEnv: NodeJS.ProcessEnv;
+
+    beforeEach(() => {
+      originalEnv = { ...process.env };
+      seedSources.forEach((name) => delete process.env[name]);
+      jest.resetModules();
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it("should be true if AUTH_SEED can't be derived from any secret", async () => {
+      const { isAuthSeedRandom } = await import("./configuration");
+
+      expect(isAuthSeedRandom()).toBe(true);
+    });
+
+    it("should be false if AUTH_SEED is set", async () => {
+      process.env.AUTH_SEED = "seed";
+
+      const { isAuthSeedRandom } = await import("./configuration");
+
+      expect(isAuthSeedRandom()).toBe(false);
+    });
+  });
+
+  describe("GAMES_PARSING_PROFILES", () => {
+    beforeEach(() => {
+      jest.resetModules();
+    });
+
+    afterEach(() => {
+      delete process.env.GAMES_PARSING_PROFILES;
+    });
+
+    it("should parse profiles with case-insensitive matching by default", async () => {
+      process.env.GAMES_PARSING_PROFILES = JSON.stringify([
+        { name: "scene", pattern: "^(?<title>.+)-\\w+$" },
+      ]);
+
+      const { default: config } = await import("./configuration");
+
+      expect(config.GAMES.PARSING_PROFILES).toEqual([
+        { name: "scene", pattern: "^(?<title>.+)-\\w+$", flags: "i" },
+      ]);
+    });
+
+    it("should reject stateful flags", async () => {
+      process.env.GAMES_PARSING_PROFILES = JSON.stringify([
+        { pattern: "^(?<title>.+)$", flags: "gi" },
+      ]);
+
+      await expect(import("./configuration")).rejects.toThrow(
+        'Parsing profile #1 must not use the "g" or "y" flag.',
+      );
+    });
+  });
+
   describe("YAML configuration fallback", () => {
     let tempConfigDir: string;
 
@@ -5,7 +5,7 @@ import * as dotenv from "dotenv";
 import { existsSync } from "fs";
 import { readFileSync } from "fs-extra";
 import { toLower } from "lodash";
-import { join } from "path";
+import { basename, join } from "path";
 import { parse as parseYaml } from "yaml";
 import packageJson from "../package.json";
 import globals from "./globals";
@@ -81,7 +81,10 @@ function toEnvironmentString(value: unknown): string | undefined {
   if (value === undefined || value === null) {
     return undefined;
   }
-  if (Array.isArray(value)) {
+  if (
+    Array.isArray(value) &&
+    value.every((item) => item === null || typeof item !== "object")
+  ) {
     return value.map(String).join(",");
   }
   if (
@@ -183,6 +186,116 @@ function parseNumber(
   return number;
 }
 
+export type FilenameParsingProfile = {
+  name: string;
+  pattern: string;
+  flags: string;
+};
+
+function parseFilenameParsingProfiles(
+  environmentVariable: string,
+): FilenameParsingProfile[] {
+  if (!environmentVariable) {
+    return [];
+  }
+
+  try {
+    const profiles: unknown = JSON.parse(environmentVariable);
+    if (!Array.isArray(profiles)) {
+      throw new Error("Parsing profiles must be a list.");
+    }
+    return profiles.map((profile, index) => {
+      if (typeof profile?.pattern !== "string") {
+        throw new Error(`Parsing profile #${index + 1} has no pattern.`);
+      }
+      const flags = String(profile.flags ?? "i");
+      // Stateful regular expressions would continue where the last match ended
+      if (/[gy]/.test(flags)) {
+        throw new Error(
+          `Parsing profile #${index + 1} must not use the "g" or "y" flag.`,
+        );
+      }
+      // Fail early on invalid regular expressions.
+      new RegExp(profile.pattern, flags);
+      return {
+        name: String(profile.name ?? `profile-${index + 1}`),
+        pattern: profile.pattern,
+        flags,
+      };
+    });
+  } catch (error) {
+    throw new Error(
+      `Failed to parse GAMES_PARSING_PROFILES: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export type GameLibrary = {
+  name: string;
+  path: string;
+  search_recursive: boolean;
+  use_polling: boolean;
+  supported_file_formats: string[];
+  read_only: boolean;
+  default_type?: string;
+};
+
+function parseGameLibraries(
+  environmentVariable: string,
+  defaultLibrary: GameLibrary,
+): GameLibrary[] {
+  if (!environmentVariable) {
+    return [defaultLibrary];
+  }
+
+  try {
+    const libraries: unknown = JSON.parse(environmentVariable);
+    if (!Array.isArray(libraries) || !libraries.length) {
+      throw new Error("Libraries must be a non-empty list.");
+    }
+    const parsedLibraries = libraries.map((library, index): GameLibrary => {
+      if (typeof library?.path !== "string" || !library.path) {
+        throw new Error(`Library #${index + 1} has no path.`);
+      }
+      const libraryPath = parsePath(library.path, library.path);
+      return {
+        name: String(library.name ?? basename(libraryPath)),
+        path: libraryPath,
+        search_recursive: parseBooleanEnvVariable(
+          String(library.search_recursive),
+          defaultLibrary.search_recursive,
+        ),
+        use_polling: parseBooleanEnvVariable(
+          String(library.use_polling),
+          defaultLibrary.use_polling,
+        ),
+        supported_file_formats: parseList(
+          [library.supported_file_formats ?? []].flat().join(","),
+          defaultLibrary.supported_file_formats,
+        ),
+        read_only: parseBooleanEnvVariable(
+          String(library.read_only),
+          defaultLibrary.read_only,
+        ),
+        default_type: library.default_type ?? defaultLibrary.default_type,
+      };
+    });
+
+    const names = parsedLibraries.map((library) => library.name);
+    const duplicate = names.find(
+      (name, index) => names.indexOf(name) !== index,
+    );
+    if (duplicate) {
+      throw new Error(`Library name "${duplicate}" is used more than once.`);
+    }
+    return parsedLibraries;
+  } catch (error) {
+    throw new Error(
+      `Failed to parse GAMES_LIBRARIES: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
 function parseKibibytesToBytes(
   environmentVariable: string,
   defaultValue?: number,
@@ -210,6 +323,9 @@ export function getMaxBodySizeInBytes() {
   );
 }
 
+// Used as AUTH_SEED if none of the secrets it can be derived from is set
+const randomSeed = randomBytes(32).toString("hex");
+
 const configuration = {
   SERVER: {
     PORT: parseNumber(resolveEnv("SERVER_PORT"), 8080),
@@ -268,6 +384,7 @@ const configuration = {
     SQLITEDB: parsePath(resolveEnv("VOLUMES_SQLITEDB"), "/db"),
     PLUGINS: parsePath(resolveEnv("VOLUMES_PLUGINS"), "/plugins"),
     SAVEFILES: parsePath(resolveEnv("VOLUMES_SAVEFILES"), "/savefiles"),
+    INCOMING: parsePath(resolveEnv("VOLUMES_INCOMING"), undefined),
   } as const,
   DB: {
     SYSTEM: resolveEnv("DB_SYSTEM") || "POSTGRESQL",
@@ -326,6 +443,32 @@ const configuration = {
       true,
     ),
     INDEX_CONCURRENCY: parseNumber(resolveEnv("GAMES_INDEX_CONCURRENCY"), 1),
+    INDEX_JOB_HISTORY_SIZE: parseNumber(
+      resolveEnv("GAMES_INDEX_JOB_HISTORY_SIZE"),
+      100,
+    ),
+    DELETION_GRACE_PERIOD_IN_MINUTES: parseNumber(
+      resolveEnv("GAMES_DELETION_GRACE_PERIOD_IN_MINUTES"),
+      60,
+    ),
+    DELETION_THRESHOLD_PERCENTAGE: parseNumber(
+      resolveEnv("GAMES_DELETION_THRESHOLD_PERCENTAGE"),
+      25,
+    ),
+    RENAME_TEMPLATE:
+      resolveEnv("GAMES_RENAME_TEMPLATE") ||
+      "{title} ({release_year}) ({version}) ({type_short}).{ext}",
+    TRASH_RETENTION_IN_DAYS: parseNumber(
+      resolveEnv("GAMES_TRASH_RETENTION_IN_DAYS"),
+      30,
+    ),
+    INCOMING_STABILITY_THRESHOLD_IN_SECONDS: parseNumber(
+      resolveEnv("GAMES_INCOMING_STABILITY_THRESHOLD_IN_SECONDS"),
+      60,
+    ),
+    INCOMING_TEST_ARCHIVES: parseBooleanEnvVariable(
+      resolveEnv("GAMES_INCOMING_TEST_ARCHIVES"),
+    ),
     DEFAULT_ARCHIVE_PASSWORD:
       resolveEnv("GAMES_DEFAULT_ARCHIVE_PASSWORD") || "Anything",
     WINDOWS_SETUP_DEFAULT_INSTALL_PARAMETERS:
@@ -333,6 +476,49 @@ const configuration = {
       '/D="%INSTALLDIR%" /S /DIR="%INSTALLDIR%" /SILENT /COMPONENTS=text',
     MAX_UPLOAD_SIZE:
       bytes(toLower(resolveEnv("GAMES_MAX_UPLOAD_SIZE"))) ?? bytes("100gb"),
+    UPLOAD_EXPIRATION_IN_HOURS: parseNumber(
+      resolveEnv("GAMES_UPLOAD_EXPIRATION_IN_HOURS"),
+      24,
+    ),
+    HASHING_ENABLED: parseBooleanEnvVariable(
+      resolveEnv("GAMES_HASHING_ENABLED"),
+      true,
+    ),
+    VERIFICATION_ENABLED: parseBooleanEnvVariable(
+      resolveEnv("GAMES_VERIFICATION_ENABLED"),
+      true,
+    ),
+    VERIFICATION_INTERVAL_IN_DAYS: parseNumber(
+      resolveEnv("GAMES_VERIFICATION_INTERVAL_IN_DAYS"),
+      30,
+    ),
+    VERIFICATION_BATCH_SIZE: parseNumber(
+      resolveEnv("GAMES_VERIFICATION_BATCH_SIZE"),
+      10,
+    ),
+    FOLDER_GAMES_MARKER_FILE:
+      resolveEnv("GAMES_FOLDER_GAMES_MARKER_FILE") || ".gamevault-game",
+    FOLDER_GAMES_NAME_PATTERN:
+      resolveEnv("GAMES_FOLDER_GAMES_NAME_PATTERN") || "",
+    PARSING_PROFILES: parseFilenameParsingProfiles(
+      resolveEnv("GAMES_PARSING_PROFILES"),
+    ),
+    LIBRARIES: parseGameLibraries(resolveEnv("GAMES_LIBRARIES"), {
+      name: "default",
+      path: parsePath(resolveEnv("VOLUMES_FILES"), "/files"),
+      search_recursive: parseBooleanEnvVariable(
+        resolveEnv("GAMES_SEARCH_RECURSIVE"),
+        true,
+      ),
+      use_polling: parseBooleanEnvVariable(
+        resolveEnv("GAMES_INDEX_USE_POLLING"),
+      ),
+      supported_file_formats: parseList(
+        resolveEnv("GAMES_SUPPORTED_FILE_FORMATS"),
+        globals.SUPPORTED_FILE_FORMATS,
+      ),
+      read_only: false,
+    }),
   } as const,
   MEDIA: {
     MAX_SIZE: bytes(toLower(resolveEnv("MEDIA_MAX_SIZE"))) ?? bytes("10mb"),
@@ -390,7 +576,7 @@ const configuration = {
       safeHash(resolveEnv("SERVER_ADMIN_PASSWORD")) ||
       safeHash(resolveEnv("AUTH_OAUTH2_CLIENT_SECRET")) ||
       safeHash(resolveEnv("METADATA_IGDB_CLIENT_SECRET")) ||
-      randomBytes(32).toString("hex"),
+      randomSeed,
     ACCESS_TOKEN: {
       get SECRET() {
         return createHash("sha256")
@@ -442,6 +628,14 @@ export const gamevaultConfiguration = registerAs(
 
 export type AppConfiguration = typeof configuration;
 
+/**
+ * Whether AUTH_SEED is random, i.e. changes with every start of the server
+ * and differs between its threads.
+ */
+export function isAuthSeedRandom(): boolean {
+  return configuration.AUTH.SEED === randomSeed;
+}
+
 export function getCensoredConfiguration() {
   const censoredConfig = JSON.parse(
     JSON.stringify(configuration, (_k, v) => (v === undefined ? null : v)),
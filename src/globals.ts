@@ -102,7 +102,10 @@ export default {
     "video/mpeg", // MPEG
     "video/3gpp", // 3GP
   ],
-  RESERVED_PROVIDER_SLUGS: ["gamevault", "user"],
+  RESERVED_PROVIDER_SLUGS: ["gamevault", "user", "file", "sidecar"],
+  // Hidden directory inside the files volume used for server-internal data
+  // (e.g. upload staging). It is never indexed.
+  INTERNAL_DIRECTORY_NAME: ".gamevault",
 };
 
 export interface FindOptions {
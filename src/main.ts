@@ -13,6 +13,8 @@ import cookieparser from "cookie-parser";
 import helmet from "helmet";
 import morgan from "morgan";
 import { FilesService } from "./modules/games/files.service";
+import { IndexJobsService } from "./modules/games/index-jobs.service";
+import { StatusService } from "./modules/status/status.service";
 //import { AsyncApiDocumentBuilder, AsyncApiModule } from "nestjs-asyncapi";
 
 import { createHash } from "crypto";
@@ -28,6 +30,7 @@ import { AppModule } from "./app.module";
 import configuration, {
   getCensoredConfiguration,
   getMaxBodySizeInBytes,
+  isAuthSeedRandom,
 } from "./configuration";
 import { LoggingExceptionFilter } from "./filters/http-exception.filter";
 import { default as logger, stream, default as winston } from "./logging";
@@ -252,6 +255,14 @@ async function bootstrap(): Promise<void> {
     config: getCensoredConfiguration(),
   });
 
+  if (isAuthSeedRandom()) {
+    logger.warn({
+      context: "Initialization",
+      message:
+        "AUTH_SEED is not set, so a random seed is used. Archive passwords can't be stored until it is set.",
+    });
+  }
+
   // Fire-and-forget: start initial file indexing in a worker thread so it
   // cannot block the main event loop. Prefer compiled JS in dist, fallback
   // to loading ts via ts-node in dev using an eval worker.
@@ -292,12 +303,20 @@ async function bootstrap(): Promise<void> {
             error: err,
           });
         });
+        worker.on("message", (message) => {
+          if (message?.type === "index-progress") {
+            app.get(IndexJobsService).reportProgress(message.progress);
+          } else if (message?.type === "status") {
+            app.get(StatusService).set(message.status, message.reason);
+          }
+        });
         worker.on("exit", (code) => {
           logger.log({
             context: "Initialization",
             message: `Indexer worker exited with code ${code}`,
           });
           try {
+            app.get(IndexJobsService).resetProgress();
             const filesService = app.get(FilesService);
             filesService.markInitialIndexComplete();
           } catch {
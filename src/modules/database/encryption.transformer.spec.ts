@@ -0,0 +1,51 @@
+import configuration from "../../configuration";
+import {
+  decrypt,
+  encrypt,
+  encryptionTransformer,
+} from "./encryption.transformer";
+
+jest.mock("../../configuration", () => ({
+  __esModule: true,
+  default: { AUTH: { SEED: "seed" } },
+}));
+
+describe("encryption transformer", () => {
+  afterEach(() => {
+    (configuration.AUTH as any).SEED = "seed";
+  });
+
+  it("should decrypt encrypted values", () => {
+    const encrypted = encrypt("Hunter2");
+
+    expect(encrypted).not.toContain("Hunter2");
+    expect(decrypt(encrypted)).toBe("Hunter2");
+  });
+
+  it("should encrypt the same value differently every time", () => {
+    expect(encrypt("Hunter2")).not.toBe(encrypt("Hunter2"));
+  });
+
+  it("should not decrypt values encrypted with another seed", () => {
+    const encrypted = encrypt("Hunter2");
+    (configuration.AUTH as any).SEED = "other-seed";
+
+    expect(() => decrypt(encrypted)).toThrow();
+  });
+
+  it("should not decrypt tampered values", () => {
+    const [iv, authTag] = encrypt("Hunter2").split(":");
+
+    expect(() =>
+      decrypt(
+        [iv, authTag, Buffer.from("Hunter3").toString("base64")].join(":"),
+      ),
+    ).toThrow();
+    expect(() => decrypt("Hunter2")).toThrow("Encrypted value is malformed.");
+  });
+
+  it("should keep null values", () => {
+    expect(encryptionTransformer.to(null)).toBeNull();
+    expect(encryptionTransformer.from(null)).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import { ValueTransformer } from "typeorm";
+
+import configuration from "../../configuration";
+
+const algorithm = "aes-256-gcm";
+
+function getKey(): Buffer {
+  return createHash("sha256")
+    .update(`encryption:${configuration.AUTH.SEED}`)
+    .digest();
+}
+
+/** Encrypts a value with a key derived from AUTH_SEED. */
+export function encrypt(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(algorithm, getKey(), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(value, "utf8"),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString("base64"))
+    .join(":");
+}
+
+/**
+ * Decrypts a value encrypted by {@link encrypt}. Throws if the value has been
+ * tampered with or was encrypted with another AUTH_SEED.
+ */
+export function decrypt(value: string): string {
+  const [iv, authTag, encrypted] = value
+    .split(":")
+    .map((part) => Buffer.from(part, "base64"));
+  if (!iv || !authTag || !encrypted) {
+    throw new Error("Encrypted value is malformed.");
+  }
+  const decipher = createDecipheriv(algorithm, getKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    "utf8",
+  );
+}
+
+/** Stores a column encrypted at rest. */
+export const encryptionTransformer: ValueTransformer = {
+  to: (value?: string | null) => (value != null ? encrypt(value) : value),
+  from: (value?: string | null) => (value != null ? decrypt(value) : value),
+};
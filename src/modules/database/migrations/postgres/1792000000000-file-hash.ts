@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class FileHash1792000000000 implements MigrationInterface {
+  name = "FileHash1792000000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      ADD COLUMN file_hash character varying;
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_f1946af74def72bf59ba514b3a" ON "gamevault_game" ("file_hash")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX "IDX_f1946af74def72bf59ba514b3a"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      DROP COLUMN file_hash;
+    `);
+  }
+}
@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class FileMetadata1792100000000 implements MigrationInterface {
+  name = "FileMetadata1792100000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game"
+      ADD "file_metadata_id" integer
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game"
+      ADD CONSTRAINT "REL_3eab9713278e02f3c4917e6d04" UNIQUE ("file_metadata_id")
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game"
+      ADD CONSTRAINT "FK_3eab9713278e02f3c4917e6d04b" FOREIGN KEY ("file_metadata_id") REFERENCES "game_metadata"("id") ON DELETE
+      SET NULL ON UPDATE NO ACTION
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game" DROP CONSTRAINT "FK_3eab9713278e02f3c4917e6d04b"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game" DROP CONSTRAINT "REL_3eab9713278e02f3c4917e6d04"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game" DROP COLUMN "file_metadata_id"
+    `);
+    await queryRunner.query(`
+      DELETE FROM "game_metadata" WHERE "provider_slug" = 'file'
+    `);
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class Edition1792200000000 implements MigrationInterface {
+  name = "Edition1792200000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      ADD COLUMN edition character varying;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      DROP COLUMN edition;
+    `);
+  }
+}
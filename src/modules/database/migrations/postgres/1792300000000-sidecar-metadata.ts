@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class SidecarMetadata1792300000000 implements MigrationInterface {
+  name = "SidecarMetadata1792300000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game"
+      ADD "sidecar_metadata_id" integer
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game"
+      ADD CONSTRAINT "REL_fed4ff42f4e317b20520d6fa6b" UNIQUE ("sidecar_metadata_id")
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game"
+      ADD CONSTRAINT "FK_fed4ff42f4e317b20520d6fa6b6" FOREIGN KEY ("sidecar_metadata_id") REFERENCES "game_metadata"("id") ON DELETE
+      SET NULL ON UPDATE NO ACTION
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game" DROP CONSTRAINT "FK_fed4ff42f4e317b20520d6fa6b6"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game" DROP CONSTRAINT "REL_fed4ff42f4e317b20520d6fa6b"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game" DROP COLUMN "sidecar_metadata_id"
+    `);
+    await queryRunner.query(`
+      DELETE FROM "game_metadata" WHERE "provider_slug" = 'sidecar'
+    `);
+  }
+}
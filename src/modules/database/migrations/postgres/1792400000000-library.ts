@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class Library1792400000000 implements MigrationInterface {
+  name = "Library1792400000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      ADD COLUMN library character varying;
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_589ddaf57dbc5513801f8d018d" ON "gamevault_game" ("library")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX "IDX_589ddaf57dbc5513801f8d018d"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      DROP COLUMN library;
+    `);
+  }
+}
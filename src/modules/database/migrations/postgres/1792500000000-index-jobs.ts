@@ -0,0 +1,94 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class IndexJobs1792500000000 implements MigrationInterface {
+  name = "IndexJobs1792500000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "public"."index_job_trigger_enum" AS ENUM('STARTUP', 'SCHEDULED', 'MANUAL', 'WATCHER')
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."index_job_state_enum" AS ENUM('RUNNING', 'FINISHED', 'FAILED')
+    `);
+    await queryRunner.query(`
+      CREATE TABLE "index_job" (
+        "id" SERIAL NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "deleted_at" TIMESTAMP,
+        "entity_version" integer NOT NULL,
+        "trigger" "public"."index_job_trigger_enum" NOT NULL,
+        "state" "public"."index_job_state_enum" NOT NULL DEFAULT 'RUNNING',
+        "started_at" TIMESTAMP NOT NULL,
+        "finished_at" TIMESTAMP,
+        "files_seen" integer NOT NULL DEFAULT 0,
+        "added" integer NOT NULL DEFAULT 0,
+        "updated" integer NOT NULL DEFAULT 0,
+        "restored" integer NOT NULL DEFAULT 0,
+        "deleted" integer NOT NULL DEFAULT 0,
+        "failed" integer NOT NULL DEFAULT 0,
+        "error" character varying,
+        CONSTRAINT "PK_f1a0560610a2af68d74dc658ee6" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_f1a0560610a2af68d74dc658ee" ON "index_job" ("id")
+    `);
+    await queryRunner.query(`
+      CREATE TABLE "index_job_error" (
+        "id" SERIAL NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "deleted_at" TIMESTAMP,
+        "entity_version" integer NOT NULL,
+        "path" character varying NOT NULL,
+        "message" character varying NOT NULL,
+        "job_id" integer,
+        CONSTRAINT "PK_531e4f914b99c9ee39002fce9c5" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_531e4f914b99c9ee39002fce9c" ON "index_job_error" ("id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_c133987f3f2aa590b803e61288" ON "index_job_error" ("job_id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_f259766e64170e57575df431ae" ON "index_job_error" ("path")
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "index_job_error"
+      ADD CONSTRAINT "FK_c133987f3f2aa590b803e61288f" FOREIGN KEY ("job_id") REFERENCES "index_job"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "index_job_error" DROP CONSTRAINT "FK_c133987f3f2aa590b803e61288f"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "public"."IDX_f259766e64170e57575df431ae"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "public"."IDX_c133987f3f2aa590b803e61288"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "public"."IDX_531e4f914b99c9ee39002fce9c"
+    `);
+    await queryRunner.query(`
+      DROP TABLE "index_job_error"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "public"."IDX_f1a0560610a2af68d74dc658ee"
+    `);
+    await queryRunner.query(`
+      DROP TABLE "index_job"
+    `);
+    await queryRunner.query(`
+      DROP TYPE "public"."index_job_state_enum"
+    `);
+    await queryRunner.query(`
+      DROP TYPE "public"."index_job_trigger_enum"
+    `);
+  }
+}
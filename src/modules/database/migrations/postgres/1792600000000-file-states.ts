@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class FileStates1792600000000 implements MigrationInterface {
+  name = "FileStates1792600000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "file_state" (
+        "id" SERIAL NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "deleted_at" TIMESTAMP,
+        "entity_version" integer NOT NULL,
+        "path" character varying NOT NULL,
+        "size" bigint NOT NULL,
+        "mtime" bigint NOT NULL,
+        "inode" bigint,
+        CONSTRAINT "UQ_cf238ddd3f5b8445ad47df7f354" UNIQUE ("path"),
+        CONSTRAINT "PK_e0852495175e46b095b4c0ef363" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_e0852495175e46b095b4c0ef36" ON "file_state" ("id")
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "index_job"
+      ADD "incremental" boolean NOT NULL DEFAULT false
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "index_job"
+      ADD "skipped" integer NOT NULL DEFAULT 0
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "index_job" DROP COLUMN "skipped"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "index_job" DROP COLUMN "incremental"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "public"."IDX_e0852495175e46b095b4c0ef36"
+    `);
+    await queryRunner.query(`
+      DROP TABLE "file_state"
+    `);
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MissingSince1792700000000 implements MigrationInterface {
+  name = "MissingSince1792700000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      ADD COLUMN missing_since TIMESTAMP;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      DROP COLUMN missing_since;
+    `);
+  }
+}
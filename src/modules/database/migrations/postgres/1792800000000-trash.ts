@@ -0,0 +1,60 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class Trash1792800000000 implements MigrationInterface {
+  name = "Trash1792800000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "trashed_file" (
+        "id" SERIAL NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "deleted_at" TIMESTAMP,
+        "entity_version" integer NOT NULL,
+        "original_path" character varying NOT NULL,
+        "trash_path" character varying NOT NULL,
+        "size" bigint NOT NULL DEFAULT '0',
+        "expires_at" TIMESTAMP NOT NULL,
+        "game_id" integer,
+        CONSTRAINT "PK_590e8f8978e04f8aad4caadaeb6" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_590e8f8978e04f8aad4caadaeb" ON "trashed_file" ("id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_a30e93e4dff0514f4c7fc37d25" ON "trashed_file" ("game_id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_8f62203793ba6478c0d6ad973a" ON "trashed_file" ("original_path")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_abff1fd11db9eac5837ebdde34" ON "trashed_file" ("expires_at")
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "trashed_file"
+      ADD CONSTRAINT "FK_a30e93e4dff0514f4c7fc37d25f" FOREIGN KEY ("game_id") REFERENCES "gamevault_game"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "trashed_file" DROP CONSTRAINT "FK_a30e93e4dff0514f4c7fc37d25f"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "public"."IDX_abff1fd11db9eac5837ebdde34"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "public"."IDX_8f62203793ba6478c0d6ad973a"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "public"."IDX_a30e93e4dff0514f4c7fc37d25"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "public"."IDX_590e8f8978e04f8aad4caadaeb"
+    `);
+    await queryRunner.query(`
+      DROP TABLE "trashed_file"
+    `);
+  }
+}
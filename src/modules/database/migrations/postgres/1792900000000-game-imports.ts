@@ -0,0 +1,47 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class GameImports1792900000000 implements MigrationInterface {
+  name = "GameImports1792900000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "public"."game_import_state_enum" AS ENUM('IMPORTED', 'REJECTED', 'FAILED')
+    `);
+    await queryRunner.query(`
+      CREATE TABLE "game_import" (
+        "id" SERIAL NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "deleted_at" TIMESTAMP,
+        "entity_version" integer NOT NULL,
+        "source_path" character varying NOT NULL,
+        "target_path" character varying,
+        "size" bigint NOT NULL DEFAULT '0',
+        "state" "public"."game_import_state_enum" NOT NULL,
+        "error" character varying,
+        CONSTRAINT "PK_c3966d558bb727aae18fa66498e" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_c3966d558bb727aae18fa66498" ON "game_import" ("id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_27dd085337a8e6a5aa098c7940" ON "game_import" ("source_path")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX "public"."IDX_27dd085337a8e6a5aa098c7940"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "public"."IDX_c3966d558bb727aae18fa66498"
+    `);
+    await queryRunner.query(`
+      DROP TABLE "game_import"
+    `);
+    await queryRunner.query(`
+      DROP TYPE "public"."game_import_state_enum"
+    `);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class GameVersions1793000000000 implements MigrationInterface {
+  name = "GameVersions1793000000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game"
+      ADD "version_of_id" integer
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_945cc1d00f7ebf85930e71eb11" ON "gamevault_game" ("version_of_id")
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game"
+      ADD CONSTRAINT "FK_945cc1d00f7ebf85930e71eb113" FOREIGN KEY ("version_of_id") REFERENCES "gamevault_game"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game" DROP CONSTRAINT "FK_945cc1d00f7ebf85930e71eb113"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "public"."IDX_945cc1d00f7ebf85930e71eb11"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game" DROP COLUMN "version_of_id"
+    `);
+  }
+}
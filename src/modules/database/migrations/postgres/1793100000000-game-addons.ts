@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class GameAddons1793100000000 implements MigrationInterface {
+  name = "GameAddons1793100000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "public"."gamevault_game_addon_type_enum" AS ENUM('DLC', 'PATCH', 'SOUNDTRACK', 'EXTRA')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game"
+      ADD "addon_type" "public"."gamevault_game_addon_type_enum"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game"
+      ADD "addon_of_id" integer
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_3407bc25511cfca51b51cb72fa" ON "gamevault_game" ("addon_of_id")
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game"
+      ADD CONSTRAINT "FK_3407bc25511cfca51b51cb72fab" FOREIGN KEY ("addon_of_id") REFERENCES "gamevault_game"("id") ON DELETE SET NULL ON UPDATE NO ACTION
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game" DROP CONSTRAINT "FK_3407bc25511cfca51b51cb72fab"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "public"."IDX_3407bc25511cfca51b51cb72fa"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game" DROP COLUMN "addon_of_id"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game" DROP COLUMN "addon_type"
+    `);
+    await queryRunner.query(`
+      DROP TYPE "public"."gamevault_game_addon_type_enum"
+    `);
+  }
+}
@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class Dependencies1793300000000 implements MigrationInterface {
+  name = "Dependencies1793300000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "game_metadata"
+      ADD "dependencies" text
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "game_metadata" DROP COLUMN "dependencies"
+    `);
+  }
+}
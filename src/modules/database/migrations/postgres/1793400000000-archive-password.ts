@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class ArchivePassword1793400000000 implements MigrationInterface {
+  name = "ArchivePassword1793400000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game"
+      ADD "archive_password" character varying
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game" DROP COLUMN "archive_password"
+    `);
+  }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class GameVerification1793500000000 implements MigrationInterface {
+  name = "GameVerification1793500000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "public"."gamevault_game_verification_state_enum" AS ENUM('PASSED', 'FAILED')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game"
+      ADD "verification_state" "public"."gamevault_game_verification_state_enum"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game"
+      ADD "verified_at" TIMESTAMP
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game"
+      ADD "verification_error" character varying
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game" DROP COLUMN "verification_error"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game" DROP COLUMN "verified_at"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "gamevault_game" DROP COLUMN "verification_state"
+    `);
+    await queryRunner.query(`
+      DROP TYPE "public"."gamevault_game_verification_state_enum"
+    `);
+  }
+}
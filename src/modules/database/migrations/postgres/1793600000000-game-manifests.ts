@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class GameManifests1793600000000 implements MigrationInterface {
+  name = "GameManifests1793600000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "game_manifest" (
+        "id" SERIAL NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "deleted_at" TIMESTAMP,
+        "entity_version" integer NOT NULL,
+        "etag" character varying NOT NULL,
+        "size" bigint NOT NULL,
+        "hash" character varying NOT NULL,
+        "chunk_size" integer NOT NULL,
+        "chunk_hashes" text NOT NULL,
+        "game_id" integer,
+        CONSTRAINT "REL_ef030d7430836815dd89add1a2" UNIQUE ("game_id"),
+        CONSTRAINT "PK_3770cfa884b86ad7206447da4f7" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_3770cfa884b86ad7206447da4f" ON "game_manifest" ("id")
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "game_manifest"
+      ADD CONSTRAINT "FK_ef030d7430836815dd89add1a21" FOREIGN KEY ("game_id") REFERENCES "gamevault_game"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "game_manifest" DROP CONSTRAINT "FK_ef030d7430836815dd89add1a21"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "public"."IDX_3770cfa884b86ad7206447da4f"
+    `);
+    await queryRunner.query(`
+      DROP TABLE "game_manifest"
+    `);
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class FileMetadata1792100000000 implements MigrationInterface {
+  name = "FileMetadata1792100000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      ADD COLUMN file_metadata_id integer REFERENCES game_metadata (id) ON DELETE SET NULL ON UPDATE NO ACTION;
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "REL_3eab9713278e02f3c4917e6d04" ON "gamevault_game" ("file_metadata_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX "REL_3eab9713278e02f3c4917e6d04"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      DROP COLUMN file_metadata_id;
+    `);
+    await queryRunner.query(`
+      DELETE FROM game_metadata WHERE provider_slug = 'file';
+    `);
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class SidecarMetadata1792300000000 implements MigrationInterface {
+  name = "SidecarMetadata1792300000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      ADD COLUMN sidecar_metadata_id integer REFERENCES game_metadata (id) ON DELETE SET NULL ON UPDATE NO ACTION;
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "REL_fed4ff42f4e317b20520d6fa6b" ON "gamevault_game" ("sidecar_metadata_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX "REL_fed4ff42f4e317b20520d6fa6b"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      DROP COLUMN sidecar_metadata_id;
+    `);
+    await queryRunner.query(`
+      DELETE FROM game_metadata WHERE provider_slug = 'sidecar';
+    `);
+  }
+}
@@ -0,0 +1,78 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class IndexJobs1792500000000 implements MigrationInterface {
+  name = "IndexJobs1792500000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "index_job" (
+        "id" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+        "created_at" datetime NOT NULL DEFAULT (datetime('now')),
+        "updated_at" datetime NOT NULL DEFAULT (datetime('now')),
+        "deleted_at" datetime,
+        "entity_version" integer NOT NULL,
+        "trigger" varchar CHECK(
+          "trigger" IN ('STARTUP', 'SCHEDULED', 'MANUAL', 'WATCHER')
+        ) NOT NULL,
+        "state" varchar CHECK(
+          "state" IN ('RUNNING', 'FINISHED', 'FAILED')
+        ) NOT NULL DEFAULT ('RUNNING'),
+        "started_at" datetime NOT NULL,
+        "finished_at" datetime,
+        "files_seen" integer NOT NULL DEFAULT (0),
+        "added" integer NOT NULL DEFAULT (0),
+        "updated" integer NOT NULL DEFAULT (0),
+        "restored" integer NOT NULL DEFAULT (0),
+        "deleted" integer NOT NULL DEFAULT (0),
+        "failed" integer NOT NULL DEFAULT (0),
+        "error" varchar
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_f1a0560610a2af68d74dc658ee" ON "index_job" ("id")
+    `);
+    await queryRunner.query(`
+      CREATE TABLE "index_job_error" (
+        "id" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+        "created_at" datetime NOT NULL DEFAULT (datetime('now')),
+        "updated_at" datetime NOT NULL DEFAULT (datetime('now')),
+        "deleted_at" datetime,
+        "entity_version" integer NOT NULL,
+        "path" varchar NOT NULL,
+        "message" varchar NOT NULL,
+        "job_id" integer,
+        CONSTRAINT "FK_c133987f3f2aa590b803e61288f" FOREIGN KEY ("job_id") REFERENCES "index_job" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_531e4f914b99c9ee39002fce9c" ON "index_job_error" ("id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_c133987f3f2aa590b803e61288" ON "index_job_error" ("job_id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_f259766e64170e57575df431ae" ON "index_job_error" ("path")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX "IDX_f259766e64170e57575df431ae"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "IDX_c133987f3f2aa590b803e61288"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "IDX_531e4f914b99c9ee39002fce9c"
+    `);
+    await queryRunner.query(`
+      DROP TABLE "index_job_error"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "IDX_f1a0560610a2af68d74dc658ee"
+    `);
+    await queryRunner.query(`
+      DROP TABLE "index_job"
+    `);
+  }
+}
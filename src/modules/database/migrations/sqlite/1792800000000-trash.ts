@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class Trash1792800000000 implements MigrationInterface {
+  name = "Trash1792800000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "trashed_file" (
+        "id" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+        "created_at" datetime NOT NULL DEFAULT (datetime('now')),
+        "updated_at" datetime NOT NULL DEFAULT (datetime('now')),
+        "deleted_at" datetime,
+        "entity_version" integer NOT NULL,
+        "original_path" varchar NOT NULL,
+        "trash_path" varchar NOT NULL,
+        "size" bigint NOT NULL DEFAULT (0),
+        "expires_at" datetime NOT NULL,
+        "game_id" integer,
+        CONSTRAINT "FK_a30e93e4dff0514f4c7fc37d25f" FOREIGN KEY ("game_id") REFERENCES "gamevault_game" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_590e8f8978e04f8aad4caadaeb" ON "trashed_file" ("id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_a30e93e4dff0514f4c7fc37d25" ON "trashed_file" ("game_id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_8f62203793ba6478c0d6ad973a" ON "trashed_file" ("original_path")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_abff1fd11db9eac5837ebdde34" ON "trashed_file" ("expires_at")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX "IDX_abff1fd11db9eac5837ebdde34"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "IDX_8f62203793ba6478c0d6ad973a"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "IDX_a30e93e4dff0514f4c7fc37d25"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "IDX_590e8f8978e04f8aad4caadaeb"
+    `);
+    await queryRunner.query(`
+      DROP TABLE "trashed_file"
+    `);
+  }
+}
@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class GameImports1792900000000 implements MigrationInterface {
+  name = "GameImports1792900000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "game_import" (
+        "id" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+        "created_at" datetime NOT NULL DEFAULT (datetime('now')),
+        "updated_at" datetime NOT NULL DEFAULT (datetime('now')),
+        "deleted_at" datetime,
+        "entity_version" integer NOT NULL,
+        "source_path" varchar NOT NULL,
+        "target_path" varchar,
+        "size" bigint NOT NULL DEFAULT (0),
+        "state" varchar CHECK(
+          "state" IN ('IMPORTED', 'REJECTED', 'FAILED')
+        ) NOT NULL,
+        "error" varchar
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_c3966d558bb727aae18fa66498" ON "game_import" ("id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_27dd085337a8e6a5aa098c7940" ON "game_import" ("source_path")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX "IDX_27dd085337a8e6a5aa098c7940"
+    `);
+    await queryRunner.query(`
+      DROP INDEX "IDX_c3966d558bb727aae18fa66498"
+    `);
+    await queryRunner.query(`
+      DROP TABLE "game_import"
+    `);
+  }
+}
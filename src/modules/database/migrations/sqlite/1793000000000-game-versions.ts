@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class GameVersions1793000000000 implements MigrationInterface {
+  name = "GameVersions1793000000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      ADD COLUMN version_of_id integer REFERENCES gamevault_game (id) ON DELETE CASCADE ON UPDATE NO ACTION;
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_945cc1d00f7ebf85930e71eb11" ON "gamevault_game" ("version_of_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX "IDX_945cc1d00f7ebf85930e71eb11"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      DROP COLUMN version_of_id;
+    `);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class GameAddons1793100000000 implements MigrationInterface {
+  name = "GameAddons1793100000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      ADD COLUMN addon_type varchar CHECK(addon_type IN ('DLC', 'PATCH', 'SOUNDTRACK', 'EXTRA'));
+    `);
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      ADD COLUMN addon_of_id integer REFERENCES gamevault_game (id) ON DELETE SET NULL ON UPDATE NO ACTION;
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_3407bc25511cfca51b51cb72fa" ON "gamevault_game" ("addon_of_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX "IDX_3407bc25511cfca51b51cb72fa"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      DROP COLUMN addon_of_id;
+    `);
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      DROP COLUMN addon_type;
+    `);
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class InstallScript1793200000000 implements MigrationInterface {
+  name = "InstallScript1793200000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE game_metadata
+      ADD COLUMN install_script text;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE game_metadata
+      DROP COLUMN install_script;
+    `);
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class GameVerification1793500000000 implements MigrationInterface {
+  name = "GameVerification1793500000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      ADD COLUMN verification_state varchar CHECK(verification_state IN ('PASSED', 'FAILED'));
+    `);
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      ADD COLUMN verified_at datetime;
+    `);
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      ADD COLUMN verification_error varchar;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      DROP COLUMN verification_error;
+    `);
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      DROP COLUMN verified_at;
+    `);
+    await queryRunner.query(`
+      ALTER TABLE gamevault_game
+      DROP COLUMN verification_state;
+    `);
+  }
+}
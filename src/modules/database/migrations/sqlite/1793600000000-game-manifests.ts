@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class GameManifests1793600000000 implements MigrationInterface {
+  name = "GameManifests1793600000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "game_manifest" (
+        "id" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+        "created_at" datetime NOT NULL DEFAULT (datetime('now')),
+        "updated_at" datetime NOT NULL DEFAULT (datetime('now')),
+        "deleted_at" datetime,
+        "entity_version" integer NOT NULL,
+        "etag" varchar NOT NULL,
+        "size" bigint NOT NULL,
+        "hash" varchar NOT NULL,
+        "chunk_size" integer NOT NULL,
+        "chunk_hashes" text NOT NULL,
+        "game_id" integer,
+        CONSTRAINT "REL_ef030d7430836815dd89add1a2" UNIQUE ("game_id"),
+        CONSTRAINT "FK_ef030d7430836815dd89add1a21" FOREIGN KEY ("game_id") REFERENCES "gamevault_game" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_3770cfa884b86ad7206447da4f" ON "game_manifest" ("id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX "IDX_3770cfa884b86ad7206447da4f"
+    `);
+    await queryRunner.query(`
+      DROP TABLE "game_manifest"
+    `);
+  }
+}
@@ -0,0 +1,125 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { createHash } from "crypto";
+import { createReadStream, stat } from "fs-extra";
+import { pipeline } from "stream/promises";
+
+import configuration from "../../configuration";
+import { GamesService } from "./games.service";
+import { TarArchive } from "./tar-archive";
+
+@Injectable()
+export class FileHashingService {
+  private readonly logger = new Logger(this.constructor.name);
+  private readonly hashJobs = new Set<number>();
+  private isProcessingQueue = false;
+
+  constructor(private readonly gamesService: GamesService) {}
+
+  /**
+   * Enqueues the calculation of the content hash of a game file.
+   * Hashes are calculated sequentially in the background.
+   */
+  public addHashJob(gameId: number): void {
+    if (
+      !configuration.GAMES.HASHING_ENABLED ||
+      configuration.TESTING.MOCK_FILES
+    ) {
+      return;
+    }
+
+    if (this.hashJobs.has(gameId)) {
+      this.logger.debug({
+        message: "Skipping hash job as it is already enqueued.",
+        game: { id: gameId },
+      });
+      return;
+    }
+
+    this.hashJobs.add(gameId);
+    this.processQueue();
+  }
+
+  /**
+   * Calculates the SHA-256 hash of a file's content as hex string. Folder
+   * games are hashed through their deterministic tar archive.
+   */
+  public async calculateHash(filePath: string): Promise<string> {
+    const hash = createHash("sha256");
+    const source = (await stat(filePath)).isDirectory()
+      ? (await TarArchive.fromPath(filePath)).createReadStream()
+      : createReadStream(filePath);
+    await pipeline(source, hash);
+    return hash.digest("hex");
+  }
+
+  /**
+   * Processes the queue sequentially
+   */
+  private async processQueue(): Promise<void> {
+    if (this.isProcessingQueue) return;
+    this.isProcessingQueue = true;
+
+    this.logger.log({
+      message: "Hashing queue started.",
+      queue_size: this.hashJobs.size,
+    });
+
+    let processed = 0;
+    while (this.hashJobs.size > 0) {
+      const gameId = this.hashJobs.values().next().value;
+      try {
+        await this.hashGame(gameId);
+      } catch (error) {
+        this.logger.warn({
+          message: "Error calculating hash of game file.",
+          game: { id: gameId },
+          error,
+        });
+      } finally {
+        this.hashJobs.delete(gameId);
+        processed++;
+      }
+    }
+
+    this.logger.log({
+      message: "Hashing queue drained.",
+      total_processed: processed,
+    });
+
+    this.isProcessingQueue = false;
+  }
+
+  private async hashGame(gameId: number): Promise<void> {
+    const game = await this.gamesService.findOneByGameIdOrFail(gameId, {
+      loadDeletedEntities: false,
+      loadRelations: false,
+      select: ["id", "file_path", "size", "file_hash"],
+    });
+
+    if (game.file_hash) {
+      return;
+    }
+
+    const fileHash = await this.calculateHash(game.file_path);
+
+    // Discard the hash if the file has been altered while hashing it.
+    const stats = await stat(game.file_path);
+    const size = stats.isDirectory()
+      ? (await TarArchive.fromPath(game.file_path)).contentSize
+      : stats.size;
+    if (BigInt(size).toString() !== game.size.toString()) {
+      this.logger.debug({
+        message: "Game file changed while hashing. Discarding hash.",
+        game: { id: game.id, path: game.file_path },
+      });
+      return;
+    }
+
+    await this.gamesService.updateFileHash(game.id, fileHash);
+    this.logger.debug({
+      message: "Calculated hash of game file.",
+      game: { id: game.id, path: game.file_path },
+      file_hash: fileHash,
+    });
+  }
+}
@@ -0,0 +1,28 @@
+import { Column, Entity } from "typeorm";
+
+import { DatabaseEntity } from "../database/database.entity";
+
+const bigintTransformer = {
+  to: (value: string) => value,
+  from: (value: string | number | null) =>
+    value != null ? BigInt(value).toString() : value,
+};
+
+/**
+ * Snapshot of a game file as of the last time it was indexed. Incremental
+ * index runs skip files whose state is unchanged.
+ */
+@Entity()
+export class FileState extends DatabaseEntity {
+  @Column({ unique: true })
+  path: string;
+
+  @Column({ type: "bigint", transformer: bigintTransformer })
+  size: string;
+
+  @Column({ type: "bigint", transformer: bigintTransformer })
+  mtime: string;
+
+  @Column({ type: "bigint", nullable: true, transformer: bigintTransformer })
+  inode?: string;
+}
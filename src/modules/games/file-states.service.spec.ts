@@ -0,0 +1,45 @@
+import { In, Repository } from "typeorm";
+import { FileState } from "./file-state.entity";
+import { FileStatesService } from "./file-states.service";
+
+describe("FileStatesService", () => {
+  let service: FileStatesService;
+  let fileStateRepository: jest.Mocked<Repository<FileState>>;
+
+  const files = [
+    { path: "/files/A.zip", size: BigInt(10), mtime: 1000.5, inode: 1 },
+    { path: "/files/B.zip", size: BigInt(20), mtime: 2000, inode: 2 },
+    { path: "/files/C.zip", size: BigInt(30), mtime: 3000, inode: 3 },
+  ];
+
+  beforeEach(() => {
+    fileStateRepository = {
+      find: jest.fn().mockResolvedValue([
+        { id: 1, path: "/files/A.zip", size: "10", mtime: "1000", inode: "1" },
+        { id: 2, path: "/files/B.zip", size: "20", mtime: "1500", inode: "2" },
+        { id: 3, path: "/files/Old.zip", size: "5", mtime: "500", inode: "4" },
+      ]),
+      upsert: jest.fn(),
+      delete: jest.fn(),
+    } as any;
+
+    service = new FileStatesService(fileStateRepository);
+  });
+
+  it("should find files that are new or changed since they were indexed", async () => {
+    await expect(service.findChanged(files)).resolves.toEqual([
+      files[1],
+      files[2],
+    ]);
+  });
+
+  it("should save the state of indexed files and remove outdated states", async () => {
+    await service.save([files[1]], files);
+
+    expect(fileStateRepository.upsert).toHaveBeenCalledWith(
+      [{ path: "/files/B.zip", size: "20", mtime: "2000", inode: "2" }],
+      ["path"],
+    );
+    expect(fileStateRepository.delete).toHaveBeenCalledWith({ id: In([3]) });
+  });
+});
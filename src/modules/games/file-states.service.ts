@@ -0,0 +1,81 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { chunk } from "lodash";
+import { In, Repository } from "typeorm";
+
+import { FileState } from "./file-state.entity";
+import { File } from "./models/file.model";
+
+/**
+ * Persists a path → (size, mtime, inode) snapshot of all indexed game files,
+ * so incremental index runs only need to index the files that changed.
+ */
+@Injectable()
+export class FileStatesService {
+  private readonly logger = new Logger(this.constructor.name);
+  private readonly batchSize = 500;
+
+  constructor(
+    @InjectRepository(FileState)
+    private readonly fileStateRepository: Repository<FileState>,
+  ) {}
+
+  /** Returns the files that are new or changed since they were last indexed. */
+  public async findChanged(files: File[]): Promise<File[]> {
+    const states = new Map(
+      (
+        await this.fileStateRepository.find({
+          select: ["path", "size", "mtime", "inode"],
+        })
+      ).map((state) => [state.path, state]),
+    );
+    return files.filter((file) => {
+      const state = states.get(file.path);
+      return !state || !this.isEqual(state, this.toFileState(file));
+    });
+  }
+
+  /**
+   * Saves the state of the given indexed files and removes the state of all
+   * files that no longer exist.
+   */
+  public async save(indexedFiles: File[], existingFiles: File[]) {
+    for (const batch of chunk(indexedFiles, this.batchSize)) {
+      await this.fileStateRepository.upsert(
+        batch.map((file) => this.toFileState(file)),
+        ["path"],
+      );
+    }
+
+    const existingPaths = new Set(existingFiles.map((file) => file.path));
+    const outdatedIds = (
+      await this.fileStateRepository.find({ select: ["id", "path"] })
+    )
+      .filter((state) => !existingPaths.has(state.path))
+      .map((state) => state.id);
+    for (const batch of chunk(outdatedIds, this.batchSize)) {
+      await this.fileStateRepository.delete({ id: In(batch) });
+    }
+
+    this.logger.debug({
+      message: "Saved file states.",
+      saved: indexedFiles.length,
+      removed: outdatedIds.length,
+    });
+  }
+
+  private toFileState(file: File): Partial<FileState> {
+    return {
+      path: file.path,
+      size: file.size.toString(),
+      mtime: Math.floor(file.mtime ?? 0).toString(),
+      inode: file.inode != null ? file.inode.toString() : null,
+    };
+  }
+
+  private isEqual(a: Partial<FileState>, b: Partial<FileState>): boolean {
+    return (
+      a.size === b.size && a.mtime === b.mtime && (a.inode ?? null) === b.inode
+    );
+  }
+}
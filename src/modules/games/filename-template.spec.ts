@@ -0,0 +1,60 @@
+import path from "path";
+import { FilenameTemplate } from "./filename-template";
+
+describe("FilenameTemplate", () => {
+  const template = new FilenameTemplate(
+    "{title} ({release_year}) ({version}) ({type_short}).{ext}",
+  );
+
+  it("should render all placeholders", () => {
+    expect(
+      template.render({
+        title: "Some Game",
+        release_year: "2020",
+        version: "v1.2",
+        type_short: "W_P",
+        ext: "zip",
+      }),
+    ).toBe("Some Game (2020) (v1.2) (W_P).zip");
+  });
+
+  it("should drop brackets of placeholders without value", () => {
+    expect(template.render({ title: "Some Game", ext: "7z" })).toBe(
+      "Some Game.7z",
+    );
+    expect(
+      template.render({ title: "Some Game", release_year: "2020", ext: "7z" }),
+    ).toBe("Some Game (2020).7z");
+  });
+
+  it("should drop the extension of folder games", () => {
+    expect(template.render({ title: "Some Game", release_year: "2020" })).toBe(
+      "Some Game (2020)",
+    );
+  });
+
+  it("should sanitize values and create directories", () => {
+    expect(
+      new FilenameTemplate("{type}/[{edition}] {title}.{ext}").render({
+        title: "Halo: Reach / Remastered",
+        type: "WINDOWS_SETUP",
+        ext: "zip",
+      }),
+    ).toBe(path.join("WINDOWS_SETUP", "Halo Reach Remastered.zip"));
+    expect(
+      new FilenameTemplate("{edition}/{title}.{ext}").render({
+        title: "Some Game",
+        ext: "zip",
+      }),
+    ).toBe("Some Game.zip");
+  });
+
+  it("should reject unknown placeholders and empty filenames", () => {
+    expect(() => new FilenameTemplate("{name}.{ext}")).toThrow(
+      "Unknown placeholders: name",
+    );
+    expect(() => new FilenameTemplate("{version}").render({})).toThrow(
+      "empty filename",
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import path from "path";
+import filenameSanitizer from "sanitize-filename";
+
+const PLACEHOLDERS = [
+  "title",
+  "sort_title",
+  "release_year",
+  "version",
+  "edition",
+  "early_access",
+  "type",
+  "type_short",
+  "ext",
+] as const;
+
+/** Values of the placeholders of a filename template. */
+export type FilenameTemplateValues = Partial<
+  Record<(typeof PLACEHOLDERS)[number], string>
+>;
+
+/**
+ * Template for the path of a game file relative to its library, e.g.
+ * `{title} ({release_year}) ({version}) ({type_short}).{ext}`. Brackets that
+ * only enclose placeholders without a value are dropped and slashes create
+ * directories.
+ */
+export class FilenameTemplate {
+  public static readonly placeholders: readonly string[] = PLACEHOLDERS;
+
+  /** Throws if the template contains unknown placeholders. */
+  constructor(public readonly template: string) {
+    const unknownPlaceholders = Array.from(
+      template.matchAll(/\{([^}]*)\}/g),
+      (match) => match[1],
+    ).filter((name) => !FilenameTemplate.placeholders.includes(name));
+    if (!template.trim() || unknownPlaceholders.length) {
+      throw new Error(
+        `Invalid filename template "${template}". Unknown placeholders: ${unknownPlaceholders.join(", ") || "none"}. Supported placeholders: ${FilenameTemplate.placeholders.join(", ")}.`,
+      );
+    }
+  }
+
+  /**
+   * Renders the template into a relative path. Directories that render
+   * empty are left out. Throws if the filename renders empty.
+   */
+  public render(values: FilenameTemplateValues): string {
+    const segments = this.template.split(/[\\/]/);
+    const filename = FilenameTemplate.renderSegment(segments.pop(), values);
+    if (!filename) {
+      throw new Error(
+        `Filename template "${this.template}" renders an empty filename.`,
+      );
+    }
+    return path.join(
+      ...segments
+        .map((segment) => FilenameTemplate.renderSegment(segment, values))
+        .filter(Boolean),
+      filename,
+    );
+  }
+
+  private static renderSegment(
+    segment: string,
+    values: FilenameTemplateValues,
+  ): string {
+    let rendered = segment.replace(/\{(\w+)\}/g, (_, name: string) =>
+      filenameSanitizer(values[name]?.trim() ?? ""),
+    );
+
+    // Brackets of placeholders without a value, e.g. "()" of a game without
+    // version, are dropped
+    let previous: string;
+    do {
+      previous = rendered;
+      rendered = rendered.replace(/\(\s*\)|\[\s*\]/g, "");
+    } while (rendered !== previous);
+
+    return filenameSanitizer(
+      rendered
+        .replace(/\s+/g, " ")
+        // Whitespace left before the extension
+        .replace(/\s+(\.[^.\s]*)?$/, "$1")
+        .trim(),
+    );
+  }
+}
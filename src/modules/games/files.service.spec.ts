@@ -1,19 +1,36 @@
 import {
   BadRequestException,
+  ConflictException,
+  InternalServerErrorException,
   NotFoundException,
   StreamableFile,
 } from "@nestjs/common";
-import { SchedulerRegistry } from "@nestjs/schedule";
+import { Response } from "express";
 import { constants } from "fs-extra";
+import { Readable } from "stream";
 import { MetadataService } from "../metadata/metadata.service";
+import { StatusEnum } from "../status/models/status.enum";
+import { StatusService } from "../status/status.service";
+import { FileHashingService } from "./file-hashing.service";
+import { FileStatesService } from "./file-states.service";
 import { FilesService } from "./files.service";
 import { GamesService } from "./games.service";
+import { IndexJobsService } from "./index-jobs.service";
+import { GameAddonType } from "./models/game-addon-type.enum";
+import { GameExistence } from "./models/game-existence.enum";
+import { GameType } from "./models/game-type.enum";
+import { GameVerificationState } from "./models/game-verification-state.enum";
+import { IndexJobTrigger } from "./models/index-job-trigger.enum";
+import { IndexPhase } from "./models/index-phase.enum";
+import { TarArchive } from "./tar-archive";
+import { TrashService } from "./trash.service";
 
 // We need to mock configuration before importing the service
 jest.mock("../../configuration", () => ({
   __esModule: true,
   default: {
     TESTING: { MOCK_FILES: true },
+    METADATA: { TTL_IN_DAYS: 30 },
     VOLUMES: { FILES: "/tmp/test-files" },
     GAMES: {
       SUPPORTED_FILE_FORMATS: [".zip", ".7z", ".rar", ".tar", ".gz", ".exe"],
@@ -21,8 +38,42 @@ jest.mock("../../configuration", () => ({
       INDEX_INTERVAL_IN_MINUTES: 0,
       INDEX_USE_POLLING: false,
       INDEX_CONCURRENCY: 1,
+      DELETION_GRACE_PERIOD_IN_MINUTES: 60,
+      DELETION_THRESHOLD_PERCENTAGE: 50,
+      RENAME_TEMPLATE:
+        "{title} ({release_year}) ({version}) ({type_short}).{ext}",
       DEFAULT_ARCHIVE_PASSWORD: "",
       MAX_UPLOAD_SIZE: 1073741824,
+      HASHING_ENABLED: true,
+      FOLDER_GAMES_MARKER_FILE: ".gamevault-game",
+      FOLDER_GAMES_NAME_PATTERN: "",
+      PARSING_PROFILES: [],
+      LIBRARIES: [
+        {
+          name: "default",
+          path: "/tmp/test-files",
+          search_recursive: false,
+          use_polling: false,
+          supported_file_formats: [
+            ".zip",
+            ".7z",
+            ".rar",
+            ".tar",
+            ".gz",
+            ".exe",
+          ],
+          read_only: false,
+        },
+        {
+          name: "archive",
+          path: "/tmp/test-files/archive",
+          search_recursive: true,
+          use_polling: true,
+          supported_file_formats: [".zip"],
+          read_only: true,
+          default_type: "W_S",
+        },
+      ],
     },
     SERVER: { MAX_DOWNLOAD_BANDWIDTH_IN_KBPS: 0 },
   },
@@ -32,6 +83,8 @@ jest.mock("../../globals", () => ({
   __esModule: true,
   default: {
     ARCHIVE_FORMATS: [".zip", ".7z", ".rar", ".tar", ".gz"],
+    EXECUTABLE_FORMATS: [".exe", ".sh", ".appimage"],
+    INTERNAL_DIRECTORY_NAME: ".gamevault",
   },
 }));
 
@@ -43,23 +96,39 @@ jest.mock("fs-extra", () => ({
   access: jest.fn(),
   constants: { W_OK: 2 },
   createReadStream: jest.fn(),
+  move: jest.fn(),
   pathExists: jest.fn(),
+  readdir: jest.fn(),
+  readFileSync: jest.fn(),
+  remove: jest.fn(),
   rm: jest.fn(),
   stat: jest.fn(),
-  writeFile: jest.fn(),
+}));
+
+jest.mock("mime", () => ({
+  __esModule: true,
+  default: { getType: jest.fn(() => "application/octet-stream") },
 }));
 
 describe("FilesService", () => {
   let service: FilesService;
   let gamesService: jest.Mocked<GamesService>;
   let metadataService: jest.Mocked<MetadataService>;
-  let schedulerRegistry: jest.Mocked<SchedulerRegistry>;
+  let fileHashingService: jest.Mocked<FileHashingService>;
+  let indexJobsService: jest.Mocked<IndexJobsService>;
+  let fileStatesService: jest.Mocked<FileStatesService>;
+  let statusService: jest.Mocked<StatusService>;
+  let trashService: jest.Mocked<TrashService>;
   let fsExtra: {
     access: jest.Mock;
+    createReadStream: jest.Mock;
+    move: jest.Mock;
     pathExists: jest.Mock;
+    readdir: jest.Mock;
+    readFileSync: jest.Mock;
+    remove: jest.Mock;
     rm: jest.Mock;
     stat: jest.Mock;
-    writeFile: jest.Mock;
   };
 
   beforeEach(() => {
@@ -73,29 +142,73 @@ describe("FilesService", () => {
       find: jest.fn(),
       delete: jest.fn(),
       restore: jest.fn(),
+      findHashedBySize: jest.fn(),
+      updateLibrary: jest.fn(),
+      updateMissingSince: jest.fn(),
+      updateFilePath: jest.fn(async (_id, _path, moveFile) => moveFile()),
+      findMissing: jest.fn(),
+      findVersions: jest.fn(async (id) => [{ id }]),
+      compareVersions: jest.fn((a, b) =>
+        GamesService.prototype.compareVersions(a, b),
+      ),
+      removeVersion: jest.fn(),
+      linkAddon: jest.fn(),
+      findArchivePassword: jest.fn().mockResolvedValue(null),
     } as any;
 
     metadataService = {
       addUpdateMetadataJob: jest.fn(),
+      updateFileMetadata: jest.fn().mockResolvedValue(true),
+      updateSidecarMetadata: jest.fn(),
+    } as any;
+
+    fileHashingService = {
+      addHashJob: jest.fn(),
+      calculateHash: jest.fn(),
+    } as any;
+
+    indexJobsService = {
+      findLastFullIndexJob: jest.fn(),
+      start: jest.fn(),
+      addError: jest.fn(),
+      finish: jest.fn(),
+      reportProgress: jest.fn(),
+      resetProgress: jest.fn(),
+    } as any;
+
+    fileStatesService = {
+      findChanged: jest.fn(),
+      save: jest.fn(),
+    } as any;
+
+    statusService = {
+      get: jest.fn().mockReturnValue({ status: StatusEnum.HEALTHY }),
+      set: jest.fn(),
     } as any;
 
-    schedulerRegistry = {
-      getTimeouts: jest.fn().mockReturnValue([]),
-      addTimeout: jest.fn(),
-      deleteTimeout: jest.fn(),
+    trashService = {
+      trash: jest.fn(),
     } as any;
 
     service = new FilesService(
       gamesService,
       metadataService,
-      schedulerRegistry,
+      fileHashingService,
+      indexJobsService,
+      fileStatesService,
+      statusService,
+      trashService,
     );
 
     fsExtra.access.mockResolvedValue(undefined);
+    fsExtra.move.mockResolvedValue(undefined);
     fsExtra.pathExists.mockResolvedValue(false);
+    fsExtra.remove.mockResolvedValue(undefined);
     fsExtra.rm.mockResolvedValue(undefined);
     fsExtra.stat.mockResolvedValue({ size: 1000 });
-    fsExtra.writeFile.mockResolvedValue(undefined);
+    fsExtra.readFileSync.mockImplementation(() => {
+      throw Object.assign(new Error("Not found"), { code: "ENOENT" });
+    });
 
     jest.spyOn(service as any, "index").mockResolvedValue(undefined);
   });
@@ -105,7 +218,7 @@ describe("FilesService", () => {
       await expect(
         service.upload({
           originalname: "///",
-          buffer: Buffer.from("test"),
+          path: "/tmp/test-files/.gamevault/uploads/abc",
           size: 4,
         } as any),
       ).rejects.toThrow(BadRequestException);
@@ -115,7 +228,7 @@ describe("FilesService", () => {
       await expect(
         service.upload({
           originalname: "game.txt",
-          buffer: Buffer.from("test"),
+          path: "/tmp/test-files/.gamevault/uploads/abc",
           size: 4,
         } as any),
       ).rejects.toThrow(BadRequestException);
@@ -127,7 +240,7 @@ describe("FilesService", () => {
       await expect(
         service.upload({
           originalname: "game.zip",
-          buffer: Buffer.from("test"),
+          path: "/tmp/test-files/.gamevault/uploads/abc",
           size: 4,
         } as any),
       ).rejects.toThrow(BadRequestException);
@@ -139,7 +252,7 @@ describe("FilesService", () => {
       await expect(
         service.upload({
           originalname: "game.zip",
-          buffer: Buffer.from("test"),
+          path: "/tmp/test-files/.gamevault/uploads/abc",
           size: 4,
         } as any),
       ).rejects.toThrow(BadRequestException);
@@ -148,7 +261,7 @@ describe("FilesService", () => {
     it("should persist uploaded file and trigger indexing", async () => {
       const result = await service.upload({
         originalname: "My Game.zip",
-        buffer: Buffer.from("payload"),
+        path: "/tmp/test-files/.gamevault/uploads/abc",
         size: 7,
       } as any);
 
@@ -156,9 +269,9 @@ describe("FilesService", () => {
         "/tmp/test-files",
         constants.W_OK,
       );
-      expect(fsExtra.writeFile).toHaveBeenCalledWith(
+      expect(fsExtra.move).toHaveBeenCalledWith(
+        "/tmp/test-files/.gamevault/uploads/abc",
         "/tmp/test-files/My Game.zip",
-        expect.any(Buffer),
       );
       expect((service as any).index).toHaveBeenCalledWith(
         "/tmp/test-files/My Game.zip",
@@ -166,6 +279,1435 @@ describe("FilesService", () => {
       );
       expect(result).toEqual({ path: "/tmp/test-files/My Game.zip" });
     });
+
+    it("should skip watcher events of files while they are imported", async () => {
+      // The watcher reports the moved file while the import indexes it
+      (service as any).index.mockImplementation(async (path: string) => {
+        await (service as any).handleFileEvent(path, { size: 1000 });
+      });
+
+      await service.importFile(
+        "/tmp/test-files/_incoming/My Game.zip",
+        "My Game.zip",
+      );
+      expect((service as any).index).toHaveBeenCalledTimes(1);
+
+      (service as any).index.mockResolvedValue(undefined);
+      await (service as any).handleFileEvent("/tmp/test-files/My Game.zip", {
+        size: 1000,
+      });
+      expect((service as any).index).toHaveBeenCalledTimes(2);
+    });
+
+    it("should remove the staged file when the upload is rejected", async () => {
+      await expect(
+        service.upload({
+          originalname: "game.txt",
+          path: "/tmp/test-files/.gamevault/uploads/abc",
+          size: 4,
+        } as any),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(fsExtra.remove).toHaveBeenCalledWith(
+        "/tmp/test-files/.gamevault/uploads/abc",
+      );
+    });
+  });
+
+  describe("index", () => {
+    beforeEach(() => {
+      (service as any).index.mockRestore();
+      jest
+        .spyOn(service as any, "detectType")
+        .mockResolvedValue(GameType.WINDOWS_PORTABLE);
+      jest
+        .spyOn(service as any, "updateFileInfo")
+        .mockImplementation(async (id) => ({ id, file_hash: "abc" }));
+      gamesService.checkIfExistsInDatabase.mockResolvedValue([
+        GameExistence.DOES_NOT_EXIST,
+        undefined,
+      ]);
+      gamesService.save.mockImplementation(async (game) =>
+        Object.assign(game, { id: 42 }),
+      );
+      gamesService.findHashedBySize.mockResolvedValue([]);
+    });
+
+    it("should enqueue a hash job for new games", async () => {
+      await (service as any).index(
+        "/tmp/test-files/New Game.zip",
+        { size: 1000 },
+        true,
+      );
+
+      expect(fileHashingService.calculateHash).not.toHaveBeenCalled();
+      expect(gamesService.save).toHaveBeenCalled();
+      expect(fileHashingService.addHashJob).toHaveBeenCalledWith(42);
+    });
+
+    it("should count the outcome and record failures in the index job", async () => {
+      const job = { id: 3, added: 0, updated: 0, restored: 0 } as any;
+
+      await (service as any).index(
+        "/tmp/test-files/New Game.zip",
+        { size: 1000 },
+        true,
+        job,
+      );
+      const error = new Error("Can't open as archive");
+      gamesService.checkIfExistsInDatabase.mockRejectedValueOnce(error);
+      await (service as any).index(
+        "/tmp/test-files/Broken Game.zip",
+        { size: 1000 },
+        true,
+        job,
+      );
+
+      expect(job.added).toBe(1);
+      expect(indexJobsService.addError).toHaveBeenCalledWith(
+        job,
+        "/tmp/test-files/Broken Game.zip",
+        error,
+      );
+    });
+
+    it("should store suggested executables and dependencies as file metadata", async () => {
+      jest
+        .spyOn(service as any, "findExecutables")
+        .mockResolvedValue([
+          "New Game/NewGame.exe",
+          "New Game/unins000.exe",
+          "New Game/_CommonRedist/DirectX/DXSETUP.exe",
+        ]);
+
+      await (service as any).index(
+        "/tmp/test-files/New Game.zip",
+        { size: 1000 },
+        true,
+      );
+
+      expect(metadataService.updateFileMetadata).toHaveBeenCalledWith(
+        42,
+        {
+          launch_executable: "New Game/NewGame.exe",
+          installer_executable: null,
+          uninstaller_executable: "New Game/unins000.exe",
+          dependencies: [
+            {
+              id: "directx-june-2010",
+              name: "DirectX End-User Runtime (June 2010)",
+              installer: "New Game/_CommonRedist/DirectX/DXSETUP.exe",
+            },
+          ],
+        },
+        false,
+      );
+      expect(
+        metadataService.updateFileMetadata.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        metadataService.addUpdateMetadataJob.mock.invocationCallOrder[0],
+      );
+    });
+
+    it("should leave merging changed file metadata to the metadata job", async () => {
+      await (service as any).index(
+        "/tmp/test-files/New Game.zip",
+        { size: 1000 },
+        true,
+      );
+      expect(metadataService.addUpdateMetadataJob).toHaveBeenCalledWith(
+        42,
+        true,
+      );
+
+      metadataService.updateFileMetadata.mockResolvedValue(false);
+      await (service as any).index(
+        "/tmp/test-files/New Game.zip",
+        { size: 1000 },
+        true,
+      );
+      expect(metadataService.addUpdateMetadataJob).toHaveBeenLastCalledWith(
+        42,
+        false,
+      );
+    });
+
+    it("should apply the sidecar file before updating the metadata", async () => {
+      await (service as any).index(
+        "/tmp/test-files/New Game.zip",
+        { size: 1000 },
+        true,
+      );
+
+      expect(fsExtra.pathExists).toHaveBeenCalledWith(
+        "/tmp/test-files/New Game.gamevault.yaml",
+      );
+      expect(metadataService.updateSidecarMetadata).toHaveBeenCalledWith(
+        42,
+        undefined,
+      );
+      expect(
+        metadataService.updateSidecarMetadata.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        metadataService.addUpdateMetadataJob.mock.invocationCallOrder[0],
+      );
+    });
+
+    it("should mark add-ons by their filename and link them to their base game", async () => {
+      await (service as any).index(
+        "/tmp/test-files/New Game - Season Pass (DLC).zip",
+        { size: 1000 },
+        true,
+      );
+
+      expect(gamesService.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: "New Game - Season Pass",
+          addon_type: GameAddonType.DLC,
+        }),
+      );
+      expect(gamesService.linkAddon).toHaveBeenCalledWith(
+        42,
+        undefined,
+        undefined,
+      );
+    });
+
+    it("should re-link a moved game with identical content", async () => {
+      gamesService.findHashedBySize.mockResolvedValue([
+        {
+          id: 7,
+          file_path: "/tmp/test-files/Old Name.zip",
+          file_hash: "abc",
+        } as any,
+      ]);
+      fileHashingService.calculateHash.mockResolvedValue("abc");
+
+      await (service as any).index(
+        "/tmp/test-files/New Name.zip",
+        { size: 1000 },
+        true,
+      );
+
+      expect(gamesService.save).not.toHaveBeenCalled();
+      expect((service as any).updateFileInfo).toHaveBeenCalledWith(
+        7,
+        expect.objectContaining({
+          file_path: "/tmp/test-files/New Name.zip",
+          file_hash: "abc",
+        }),
+      );
+      expect(metadataService.addUpdateMetadataJob).toHaveBeenCalledWith(
+        7,
+        true,
+      );
+    });
+
+    it("should restore a soft-deleted game with identical content", async () => {
+      gamesService.findHashedBySize.mockResolvedValue([
+        {
+          id: 7,
+          file_path: "/tmp/test-files/Old Name.zip",
+          file_hash: "abc",
+          deleted_at: new Date(),
+        } as any,
+      ]);
+      fileHashingService.calculateHash.mockResolvedValue("abc");
+
+      await (service as any).index(
+        "/tmp/test-files/New Name.zip",
+        { size: 1000 },
+        true,
+      );
+
+      expect(gamesService.restore).toHaveBeenCalledWith(7);
+      expect(gamesService.save).not.toHaveBeenCalled();
+    });
+
+    it("should not re-link games whose file still exists", async () => {
+      gamesService.findHashedBySize.mockResolvedValue([
+        {
+          id: 7,
+          file_path: "/tmp/test-files/Copy.zip",
+          file_hash: "abc",
+        } as any,
+      ]);
+      fsExtra.pathExists.mockImplementation(
+        async (path) => path === "/tmp/test-files/Copy.zip",
+      );
+
+      await (service as any).index(
+        "/tmp/test-files/New Name.zip",
+        { size: 1000 },
+        true,
+      );
+
+      expect(fileHashingService.calculateHash).not.toHaveBeenCalled();
+      expect(gamesService.save).toHaveBeenCalled();
+    });
+
+    it("should index a new game when the content differs", async () => {
+      gamesService.findHashedBySize.mockResolvedValue([
+        {
+          id: 7,
+          file_path: "/tmp/test-files/Old Name.zip",
+          file_hash: "abc",
+        } as any,
+      ]);
+      fileHashingService.calculateHash.mockResolvedValue("def");
+
+      await (service as any).index(
+        "/tmp/test-files/New Name.zip",
+        { size: 1000 },
+        true,
+      );
+
+      expect(gamesService.save).toHaveBeenCalledWith(
+        expect.objectContaining({ file_hash: "def" }),
+      );
+      expect(fileHashingService.addHashJob).not.toHaveBeenCalled();
+    });
+
+    describe("versions", () => {
+      const game = {
+        id: 7,
+        file_path: "/tmp/test-files/Game (v1.1).zip",
+        title: "Game",
+        version: "v1.1",
+        size: 900n,
+        file_hash: "abc",
+        type: GameType.WINDOWS_PORTABLE,
+      } as any;
+
+      beforeEach(() => {
+        gamesService.checkIfExistsInDatabase.mockResolvedValue([
+          GameExistence.EXISTS_BUT_ALTERED,
+          game,
+        ]);
+        gamesService.findOneByGameIdOrFail.mockResolvedValue(game);
+        fsExtra.pathExists.mockImplementation(
+          async (path) => path === game.file_path,
+        );
+      });
+
+      it("should keep the file of a game as previous version when a newer version arrives", async () => {
+        await (service as any).index(
+          "/tmp/test-files/Game (v1.10).zip",
+          { size: 1000 },
+          true,
+        );
+
+        expect((service as any).updateFileInfo).toHaveBeenCalledWith(
+          7,
+          expect.objectContaining({
+            file_path: "/tmp/test-files/Game (v1.10).zip",
+            version: "v1.10",
+          }),
+        );
+        expect(gamesService.save).toHaveBeenCalledWith(
+          expect.objectContaining({
+            file_path: game.file_path,
+            version: "v1.1",
+            file_hash: "abc",
+            version_of: { id: 7 },
+          }),
+        );
+        expect(metadataService.addUpdateMetadataJob).toHaveBeenCalledWith(
+          7,
+          true,
+        );
+      });
+
+      it("should add older versions as previous versions of a game", async () => {
+        await (service as any).index(
+          "/tmp/test-files/Game (v1.0).zip",
+          { size: 1000 },
+          true,
+        );
+
+        expect((service as any).updateFileInfo).not.toHaveBeenCalled();
+        expect(gamesService.save).toHaveBeenCalledWith(
+          expect.objectContaining({
+            file_path: "/tmp/test-files/Game (v1.0).zip",
+            version_of: { id: 7 },
+          }),
+        );
+        expect(fileHashingService.addHashJob).toHaveBeenCalledWith(42);
+        expect(metadataService.addUpdateMetadataJob).not.toHaveBeenCalled();
+      });
+
+      it("should update the game when its file was renamed to another version", async () => {
+        fsExtra.pathExists.mockResolvedValue(false);
+
+        await (service as any).index(
+          "/tmp/test-files/Game (v1.2).zip",
+          { size: 1000 },
+          true,
+        );
+
+        expect((service as any).updateFileInfo).toHaveBeenCalledWith(
+          7,
+          expect.objectContaining({ version: "v1.2" }),
+        );
+        expect(gamesService.save).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe("indexAllFiles", () => {
+    const files = [
+      { path: "/tmp/test-files/A.zip", size: BigInt(10) },
+      { path: "/tmp/test-files/B.zip", size: BigInt(20) },
+    ];
+    let job: any;
+
+    beforeEach(() => {
+      job = { id: 5, files_seen: 0 };
+      service.markInitialIndexComplete();
+      (service as any).index.mockResolvedValue(true);
+      indexJobsService.start.mockImplementation(async (_, incremental) =>
+        Object.assign(job, { incremental }),
+      );
+      indexJobsService.finish.mockImplementation(async (finished) => finished);
+      jest.spyOn(service as any, "readAllFiles").mockResolvedValue(files);
+      jest.spyOn(service as any, "checkIntegrity").mockResolvedValue([]);
+    });
+
+    it("should record the index run as index job", async () => {
+      const result = await service.indexAllFiles(IndexJobTrigger.MANUAL);
+
+      expect(indexJobsService.start).toHaveBeenCalledWith(
+        IndexJobTrigger.MANUAL,
+        false,
+      );
+      expect(job.files_seen).toBe(2);
+      expect((service as any).index).toHaveBeenCalledWith(
+        "/tmp/test-files/A.zip",
+        { size: 10 },
+        true,
+        job,
+      );
+      expect(fileStatesService.save).toHaveBeenCalledWith(files, files);
+      expect((service as any).checkIntegrity).toHaveBeenCalledWith(files, job);
+      expect(indexJobsService.finish).toHaveBeenCalledWith(job);
+      expect(result).toBe(job);
+    });
+
+    it("should only index changed files and files without game in incremental runs", async () => {
+      indexJobsService.findLastFullIndexJob.mockResolvedValue({
+        started_at: new Date(),
+      } as any);
+      fileStatesService.findChanged.mockResolvedValue([]);
+      gamesService.find.mockResolvedValue([
+        { file_path: "/tmp/test-files/A.zip" },
+      ] as any);
+      (service as any).index.mockResolvedValue(false);
+
+      await service.indexAllFiles();
+
+      expect(indexJobsService.start).toHaveBeenCalledWith(
+        IndexJobTrigger.SCHEDULED,
+        true,
+      );
+      expect(fileStatesService.findChanged).toHaveBeenCalledWith(files);
+      expect((service as any).index).toHaveBeenCalledTimes(1);
+      expect((service as any).index).toHaveBeenCalledWith(
+        "/tmp/test-files/B.zip",
+        { size: 20 },
+        true,
+        job,
+      );
+      expect(job.skipped).toBe(1);
+      expect(fileStatesService.save).toHaveBeenCalledWith([], files);
+      expect((service as any).checkIntegrity).toHaveBeenCalledWith(files, job);
+    });
+
+    it("should index all files once the last full run is older than the metadata TTL", async () => {
+      indexJobsService.findLastFullIndexJob.mockResolvedValue({
+        started_at: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000),
+      } as any);
+
+      await service.indexAllFiles(IndexJobTrigger.STARTUP);
+
+      expect(indexJobsService.start).toHaveBeenCalledWith(
+        IndexJobTrigger.STARTUP,
+        false,
+      );
+      expect(fileStatesService.findChanged).not.toHaveBeenCalled();
+      expect((service as any).index).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report the progress of the index run", async () => {
+      await service.indexAllFiles();
+
+      expect(indexJobsService.reportProgress).toHaveBeenCalledWith({
+        phase: IndexPhase.INDEXING,
+        total: 2,
+      });
+      expect(indexJobsService.reportProgress).toHaveBeenCalledWith({
+        current_file: "/tmp/test-files/B.zip",
+      });
+      expect(indexJobsService.reportProgress).toHaveBeenCalledWith({
+        processed: 2,
+      });
+      expect(indexJobsService.reportProgress).toHaveBeenCalledWith({
+        phase: IndexPhase.INTEGRITY_CHECK,
+        current_file: undefined,
+      });
+      expect(indexJobsService.resetProgress).toHaveBeenCalled();
+    });
+
+    it("should record index runs that failed", async () => {
+      const error = new Error("Database unavailable");
+      (service as any).checkIntegrity.mockRejectedValue(error);
+
+      await expect(service.indexAllFiles()).rejects.toThrow(error);
+
+      expect(indexJobsService.start).toHaveBeenCalledWith(
+        IndexJobTrigger.SCHEDULED,
+        false,
+      );
+      expect(indexJobsService.finish).toHaveBeenCalledWith(job, error);
+    });
+  });
+
+  describe("libraries", () => {
+    beforeEach(() => {
+      (service as any).index.mockRestore();
+      gamesService.checkIfExistsInDatabase.mockResolvedValue([
+        GameExistence.DOES_NOT_EXIST,
+        undefined,
+      ]);
+      gamesService.findHashedBySize.mockResolvedValue([]);
+      gamesService.save.mockImplementation(async (game) => game);
+    });
+
+    it("should store the library of a game and fall back to its default type", async () => {
+      jest
+        .spyOn(service as any, "detectType")
+        .mockResolvedValue(GameType.UNDETECTABLE);
+
+      await (service as any).index(
+        "/tmp/test-files/archive/Old Game.zip",
+        { size: 1000 },
+        true,
+      );
+
+      expect(gamesService.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          library: "archive",
+          type: GameType.WINDOWS_SETUP,
+        }),
+      );
+    });
+
+    it("should only index the formats supported by a library", async () => {
+      await (service as any).index(
+        "/tmp/test-files/archive/Old Game.7z",
+        { size: 1000 },
+        true,
+      );
+      expect(gamesService.save).not.toHaveBeenCalled();
+    });
+
+    it("should set the library of games indexed before", async () => {
+      gamesService.checkIfExistsInDatabase.mockResolvedValue([
+        GameExistence.EXISTS,
+        { id: 7, library: null, file_hash: "abc" } as any,
+      ]);
+
+      await (service as any).index(
+        "/tmp/test-files/Some Game.zip",
+        { size: 1000 },
+        true,
+      );
+
+      expect(gamesService.updateLibrary).toHaveBeenCalledWith(7, "default");
+    });
+  });
+
+  describe("sidecar files", () => {
+    it("should re-index the game of a changed sidecar file", async () => {
+      fsExtra.readdir.mockResolvedValue([
+        "Game (2020).gamevault.yaml",
+        "Game (2020).zip",
+        "Other Game.zip",
+      ]);
+
+      await (service as any).handleFileEvent(
+        "/tmp/test-files/Game (2020).gamevault.yaml",
+      );
+
+      expect((service as any).index).toHaveBeenCalledWith(
+        "/tmp/test-files/Game (2020).zip",
+        { size: 1000 },
+      );
+    });
+
+    it("should not fail if the game of a sidecar file disappeared", async () => {
+      fsExtra.readdir.mockResolvedValue([
+        "Game (2020).gamevault.yaml",
+        "Game (2020).zip",
+      ]);
+      fsExtra.stat.mockRejectedValue(
+        Object.assign(new Error("Not found"), { code: "ENOENT" }),
+      );
+
+      await expect(
+        (service as any).handleFileEvent(
+          "/tmp/test-files/Game (2020).gamevault.yaml",
+        ),
+      ).resolves.not.toThrow();
+      expect((service as any).index).toHaveBeenCalledWith(
+        "/tmp/test-files/Game (2020).zip",
+        undefined,
+      );
+    });
+  });
+
+  describe("ignore files", () => {
+    beforeEach(() => {
+      fsExtra.readFileSync.mockImplementation((filePath: string) => {
+        switch (filePath) {
+          case "/tmp/test-files/.gamevaultignore":
+            return "*.part\n_incoming/\n*/Extras/*\n";
+          case "/tmp/test-files/Collection/.gamevaultignore":
+            return "!*.part\n";
+          default:
+            throw Object.assign(new Error("Not found"), { code: "ENOENT" });
+        }
+      });
+    });
+
+    it("should ignore paths matching the rules of ignore files", () => {
+      const isIgnored = (filePath: string, isDirectory = false) =>
+        (service as any).isIgnored(filePath, isDirectory);
+
+      expect(isIgnored("/tmp/test-files/Game.zip.part")).toBe(true);
+      expect(isIgnored("/tmp/test-files/_incoming", true)).toBe(true);
+      expect(isIgnored("/tmp/test-files/_incoming/Game.zip")).toBe(true);
+      expect(isIgnored("/tmp/test-files/Game/Extras/Soundtrack.zip")).toBe(
+        true,
+      );
+      expect(isIgnored("/tmp/test-files/Game/Game.zip")).toBe(false);
+      expect(isIgnored("/tmp/test-files/Collection/Game.zip.part")).toBe(false);
+    });
+
+    it("should not index ignored files", async () => {
+      (service as any).index.mockRestore();
+
+      await (service as any).index(
+        "/tmp/test-files/_incoming/Game.zip",
+        { size: 1000 },
+        true,
+      );
+
+      expect(gamesService.checkIfExistsInDatabase).not.toHaveBeenCalled();
+      expect(gamesService.save).not.toHaveBeenCalled();
+    });
+
+    describe("changes", () => {
+      let readAllFiles: jest.SpyInstance;
+      let runDebouncedIntegrityCheck: jest.Mock;
+
+      beforeEach(() => {
+        jest.spyOn(service as any, "isFolderGame").mockResolvedValue(false);
+        readAllFiles = jest
+          .spyOn(service as any, "readAllFiles")
+          .mockResolvedValue([
+            { path: "/tmp/test-files/Collection/Old Game.zip", size: 1000n },
+            { path: "/tmp/test-files/Collection/New Game.zip", size: 2000n },
+          ]);
+        gamesService.find.mockResolvedValue([
+          { file_path: "/tmp/test-files/Collection/Old Game.zip" },
+          { file_path: "/tmp/test-files/Other Game.zip" },
+        ] as any);
+        runDebouncedIntegrityCheck = jest.fn();
+        (service as any).runDebouncedIntegrityCheck =
+          runDebouncedIntegrityCheck;
+      });
+
+      it("should only re-index the directory of a changed ignore file", async () => {
+        const indexAllFiles = jest.spyOn(service, "indexAllFiles");
+        expect(
+          (service as any).isIgnored("/tmp/test-files/Game.zip.part"),
+        ).toBe(true);
+        fsExtra.readFileSync.mockReturnValue("");
+
+        await (service as any).handleFileEvent(
+          "/tmp/test-files/Collection/.gamevaultignore",
+        );
+
+        expect(readAllFiles).toHaveBeenCalledWith(
+          [expect.objectContaining({ path: "/tmp/test-files" })],
+          "/tmp/test-files/Collection",
+        );
+        expect((service as any).index).toHaveBeenCalledTimes(1);
+        expect((service as any).index).toHaveBeenCalledWith(
+          "/tmp/test-files/Collection/New Game.zip",
+          { size: 2000 },
+          true,
+        );
+        expect(runDebouncedIntegrityCheck).not.toHaveBeenCalled();
+        expect(indexAllFiles).not.toHaveBeenCalled();
+        expect(
+          (service as any).isIgnored("/tmp/test-files/Game.zip.part"),
+        ).toBe(false);
+      });
+
+      it("should check the integrity if games of the directory are ignored now", async () => {
+        readAllFiles.mockResolvedValue([]);
+
+        await (service as any).handleFileEvent(
+          "/tmp/test-files/Collection/.gamevaultignore",
+        );
+
+        expect(runDebouncedIntegrityCheck).toHaveBeenCalled();
+        expect((service as any).index).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe("parseFilename", () => {
+    beforeEach(() => {
+      (service as any).parsingProfiles = [
+        {
+          name: "scene",
+          regex: /^(?<title>[\w.]+?)\.(?<version>v\d[\d.]*)-\w+$/i,
+        },
+        {
+          name: "tagged",
+          regex:
+            /^\[(?<type>\w+)\] (?<title>.+?)(?: - (?<edition>.+ Edition))?$/i,
+        },
+      ];
+    });
+
+    it("should parse filenames with the first matching profile", () => {
+      expect(service.parseFilename("Some.Game.v1.2.3-GROUP.zip")).toEqual({
+        profile: "scene",
+        title: "Some Game",
+        version: "v1.2.3",
+        release_date: undefined,
+        early_access: false,
+        edition: undefined,
+        type: undefined,
+      });
+      expect(
+        service.parseFilename(
+          "/tmp/test-files/[W_P] Other Game - Deluxe Edition.7z",
+        ),
+      ).toEqual(
+        expect.objectContaining({
+          profile: "tagged",
+          title: "Other Game",
+          edition: "Deluxe Edition",
+          type: GameType.WINDOWS_PORTABLE,
+        }),
+      );
+    });
+
+    it("should parse consecutive filenames with the same profile", () => {
+      expect(service.parseFilename("First.Game.v1.0-GROUP.zip")).toEqual(
+        expect.objectContaining({ profile: "scene", title: "First Game" }),
+      );
+      expect(service.parseFilename("Second.Game.v2.0-GROUP.zip")).toEqual(
+        expect.objectContaining({ profile: "scene", title: "Second Game" }),
+      );
+    });
+
+    it("should fall back to the built-in naming convention", () => {
+      expect(
+        service.parseFilename("Hollow Knight (v1.5) (2017) (EA) (W_S).zip"),
+      ).toEqual({
+        title: "Hollow Knight",
+        version: "v1.5",
+        release_date: new Date("2017"),
+        early_access: true,
+        type: GameType.WINDOWS_SETUP,
+      });
+    });
+
+    it("should parse add-on tags", () => {
+      expect(
+        service.parseFilename("Some Game - Season Pass (2020) (DLC).zip")
+          .addon_type,
+      ).toBe(GameAddonType.DLC);
+      expect(
+        service.parseFilename("Some Game (v1.1) (Patch).zip").addon_type,
+      ).toBe(GameAddonType.PATCH);
+      expect(service.parseFilename("Some Game (OST).zip").addon_type).toBe(
+        GameAddonType.SOUNDTRACK,
+      );
+      expect(service.parseFilename("Some Game.zip").addon_type).toBeUndefined();
+    });
+
+    it("should use the type captured by a profile when detecting the type", async () => {
+      await expect(
+        (service as any).detectType(
+          "/tmp/test-files/[linux_software] Tool.zip",
+        ),
+      ).resolves.toBe(GameType.LINUX_SOFTWARE);
+    });
+
+    it("should store the parsed edition when indexing", async () => {
+      (service as any).index.mockRestore();
+      jest
+        .spyOn(service as any, "detectType")
+        .mockResolvedValue(GameType.WINDOWS_PORTABLE);
+      gamesService.checkIfExistsInDatabase.mockResolvedValue([
+        GameExistence.DOES_NOT_EXIST,
+        undefined,
+      ]);
+      gamesService.findHashedBySize.mockResolvedValue([]);
+      gamesService.save.mockImplementation(async (game) => game);
+
+      await (service as any).index(
+        "/tmp/test-files/[W_P] Other Game - Deluxe Edition.zip",
+        { size: 1000 },
+        true,
+      );
+
+      expect(gamesService.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: "Other Game",
+          edition: "Deluxe Edition",
+        }),
+      );
+    });
+  });
+
+  describe("suggestExecutables", () => {
+    const suggest = (
+      executables: string[],
+      type: GameType,
+      title = "Hollow Knight",
+    ) => (service as any).suggestExecutables(executables, title, type);
+
+    it("should prefer executables named like the game over other executables", () => {
+      expect(
+        suggest(
+          [
+            "Hollow Knight/UnityCrashHandler64.exe",
+            "Hollow Knight/Config Tool.exe",
+            "Hollow Knight/hollow_knight.exe",
+            "Hollow Knight/_CommonRedist/vcredist_x64.exe",
+            "Hollow Knight/unins000.exe",
+          ],
+          GameType.WINDOWS_PORTABLE,
+        ),
+      ).toEqual({
+        launch_executable: "Hollow Knight/hollow_knight.exe",
+        installer_executable: null,
+        uninstaller_executable: "Hollow Knight/unins000.exe",
+      });
+    });
+
+    it("should prefer shallow executables", () => {
+      expect(
+        suggest(
+          [
+            "HollowKnight/Binaries/Win64/HollowKnight-Win64-Shipping.exe",
+            "HollowKnight.exe",
+            "Engine/Extras/Redist/en-us/UE4PrereqSetup_x64.exe",
+          ],
+          GameType.WINDOWS_PORTABLE,
+        ).launch_executable,
+      ).toBe("HollowKnight.exe");
+    });
+
+    it("should suggest installers but no launch executable for setups", () => {
+      expect(
+        suggest(
+          [
+            "redist/DirectX/DXSETUP.exe",
+            "EasyAntiCheat/EasyAntiCheat_Setup.exe",
+            "setup.exe",
+            "setup-hollow-knight-1.5.exe",
+          ],
+          GameType.WINDOWS_SETUP,
+        ),
+      ).toEqual({
+        launch_executable: null,
+        installer_executable: "setup.exe",
+        uninstaller_executable: null,
+      });
+    });
+
+    it("should suggest single file setups as their own installer", () => {
+      expect(
+        suggest(["Hollow Knight (2017).exe"], GameType.WINDOWS_SETUP)
+          .installer_executable,
+      ).toBe("Hollow Knight (2017).exe");
+    });
+
+    it("should only suggest shell scripts and AppImages for linux games", () => {
+      expect(
+        suggest(
+          ["hollow_knight.exe", "uninstall.sh", "start.sh"],
+          GameType.LINUX_PORTABLE,
+        ),
+      ).toEqual({
+        launch_executable: "start.sh",
+        installer_executable: null,
+        uninstaller_executable: null,
+      });
+    });
+
+    it("should not suggest anything for undetectable games", () => {
+      expect(suggest(["hollow_knight.exe"], GameType.UNDETECTABLE)).toEqual({
+        launch_executable: null,
+        installer_executable: null,
+        uninstaller_executable: null,
+      });
+    });
+  });
+
+  describe("detectDependencies", () => {
+    const detect = (executables: string[]) =>
+      (service as any).detectDependencies(executables);
+
+    it("should detect known redistributables once with their shallowest installer", () => {
+      expect(
+        detect([
+          "Hollow Knight/hollow_knight.exe",
+          "Hollow Knight/_CommonRedist/vcredist/2019/VC_redist.x64.exe",
+          "_CommonRedist/vcredist/2022/VC_redist.x64.exe",
+          "_CommonRedist\\vcredist\\2010\\vcredist_x86.exe",
+          "_CommonRedist/DirectX/Jun2010/DXSETUP.exe",
+          "_CommonRedist/DotNet/4.7.2/NDP472-KB4054530-x86-x64-AllOS-ENU.exe",
+          "redist/windowsdesktop-runtime-6.0.25-win-x64.exe",
+          "redist/xnafx40_redist.msi",
+          "redist/PhysX_9.13.0604_SystemSoftware.exe",
+          "redist/oalinst.exe",
+        ]),
+      ).toEqual([
+        {
+          id: "directx-june-2010",
+          name: "DirectX End-User Runtime (June 2010)",
+          installer: "_CommonRedist/DirectX/Jun2010/DXSETUP.exe",
+        },
+        {
+          id: "dotnet-runtime-6-x64",
+          name: "Microsoft .NET Runtime 6 (x64)",
+          architecture: "x64",
+          installer: "redist/windowsdesktop-runtime-6.0.25-win-x64.exe",
+        },
+        {
+          id: "dotnetfx-4.7.2",
+          name: "Microsoft .NET Framework 4.7.2",
+          installer:
+            "_CommonRedist/DotNet/4.7.2/NDP472-KB4054530-x86-x64-AllOS-ENU.exe",
+        },
+        {
+          id: "openal",
+          name: "OpenAL",
+          installer: "redist/oalinst.exe",
+        },
+        {
+          id: "physx",
+          name: "NVIDIA PhysX System Software",
+          installer: "redist/PhysX_9.13.0604_SystemSoftware.exe",
+        },
+        {
+          id: "vcredist-2010-x86",
+          name: "Microsoft Visual C++ 2010 Redistributable (x86)",
+          architecture: "x86",
+          installer: "_CommonRedist/vcredist/2010/vcredist_x86.exe",
+        },
+        {
+          id: "vcredist-2015-2022-x64",
+          name: "Microsoft Visual C++ 2015-2022 Redistributable (x64)",
+          architecture: "x64",
+          installer: "_CommonRedist/vcredist/2022/VC_redist.x64.exe",
+        },
+        {
+          id: "xna-4.0",
+          name: "Microsoft XNA Framework Redistributable 4.0",
+          installer: "redist/xnafx40_redist.msi",
+        },
+      ]);
+    });
+
+    it("should not take years from directories outside the redistributable", () => {
+      expect(detect(["Hollow Knight (2017)/redist/vcredist_x64.exe"])).toEqual([
+        {
+          id: "vcredist-x64",
+          name: "Microsoft Visual C++ Redistributable (x64)",
+          architecture: "x64",
+          installer: "Hollow Knight (2017)/redist/vcredist_x64.exe",
+        },
+      ]);
+    });
+
+    it("should return null for games without redistributables", () => {
+      expect(detect(["hollow_knight.exe", "setup.exe"])).toBeNull();
+    });
+  });
+
+  describe("archive passwords", () => {
+    const configuration = jest.requireMock("../../configuration").default;
+
+    beforeEach(() => {
+      configuration.TESTING.MOCK_FILES = false;
+    });
+
+    afterEach(() => {
+      configuration.TESTING.MOCK_FILES = true;
+      jest.restoreAllMocks();
+    });
+
+    it("should list archives with the archive password of the game", async () => {
+      gamesService.findArchivePassword.mockResolvedValue("Hunter2");
+      const listArchive = jest
+        .spyOn(service as any, "listArchive")
+        .mockResolvedValue([{ file: "Game/setup.exe" }]);
+
+      const executables = await (service as any).findExecutables(
+        "/tmp/test-files/Protected Game.zip",
+        false,
+      );
+
+      expect(gamesService.findArchivePassword).toHaveBeenCalledWith(
+        "/tmp/test-files/Protected Game.zip",
+      );
+      expect(listArchive).toHaveBeenCalledWith(
+        "/tmp/test-files/Protected Game.zip",
+        ["*.exe", "*.msi", "*.sh", "*.appimage"],
+        "Hunter2",
+      );
+      expect(executables).toEqual(["Game/setup.exe"]);
+    });
+
+    it("should analyze indexed games again", async () => {
+      const game = {
+        id: 42,
+        file_path: "/tmp/test-files/Protected Game.zip",
+        title: "Protected Game",
+        type: GameType.UNDETECTABLE,
+      };
+      gamesService.findOneByGameIdOrFail.mockResolvedValue({ ...game } as any);
+      gamesService.save.mockImplementation(async (saved) => saved);
+      jest
+        .spyOn(service as any, "listArchive")
+        .mockResolvedValue([{ file: "setup.exe" }]);
+
+      await service.reanalyzeFile(42);
+
+      expect(gamesService.save).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 42, type: GameType.WINDOWS_SETUP }),
+      );
+      expect(metadataService.updateFileMetadata).toHaveBeenCalledWith(
+        42,
+        expect.objectContaining({ installer_executable: "setup.exe" }),
+      );
+    });
+  });
+
+  describe("updateFileInfo", () => {
+    const verifiedGame = () =>
+      ({
+        id: 1,
+        file_path: "/tmp/test-files/Game.zip",
+        size: 1000n,
+        file_hash: "abc",
+        verification_state: GameVerificationState.PASSED,
+        verified_at: new Date(),
+      }) as any;
+
+    beforeEach(() => {
+      gamesService.findOneByGameIdOrFail.mockImplementation(async () =>
+        verifiedGame(),
+      );
+      gamesService.save.mockImplementation(async (game) => game);
+    });
+
+    it("should reset the hash and verification of changed files", async () => {
+      await (service as any).updateFileInfo(1, {
+        file_path: "/tmp/test-files/Game.zip",
+        title: "Game",
+        size: 2000n,
+      });
+
+      expect(gamesService.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          file_hash: null,
+          verification_state: null,
+          verified_at: null,
+        }),
+      );
+    });
+
+    it("should keep the hash and verification of unchanged files", async () => {
+      await (service as any).updateFileInfo(1, {
+        file_path: "/tmp/test-files/Game.zip",
+        title: "Game",
+        size: 1000n,
+      });
+
+      expect(gamesService.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          file_hash: "abc",
+          verification_state: GameVerificationState.PASSED,
+        }),
+      );
+    });
+  });
+
+  describe("folder games", () => {
+    it("should index a folder with a marker file as one game", async () => {
+      (service as any).index.mockRestore();
+      jest
+        .spyOn(service as any, "detectType")
+        .mockResolvedValue(GameType.WINDOWS_PORTABLE);
+      gamesService.checkIfExistsInDatabase.mockResolvedValue([
+        GameExistence.DOES_NOT_EXIST,
+        undefined,
+      ]);
+      gamesService.findHashedBySize.mockResolvedValue([]);
+      gamesService.save.mockImplementation(async (game) => game);
+      fsExtra.pathExists.mockImplementation(
+        async (path) =>
+          path === "/tmp/test-files/Some Game (v1.2) (2020)/.gamevault-game",
+      );
+
+      await (service as any).index(
+        "/tmp/test-files/Some Game (v1.2) (2020)",
+        { size: 5000 },
+        true,
+      );
+
+      expect(gamesService.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          file_path: "/tmp/test-files/Some Game (v1.2) (2020)",
+          title: "Some Game",
+          version: "v1.2",
+          size: 5000n,
+        }),
+      );
+      expect((service as any).detectType).toHaveBeenCalledWith(
+        "/tmp/test-files/Some Game (v1.2) (2020)",
+        true,
+        [],
+      );
+    });
+
+    it("should re-index the folder game when a file inside it changes", async () => {
+      jest.useFakeTimers();
+      const scheduleSpy = jest.spyOn(service as any, "scheduleFolderGameIndex");
+      fsExtra.pathExists.mockImplementation(
+        async (path) => path === "/tmp/test-files/Some Game/.gamevault-game",
+      );
+
+      await (service as any).handleFileEvent(
+        "/tmp/test-files/Some Game/bin/game.exe",
+        { size: 100 },
+      );
+
+      expect(scheduleSpy).toHaveBeenCalledWith("/tmp/test-files/Some Game");
+      expect((service as any).index).not.toHaveBeenCalled();
+      jest.useRealTimers();
+    });
+
+    it("should merge files inside folder games into the folder game", async () => {
+      jest.spyOn(TarArchive, "fromPath").mockResolvedValue({
+        contentSize: 300,
+        lastModified: new Date(1000),
+      } as TarArchive);
+      fsExtra.stat.mockResolvedValue({ ino: 7 } as any);
+
+      const files = await (service as any).mergeFolderGames(
+        [
+          { path: "/tmp/test-files/Other Game.zip", size: 10n },
+          { path: "/tmp/test-files/Some Game/setup.exe", size: 100n },
+          { path: "/tmp/test-files/Some Game/Nested/data.zip", size: 200n },
+        ],
+        ["/tmp/test-files/Some Game", "/tmp/test-files/Some Game/Nested"],
+      );
+
+      expect(files).toEqual([
+        { path: "/tmp/test-files/Other Game.zip", size: 10n },
+        {
+          path: "/tmp/test-files/Some Game",
+          size: 300n,
+          mtime: 1000,
+          inode: 7,
+        },
+      ]);
+      expect(TarArchive.fromPath).toHaveBeenCalledTimes(1);
+      jest.mocked(TarArchive.fromPath).mockRestore();
+    });
+  });
+
+  describe("missing game files", () => {
+    const configuration = jest.requireMock("../../configuration").default;
+    const hoursAgo = (hours: number) =>
+      new Date(Date.now() - hours * 60 * 60 * 1000);
+    const files = [
+      { path: "/tmp/test-files/A.zip", size: 10n },
+      { path: "/tmp/test-files/B.zip", size: 20n },
+    ];
+
+    beforeEach(() => {
+      configuration.TESTING.MOCK_FILES = false;
+    });
+
+    afterEach(() => {
+      configuration.TESTING.MOCK_FILES = true;
+    });
+
+    it("should keep games with missing files during the grace period", async () => {
+      gamesService.find.mockResolvedValue([
+        { id: 1, file_path: "/tmp/test-files/A.zip" },
+        { id: 2, file_path: "/tmp/test-files/B.zip", missing_since: null },
+        { id: 3, file_path: "/tmp/test-files/C.zip" },
+        { id: 4, file_path: "/tmp/test-files/D.zip" },
+      ] as any);
+
+      const games = await (service as any).checkIntegrity(files);
+
+      expect(games.map((game) => game.id)).toEqual([1, 2]);
+      expect(gamesService.updateMissingSince).toHaveBeenCalledTimes(2);
+      expect(gamesService.updateMissingSince).toHaveBeenCalledWith(
+        3,
+        expect.any(Date),
+      );
+      expect(gamesService.delete).not.toHaveBeenCalled();
+    });
+
+    it("should delete games whose files are missing for longer than the grace period", async () => {
+      const job = { deleted: 0 } as any;
+      gamesService.find.mockResolvedValue([
+        {
+          id: 1,
+          file_path: "/tmp/test-files/A.zip",
+          missing_since: hoursAgo(3),
+        },
+        { id: 2, file_path: "/tmp/test-files/B.zip" },
+        {
+          id: 3,
+          file_path: "/tmp/test-files/C.zip",
+          missing_since: hoursAgo(2),
+        },
+        { id: 4, file_path: "/tmp/test-files/D.zip" },
+      ] as any);
+
+      await (service as any).checkIntegrity(files, job);
+
+      expect(gamesService.updateMissingSince).toHaveBeenCalledWith(1, null);
+      expect(gamesService.delete).toHaveBeenCalledTimes(1);
+      expect(gamesService.delete).toHaveBeenCalledWith(3);
+      expect(job.deleted).toBe(1);
+      expect(statusService.set).not.toHaveBeenCalled();
+    });
+
+    it("should revert games whose file is missing to their previous version", async () => {
+      const job = { deleted: 0, updated: 0 } as any;
+      jest
+        .spyOn(service as any, "updateFileInfo")
+        .mockImplementation(async (id) => ({ id }));
+      jest.spyOn(service as any, "analyzeFile").mockResolvedValue({});
+      gamesService.find.mockResolvedValue([
+        { id: 1, file_path: "/tmp/test-files/A.zip" },
+        { id: 2, file_path: "/tmp/test-files/B.zip" },
+        {
+          id: 3,
+          file_path: "/tmp/test-files/C (v2).zip",
+          missing_since: hoursAgo(2),
+        },
+        { id: 4, file_path: "/tmp/test-files/C (v1).zip", version: "v1" },
+      ] as any);
+      const previousVersion = {
+        id: 4,
+        file_path: "/tmp/test-files/C (v1).zip",
+        version: "v1",
+      };
+      gamesService.findVersions.mockImplementation(
+        async (id) =>
+          (id === 3 ? [{ id: 3 }, previousVersion] : [{ id }]) as any,
+      );
+      fsExtra.pathExists.mockImplementation(
+        async (path) => path === previousVersion.file_path,
+      );
+
+      await (service as any).checkIntegrity(
+        [...files, { path: previousVersion.file_path, size: 10n }],
+        job,
+      );
+
+      expect(gamesService.removeVersion).toHaveBeenCalledWith(4);
+      expect((service as any).updateFileInfo).toHaveBeenCalledWith(
+        3,
+        previousVersion,
+      );
+      expect(gamesService.updateMissingSince).toHaveBeenCalledWith(3, null);
+      expect(gamesService.delete).not.toHaveBeenCalled();
+      expect(job).toEqual({ deleted: 0, updated: 1 });
+    });
+
+    it("should hold the deletion when too much of the library is missing", async () => {
+      gamesService.find.mockResolvedValue([
+        { id: 1, file_path: "/tmp/test-files/A.zip" },
+        {
+          id: 2,
+          file_path: "/tmp/test-files/C.zip",
+          missing_since: hoursAgo(2),
+        },
+        {
+          id: 3,
+          file_path: "/tmp/test-files/D.zip",
+          missing_since: hoursAgo(2),
+        },
+      ] as any);
+
+      await (service as any).checkIntegrity(files);
+
+      expect(gamesService.delete).not.toHaveBeenCalled();
+      expect(statusService.set).toHaveBeenCalledWith(
+        StatusEnum.DEGRADED,
+        expect.stringContaining("2 games (67% of the library)"),
+      );
+    });
+
+    it("should delete missing games and restore the status on confirmation", async () => {
+      statusService.get.mockReturnValue({ status: StatusEnum.DEGRADED } as any);
+      gamesService.findMissing.mockResolvedValue([
+        { id: 2, file_path: "/tmp/test-files/B.zip" },
+        { id: 3, file_path: "/tmp/test-files/C.zip" },
+      ] as any);
+      fsExtra.pathExists.mockImplementation(
+        async (path) => path === "/tmp/test-files/B.zip",
+      );
+
+      const deletedGames = await service.confirmPendingDeletions();
+
+      expect(deletedGames.map((game) => game.id)).toEqual([3]);
+      expect(gamesService.delete).toHaveBeenCalledWith(3);
+      expect(gamesService.updateMissingSince).toHaveBeenCalledWith(2, null);
+      expect(statusService.set).toHaveBeenCalledWith(
+        StatusEnum.HEALTHY,
+        expect.any(String),
+      );
+    });
+
+    it("should keep missing games on discard", async () => {
+      gamesService.findMissing.mockResolvedValue([
+        { id: 3, file_path: "/tmp/test-files/C.zip" },
+      ] as any);
+
+      await service.discardPendingDeletions();
+
+      expect(gamesService.updateMissingSince).toHaveBeenCalledWith(3, null);
+      expect(gamesService.delete).not.toHaveBeenCalled();
+      expect(statusService.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("renaming game files", () => {
+    const game = {
+      id: 1,
+      file_path: "/tmp/test-files/some_game_v1.2.zip",
+      title: "some game",
+      version: "v1.2",
+      type: GameType.WINDOWS_PORTABLE,
+      metadata: {
+        title: "Some Game: Remastered",
+        release_date: new Date("2020-05-01"),
+      },
+    } as any;
+
+    beforeEach(() => {
+      fsExtra.move.mockClear();
+    });
+
+    it("should rename game files and their sidecar files according to the template", async () => {
+      gamesService.findOneByGameIdOrFail.mockResolvedValue(game);
+      fsExtra.pathExists.mockImplementation(
+        async (path) =>
+          path === "/tmp/test-files/some_game_v1.2.gamevault.yaml",
+      );
+
+      const rename = await service.renameGameFile(1);
+
+      const newPath =
+        "/tmp/test-files/Some Game Remastered (2020) (v1.2) (W_P).zip";
+      expect(rename).toEqual({
+        game_id: 1,
+        old_path: game.file_path,
+        new_path: newPath,
+        renamed: true,
+      });
+      expect(gamesService.updateFilePath).toHaveBeenCalledWith(
+        1,
+        newPath,
+        expect.any(Function),
+      );
+      expect(fsExtra.move).toHaveBeenCalledWith(game.file_path, newPath);
+      expect(fsExtra.move).toHaveBeenCalledWith(
+        "/tmp/test-files/some_game_v1.2.gamevault.yaml",
+        "/tmp/test-files/Some Game Remastered (2020) (v1.2) (W_P).gamevault.yaml",
+      );
+    });
+
+    it("should not rename game files in dry runs", async () => {
+      gamesService.findOneByGameIdOrFail.mockResolvedValue(game);
+
+      const rename = await service.renameGameFile(1, "{title}.{ext}", true);
+
+      expect(rename.new_path).toBe("/tmp/test-files/Some Game Remastered.zip");
+      expect(rename.renamed).toBe(false);
+      expect(gamesService.updateFilePath).not.toHaveBeenCalled();
+      expect(fsExtra.move).not.toHaveBeenCalled();
+    });
+
+    it("should not overwrite existing files", async () => {
+      gamesService.findOneByGameIdOrFail.mockResolvedValue(game);
+      fsExtra.pathExists.mockResolvedValue(true);
+
+      await expect(service.renameGameFile(1, "{title}.{ext}")).rejects.toThrow(
+        ConflictException,
+      );
+      expect(fsExtra.move).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid templates", async () => {
+      await expect(service.renameGameFile(1, "{name}.{ext}")).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it("should preview renaming the whole library including conflicts", async () => {
+      gamesService.find.mockResolvedValue([
+        game,
+        { ...game, id: 2, file_path: "/tmp/test-files/copy.zip" },
+        {
+          id: 3,
+          file_path: "/tmp/test-files/Other Game.zip",
+          title: "Other Game",
+        },
+      ] as any);
+
+      const renames = await service.renameGameFiles("{title}.{ext}");
+
+      expect(renames).toEqual([
+        expect.objectContaining({
+          game_id: 1,
+          new_path: "/tmp/test-files/Some Game Remastered.zip",
+          renamed: false,
+        }),
+        expect.objectContaining({
+          game_id: 2,
+          error: expect.stringContaining("already exists"),
+        }),
+      ]);
+      expect(fsExtra.move).not.toHaveBeenCalled();
+    });
+
+    it("should name imported files according to the template", () => {
+      expect(
+        service.getImportFilename("Some Game (v1.2) (2019) (W_P).zip"),
+      ).toBe("Some Game (2019) (v1.2) (W_P).zip");
+    });
   });
 
   describe("deleteGameFile", () => {
@@ -205,14 +1747,170 @@ describe("FilesService", () => {
       );
     });
 
-    it("should remove game file from disk", async () => {
+    it("should reject deletion of games in read-only libraries", async () => {
+      gamesService.findOneByGameIdOrFail.mockResolvedValue({
+        id: 1,
+        file_path: "/tmp/test-files/archive/My Game.zip",
+      } as any);
+      fsExtra.pathExists.mockResolvedValueOnce(true);
+
+      await expect(service.deleteGameFile(1)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(trashService.trash).not.toHaveBeenCalled();
+    });
+
+    it("should move game file to the recycle bin", async () => {
       const game = { id: 1, file_path: "/tmp/test-files/My Game.zip" } as any;
       gamesService.findOneByGameIdOrFail.mockResolvedValue(game);
       fsExtra.pathExists.mockResolvedValueOnce(true);
 
       await service.deleteGameFile(1);
 
-      expect(fsExtra.rm).toHaveBeenCalledWith(game.file_path);
+      expect(trashService.trash).toHaveBeenCalledWith(game, "/tmp/test-files");
+      expect(gamesService.delete).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe("getContents", () => {
+    beforeEach(() => {
+      gamesService.findOneByGameIdOrFail.mockResolvedValue({
+        id: 42,
+        file_path: "/tmp/test-files/My Game.zip",
+        file_hash: "abc",
+        size: 1500n,
+      } as any);
+      fsExtra.pathExists.mockImplementation(
+        async (path) => !path.endsWith(".gamevault-game"),
+      );
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should list archives as a file tree", async () => {
+      jest.spyOn(service as any, "listArchive").mockResolvedValue([
+        { file: "readme.txt", attributes: "....A", size: 100 },
+        { file: "bin", attributes: "D....", size: 0 },
+        { file: "bin/game.exe", attributes: "....A", size: 1000 },
+        { file: "data/assets/level.bin", attributes: "....A", size: 400 },
+      ]);
+
+      const contents = await service.getContents(42, 18);
+
+      expect(gamesService.findOneByGameIdOrFail).toHaveBeenCalledWith(42, {
+        loadDeletedEntities: false,
+        filterByAge: 18,
+      });
+      expect(contents).toEqual({
+        size: 1500,
+        file_count: 3,
+        entries: [
+          {
+            name: "bin",
+            path: "bin",
+            type: "directory",
+            size: 1000,
+            children: [
+              {
+                name: "game.exe",
+                path: "bin/game.exe",
+                type: "file",
+                size: 1000,
+              },
+            ],
+          },
+          {
+            name: "data",
+            path: "data",
+            type: "directory",
+            size: 400,
+            children: [
+              {
+                name: "assets",
+                path: "data/assets",
+                type: "directory",
+                size: 400,
+                children: [
+                  {
+                    name: "level.bin",
+                    path: "data/assets/level.bin",
+                    type: "file",
+                    size: 400,
+                  },
+                ],
+              },
+            ],
+          },
+          { name: "readme.txt", path: "readme.txt", type: "file", size: 100 },
+        ],
+      });
+    });
+
+    it("should cache the contents per file hash and size", async () => {
+      const listArchive = jest
+        .spyOn(service as any, "listArchive")
+        .mockResolvedValue([{ file: "game.exe", size: 1500 }]);
+
+      const first = await service.getContents(42);
+      const second = await service.getContents(42);
+
+      expect(second).toBe(first);
+      expect(listArchive).toHaveBeenCalledTimes(1);
+
+      gamesService.findOneByGameIdOrFail.mockResolvedValue({
+        id: 42,
+        file_path: "/tmp/test-files/My Game.zip",
+        file_hash: "abc",
+        size: 1600n,
+      } as any);
+      await service.getContents(42);
+
+      expect(listArchive).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not cache the contents of games without hash", async () => {
+      gamesService.findOneByGameIdOrFail.mockResolvedValue({
+        id: 42,
+        file_path: "/tmp/test-files/My Game.zip",
+        size: 1500n,
+      } as any);
+      const listArchive = jest
+        .spyOn(service as any, "listArchive")
+        .mockResolvedValue([]);
+
+      await service.getContents(42);
+      await service.getContents(42);
+
+      expect(listArchive).toHaveBeenCalledTimes(2);
+    });
+
+    it("should list other files like their tar archive", async () => {
+      gamesService.findOneByGameIdOrFail.mockResolvedValue({
+        id: 42,
+        file_path: "/tmp/test-files/My Game.exe",
+        size: 1500n,
+      } as any);
+      jest.spyOn(TarArchive, "fromPath").mockResolvedValue({
+        listEntries: () => [{ name: "My Game.exe", type: "file", size: 1500 }],
+      } as any);
+
+      const contents = await service.getContents(42);
+
+      expect(contents.entries).toEqual([
+        { name: "My Game.exe", path: "My Game.exe", type: "file", size: 1500 },
+      ]);
+    });
+
+    it("should throw if the archive cannot be listed", async () => {
+      jest
+        .spyOn(service as any, "listArchive")
+        .mockRejectedValue(new Error("Wrong password"));
+
+      await expect(service.getContents(42)).rejects.toThrow(
+        InternalServerErrorException,
+      );
     });
   });
 
@@ -240,5 +1938,230 @@ describe("FilesService", () => {
       });
       expect(gamesService.save).not.toHaveBeenCalled();
     });
+
+    describe("without mock mode", () => {
+      const configuration = jest.requireMock("../../configuration").default;
+
+      const mtime = new Date("2024-01-01T00:00:00.000Z");
+      const etag = `"3e8-${mtime.getTime().toString(16)}"`;
+      let response: jest.Mocked<Response>;
+
+      beforeEach(() => {
+        configuration.TESTING.MOCK_FILES = false;
+        response = { setHeader: jest.fn(), status: jest.fn() } as any;
+        fsExtra.createReadStream.mockClear();
+        fsExtra.pathExists.mockImplementation(
+          async (path) => !path.endsWith(".gamevault-game"),
+        );
+      });
+
+      afterEach(() => {
+        configuration.TESTING.MOCK_FILES = true;
+        jest.restoreAllMocks();
+      });
+
+      it("should stream archives directly", async () => {
+        gamesService.findOneByGameIdOrFail.mockResolvedValue({
+          id: 42,
+          file_path: "/tmp/test-files/My Game.zip",
+          download_count: 0,
+        } as any);
+        fsExtra.stat.mockResolvedValue({ size: 1000, mtime });
+        fsExtra.createReadStream.mockReturnValue(Readable.from([]));
+        jest.spyOn(TarArchive, "fromPath");
+
+        await service.download(response, 42, undefined, "bytes=100-");
+
+        expect(fsExtra.createReadStream).toHaveBeenCalledWith(
+          "/tmp/test-files/My Game.zip",
+          { start: 100, end: 999 },
+        );
+        expect(TarArchive.fromPath).not.toHaveBeenCalled();
+        expect(response.status).toHaveBeenCalledWith(206);
+        expect(response.setHeader).toHaveBeenCalledWith(
+          "Content-Range",
+          "bytes 100-999/1000",
+        );
+        expect(response.setHeader).toHaveBeenCalledWith("X-Download-Size", 900);
+      });
+
+      it("should stream other files as tar archive generated on the fly", async () => {
+        gamesService.findOneByGameIdOrFail.mockResolvedValue({
+          id: 42,
+          file_path: "/tmp/test-files/My Game.exe",
+          download_count: 0,
+        } as any);
+        const createReadStream = jest.fn().mockReturnValue(Readable.from([]));
+        jest.spyOn(TarArchive, "fromPath").mockResolvedValue({
+          size: 3072,
+          lastModified: mtime,
+          createReadStream,
+        } as any);
+
+        const result = await service.download(
+          response,
+          42,
+          undefined,
+          "bytes=1024-",
+        );
+
+        expect(TarArchive.fromPath).toHaveBeenCalledWith(
+          "/tmp/test-files/My Game.exe",
+        );
+        expect(createReadStream).toHaveBeenCalledWith(1024, 3071);
+        expect(fsExtra.createReadStream).not.toHaveBeenCalled();
+        expect(response.setHeader).toHaveBeenCalledWith(
+          "X-Download-Size",
+          2048,
+        );
+        expect(result.getHeaders().disposition).toContain('My Game.tar"');
+      });
+
+      describe("ranges", () => {
+        beforeEach(() => {
+          gamesService.findOneByGameIdOrFail.mockResolvedValue({
+            id: 42,
+            file_path: "/tmp/test-files/My Game.zip",
+            download_count: 0,
+          } as any);
+          fsExtra.stat.mockResolvedValue({ size: 1000, mtime });
+          fsExtra.createReadStream.mockImplementation((_path, { start, end }) =>
+            Readable.from([Buffer.alloc(end - start + 1, "x")]),
+          );
+        });
+
+        it("should return the entire file with validators without a range", async () => {
+          const result = await service.download(response, 42);
+
+          expect(response.status).not.toHaveBeenCalled();
+          expect(response.setHeader).toHaveBeenCalledWith("ETag", etag);
+          expect(response.setHeader).toHaveBeenCalledWith(
+            "Last-Modified",
+            mtime.toUTCString(),
+          );
+          expect(result.getHeaders().length).toBe(1000);
+        });
+
+        it("should return empty files without a range", async () => {
+          fsExtra.stat.mockResolvedValue({ size: 0, mtime });
+
+          const result = await service.download(response, 42);
+
+          expect(response.status).not.toHaveBeenCalled();
+          expect(fsExtra.createReadStream).not.toHaveBeenCalled();
+          expect(result.getHeaders().length).toBe(0);
+          const chunks: Buffer[] = [];
+          for await (const chunk of result.getStream()) {
+            chunks.push(chunk);
+          }
+          expect(Buffer.concat(chunks).length).toBe(0);
+        });
+
+        it.each([
+          ["bytes=-100", "bytes 900-999/1000"],
+          ["bytes=900-5000", "bytes 900-999/1000"],
+          ["bytes=0-99,50-199", "bytes 0-199/1000"],
+        ])(
+          "should answer %s with a single range",
+          async (range, contentRange) => {
+            await service.download(response, 42, undefined, range);
+
+            expect(response.status).toHaveBeenCalledWith(206);
+            expect(response.setHeader).toHaveBeenCalledWith(
+              "Content-Range",
+              contentRange,
+            );
+          },
+        );
+
+        it.each(["items=0-99", "bytes=abc", "bytes=200-100"])(
+          "should ignore the invalid range %s",
+          async (range) => {
+            const result = await service.download(
+              response,
+              42,
+              undefined,
+              range,
+            );
+
+            expect(response.status).not.toHaveBeenCalled();
+            expect(result.getHeaders().length).toBe(1000);
+          },
+        );
+
+        it("should reject unsatisfiable ranges with 416", async () => {
+          await expect(
+            service.download(response, 42, undefined, "bytes=1000-"),
+          ).rejects.toMatchObject({ status: 416 });
+          expect(response.setHeader).toHaveBeenCalledWith(
+            "Content-Range",
+            "bytes */1000",
+          );
+        });
+
+        it("should apply the range if If-Range matches", async () => {
+          await service.download(
+            response,
+            42,
+            undefined,
+            "bytes=100-",
+            undefined,
+            mtime.toUTCString(),
+          );
+
+          expect(response.status).toHaveBeenCalledWith(206);
+        });
+
+        it.each(['"other"', `W/${etag}`, "Mon, 01 Jan 2024 00:00:01 GMT"])(
+          "should return the entire file if If-Range is %s",
+          async (ifRange) => {
+            const result = await service.download(
+              response,
+              42,
+              undefined,
+              "bytes=100-",
+              undefined,
+              ifRange,
+            );
+
+            expect(response.status).not.toHaveBeenCalled();
+            expect(result.getHeaders().length).toBe(1000);
+          },
+        );
+
+        it("should return multiple ranges as multipart/byteranges", async () => {
+          const result = await service.download(
+            response,
+            42,
+            undefined,
+            "bytes=0-9,-10",
+            undefined,
+            etag,
+          );
+          const chunks: Buffer[] = [];
+          for await (const chunk of result.getStream()) {
+            chunks.push(chunk);
+          }
+          const body = Buffer.concat(chunks).toString();
+          const { type, length } = result.getHeaders();
+          const boundary = type.split("boundary=")[1];
+
+          expect(response.status).toHaveBeenCalledWith(206);
+          expect(type).toMatch(/^multipart\/byteranges; boundary=/);
+          expect(body.length).toBe(length);
+          expect(body).toBe(
+            `\r\n--${boundary}\r\n` +
+              "Content-Type: application/octet-stream\r\n" +
+              "Content-Range: bytes 0-9/1000\r\n\r\n" +
+              "x".repeat(10) +
+              `\r\n--${boundary}\r\n` +
+              "Content-Type: application/octet-stream\r\n" +
+              "Content-Range: bytes 990-999/1000\r\n\r\n" +
+              "x".repeat(10) +
+              `\r\n--${boundary}--\r\n`,
+          );
+        });
+      });
+    });
   });
 });
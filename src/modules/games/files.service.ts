@@ -1,6 +1,10 @@
 import {
   BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
   Injectable,
+  InternalServerErrorException,
   Logger,
   NotFoundException,
   OnApplicationBootstrap,
@@ -13,33 +17,56 @@ import {
   access,
   constants,
   createReadStream,
+  move,
   pathExists,
-  rm,
+  readdir,
+  remove,
   stat,
-  writeFile,
 } from "fs-extra";
-import { debounce, toLower } from "lodash";
-import { add, list } from "node-7z";
-import path, { basename } from "path";
+import { DebouncedFunc, debounce, findKey, kebabCase, toLower } from "lodash";
+import { Data, list } from "node-7z";
+import path, { basename, extname } from "path";
 import { from, lastValueFrom } from "rxjs";
 import { mergeMap } from "rxjs/operators";
 import filenameSanitizer from "sanitize-filename";
 import { Readable } from "stream";
 import { Throttle } from "stream-throttle";
+import { stringSimilarity } from "string-similarity-js";
 import unidecode from "unidecode";
 
-import { Cron, SchedulerRegistry } from "@nestjs/schedule";
+import { Cron } from "@nestjs/schedule";
 import configuration from "../../configuration";
 import globals from "../../globals";
 import { logGamevaultGame } from "../../logging";
+import { GameMetadata } from "../metadata/games/game.metadata.entity";
 import { MetadataService } from "../metadata/metadata.service";
+import { GameDependency } from "../metadata/models/game-dependency.model";
+import { StatusEnum } from "../status/models/status.enum";
+import { StatusService } from "../status/status.service";
+import { FileHashingService } from "./file-hashing.service";
+import { FileStatesService } from "./file-states.service";
+import { FilenameTemplate, FilenameTemplateValues } from "./filename-template";
 import mock from "./games.mock";
 import { GamesService } from "./games.service";
 import { GamevaultGame } from "./gamevault-game.entity";
+import { IgnoreFile } from "./ignore-file";
+import { IndexJob } from "./index-job.entity";
+import { IndexJobsService } from "./index-jobs.service";
+import { DownloadSource } from "./models/download-source.model";
 import { File } from "./models/file.model";
+import { GameAddonType } from "./models/game-addon-type.enum";
+import { GameContentsEntry } from "./models/game-contents-entry.model";
+import { GameContents } from "./models/game-contents.model";
 import { GameExistence } from "./models/game-existence.enum";
+import { GameFileRename } from "./models/game-file-rename.model";
 import { GameType } from "./models/game-type.enum";
+import { IndexJobTrigger } from "./models/index-job-trigger.enum";
+import { IndexPhase } from "./models/index-phase.enum";
+import { ParsedFilename } from "./models/parsed-filename.model";
 import { RangeHeader } from "./models/range-header.model";
+import { SidecarFile } from "./sidecar-file";
+import { TarArchive } from "./tar-archive";
+import { TrashService } from "./trash.service";
 
 @Injectable()
 export class FilesService implements OnApplicationBootstrap {
@@ -47,6 +74,142 @@ export class FilesService implements OnApplicationBootstrap {
   private readonly supportedFormatsSet = new Set(
     configuration.GAMES.SUPPORTED_FILE_FORMATS.map((f) => toLower(f)),
   );
+  private readonly libraries = configuration.GAMES.LIBRARIES.map((library) => ({
+    ...library,
+    supportedFormats: new Set(
+      library.supported_file_formats.map((format) => toLower(format)),
+    ),
+  }));
+
+  private readonly folderGameNamePattern = configuration.GAMES
+    .FOLDER_GAMES_NAME_PATTERN
+    ? new RegExp(configuration.GAMES.FOLDER_GAMES_NAME_PATTERN)
+    : undefined;
+  private readonly parsingProfiles = configuration.GAMES.PARSING_PROFILES.map(
+    (profile) => ({
+      name: profile.name,
+      regex: new RegExp(profile.pattern, profile.flags),
+    }),
+  );
+  private readonly gameTypeOverrides: Record<string, GameType> = {
+    W_P: GameType.WINDOWS_PORTABLE,
+    W_S: GameType.WINDOWS_SETUP,
+    L_P: GameType.LINUX_PORTABLE,
+    W_SW: GameType.WINDOWS_SOFTWARE,
+    L_SW: GameType.LINUX_SOFTWARE,
+  };
+  private readonly addonTags: Record<string, GameAddonType> = {
+    DLC: GameAddonType.DLC,
+    PATCH: GameAddonType.PATCH,
+    UPDATE: GameAddonType.PATCH,
+    OST: GameAddonType.SOUNDTRACK,
+    SOUNDTRACK: GameAddonType.SOUNDTRACK,
+    EXTRA: GameAddonType.EXTRA,
+    EXTRAS: GameAddonType.EXTRA,
+  };
+  private readonly folderGameIndexJobs = new Map<
+    string,
+    DebouncedFunc<() => Promise<void>>
+  >();
+  /** Paths of files that are being imported, which index them themselves. */
+  private readonly importingPaths = new Set<string>();
+
+  /** Listed game contents by file hash and size, oldest first. */
+  private readonly ignoreFileCache = new Map<string, IgnoreFile | null>();
+  private readonly contentsCache = new Map<string, GameContents>();
+  private readonly contentsCacheSize = 100;
+
+  private readonly windowsInstallerPatterns: {
+    regex: RegExp;
+    description: string;
+  }[] = [
+    { regex: /^setup\.exe$/i, description: "setup.exe" },
+    { regex: /^autorun\.exe$/i, description: "autorun.exe" },
+    { regex: /^setup_.*\.exe$/i, description: "setup_*.exe" },
+    { regex: /^setup-.*\.exe$/i, description: "setup-*.exe" },
+    { regex: /^install\.exe$/i, description: "install.exe" },
+    { regex: /^unarc\.exe$/i, description: "unarc.exe" },
+    {
+      regex: /^(?!.*\bredist\b).*\.msi$/,
+      description: "*.msi (except redistributables)",
+    },
+  ];
+
+  /** Installers of known redistributables, matched against lowercase paths. */
+  private readonly redistributablePatterns: {
+    regex: RegExp;
+    describe: (
+      match: RegExpMatchArray,
+      path: string,
+    ) => Omit<GameDependency, "installer">;
+  }[] = [
+    {
+      regex: /(?:^|\/)vc_?redist[^/]*?(x86|x64|arm64)[^/]*\.exe$/,
+      describe: ([, architecture], path) => {
+        // Installers are usually sorted into directories named by year
+        let year = path
+          .split("/")
+          .slice(-2)
+          .join("/")
+          .match(
+            /(?:^|[^0-9])(2005|2008|2010|2012|2013|2015|2017|2019|2022)(?:[^0-9]|$)/,
+          )?.[1];
+        // VC_redist.*.exe is the unified installer of 2015 and later
+        if (Number(year) >= 2015 || (!year && /vc_redist/.test(path))) {
+          year = "2015-2022";
+        }
+        return {
+          id: ["vcredist", year, architecture].filter(Boolean).join("-"),
+          name: `Microsoft Visual C++ ${year ? `${year} ` : ""}Redistributable (${architecture})`,
+          architecture,
+        };
+      },
+    },
+    {
+      regex: /(?:^|\/)dxsetup\.exe$/,
+      describe: () => ({
+        id: "directx-june-2010",
+        name: "DirectX End-User Runtime (June 2010)",
+      }),
+    },
+    {
+      regex: /(?:^|\/)(?:dotnetfx|ndp)(\d)(\d)(\d?)[^/]*\.exe$/,
+      describe: ([, major, minor, patch]) => {
+        const version = [major, minor, patch].filter(Boolean).join(".");
+        return {
+          id: `dotnetfx-${version}`,
+          name: `Microsoft .NET Framework ${version}`,
+        };
+      },
+    },
+    {
+      regex:
+        /(?:^|\/)(?:windowsdesktop|dotnet)-runtime-(\d+)\.[^/]*-win-(x86|x64|arm64)\.exe$/,
+      describe: ([, major, architecture]) => ({
+        id: `dotnet-runtime-${major}-${architecture}`,
+        name: `Microsoft .NET Runtime ${major} (${architecture})`,
+        architecture,
+      }),
+    },
+    {
+      regex: /(?:^|\/)(?:xnafx|xnaredist)(\d)(\d)[^/]*\.msi$/,
+      describe: ([, major, minor]) => ({
+        id: `xna-${major}.${minor}`,
+        name: `Microsoft XNA Framework Redistributable ${major}.${minor}`,
+      }),
+    },
+    {
+      regex: /(?:^|\/)physx[^/]*\.(?:exe|msi)$/,
+      describe: () => ({
+        id: "physx",
+        name: "NVIDIA PhysX System Software",
+      }),
+    },
+    {
+      regex: /(?:^|\/)oalinst\.exe$/,
+      describe: () => ({ id: "openal", name: "OpenAL" }),
+    },
+  ];
 
   private isIndexingRunning = false;
   private _initialIndexComplete = false;
@@ -70,7 +233,11 @@ export class FilesService implements OnApplicationBootstrap {
   constructor(
     private readonly gamesService: GamesService,
     private readonly metadataService: MetadataService,
-    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly fileHashingService: FileHashingService,
+    private readonly indexJobsService: IndexJobsService,
+    private readonly fileStatesService: FileStatesService,
+    private readonly statusService: StatusService,
+    private readonly trashService: TrashService,
   ) {}
 
   /** Initializes the file watcher and starts the initial indexing. */
@@ -85,28 +252,44 @@ export class FilesService implements OnApplicationBootstrap {
 
     const { watch } = await import("chokidar");
 
-    watch(configuration.VOLUMES.FILES, {
-      depth: configuration.GAMES.SEARCH_RECURSIVE ? undefined : 0,
-      ignorePermissionErrors: true,
-      ignoreInitial: true,
-      followSymlinks: true,
-      alwaysStat: true,
-      awaitWriteFinish: true,
-      usePolling: configuration.GAMES.INDEX_USE_POLLING,
-    })
-      .on("add", (path, stats) => this.index(path, stats))
-      .on("change", (path, stats) => this.index(path, stats))
-      .on("unlink", (path, stats) => this.index(path, stats))
-      .on("error", (error) =>
-        this.logger.error({ message: "Error in Filewatcher.", error }),
-      );
+    for (const library of this.libraries) {
+      watch(library.path, {
+        depth: library.search_recursive ? undefined : 0,
+        ignored: (path, stats) =>
+          this.isInternalPath(path) ||
+          this.isInNestedLibrary(path, library) ||
+          this.isIgnored(path, stats?.isDirectory()),
+        ignorePermissionErrors: true,
+        ignoreInitial: true,
+        followSymlinks: true,
+        alwaysStat: true,
+        awaitWriteFinish: true,
+        usePolling: library.use_polling,
+      })
+        .on("add", (path, stats) => this.handleFileEvent(path, stats))
+        .on("change", (path, stats) => this.handleFileEvent(path, stats))
+        .on("unlink", (path, stats) => this.handleFileEvent(path, stats))
+        .on("addDir", async (path) => {
+          if (await this.isFolderGame(path)) {
+            this.scheduleFolderGameIndex(path);
+          }
+        })
+        .on("unlinkDir", () => this.runDebouncedIntegrityCheck())
+        .on("error", (error) =>
+          this.logger.error({
+            message: "Error in Filewatcher.",
+            library: library.name,
+            error,
+          }),
+        );
+    }
   }
 
   // Start initial full index on demand (moved to be invoked after server listen)
   public async startIndexing(): Promise<void> {
     try {
       this.logger.log({ message: "Starting initial file index (background)." });
-      await this.indexAllFiles();
+      await this.indexAllFiles(IndexJobTrigger.STARTUP);
       this.logger.log({ message: "Initial file index finished." });
     } catch (error) {
       this.logger.error({ message: "Initial file index failed.", error });
@@ -121,8 +304,14 @@ export class FilesService implements OnApplicationBootstrap {
         configuration.TESTING.MOCK_FILES,
     },
   )
-  /** Scans the filesystem for all games and indexes them. */
-  public async indexAllFiles() {
+  /**
+   * Scans the filesystem for all games and indexes them. Incremental runs
+   * only index files that changed since they were last indexed. The run is
+   * recorded as an index job, which is returned once it is finished.
+   */
+  public async indexAllFiles(
+    trigger = IndexJobTrigger.SCHEDULED,
+  ): Promise<IndexJob | undefined> {
     if (!this._initialIndexComplete) {
       this.logger.debug({
         message:
@@ -139,7 +328,18 @@ export class FilesService implements OnApplicationBootstrap {
     }
 
     this.isIndexingRunning = true;
+    let job: IndexJob | undefined;
     try {
+      job = await this.indexJobsService.start(
+        trigger,
+        await this.isIncrementalIndex(trigger),
+      );
+      this.indexJobsService.reportProgress({
+        phase: IndexPhase.READING_FILES,
+        job_id: job.id,
+        trigger,
+        started_at: job.started_at,
+      });
       const heapMB = () =>
         Math.round(process.memoryUsage().heapUsed / 1024 / 1024);
 
@@ -149,54 +349,144 @@ export class FilesService implements OnApplicationBootstrap {
       });
 
       const files = await this.readAllFiles();
+      const filesToIndex = job.incremental
+        ? await this.findChangedFiles(files)
+        : files;
+      job.files_seen = files.length;
+      job.skipped = files.length - filesToIndex.length;
+      this.indexJobsService.reportProgress({
+        phase: IndexPhase.INDEXING,
+        total: filesToIndex.length,
+      });
       this.logger.log({
         message: "Index: after readAllFiles, starting file index.",
         count: files.length,
+        changed: filesToIndex.length,
+        incremental: job.incremental,
         heap_mb: heapMB(),
       });
 
-      if (files.length > 0) {
+      const indexedFiles: File[] = [];
+      if (filesToIndex.length > 0) {
         // Processes up to INDEX_CONCURRENCY files in parallel.
         // To revert to sequential (one file at a time), replace mergeMap with
         // concatMap and remove the second argument:
         //   concatMap((file) => this.index(file.path, { size: Number(file.size) } as Stats, true))
+        let processed = 0;
         await lastValueFrom(
-          from(files).pipe(
-            mergeMap(
-              (file) =>
-                this.index(
-                  file.path,
-                  { size: Number(file.size) } as Stats,
-                  true,
-                ),
-              configuration.GAMES.INDEX_CONCURRENCY,
-            ),
+          from(filesToIndex).pipe(
+            mergeMap(async (file) => {
+              this.indexJobsService.reportProgress({ current_file: file.path });
+              const indexed = await this.index(
+                file.path,
+                { size: Number(file.size) } as Stats,
+                true,
+                job,
+              );
+              if (indexed) {
+                indexedFiles.push(file);
+              }
+              this.indexJobsService.reportProgress({ processed: ++processed });
+            }, configuration.GAMES.INDEX_CONCURRENCY),
           ),
         );
       }
 
+      await this.fileStatesService.save(indexedFiles, files);
+
       this.logger.log({
         message: "Index: finished file index, starting integrity check.",
         count: files.length,
         heap_mb: heapMB(),
       });
 
+      this.indexJobsService.reportProgress({
+        phase: IndexPhase.INTEGRITY_CHECK,
+        current_file: undefined,
+      });
       this.runDebouncedIntegrityCheck.cancel();
-      await this.checkIntegrity(files);
+      await this.checkIntegrity(files, job);
 
       this.logger.log({
         message: "Index: post-integrity-check, indexing complete.",
         heap_mb: heapMB(),
       });
+      return await this.indexJobsService.finish(job);
+    } catch (error) {
+      if (job) {
+        await this.indexJobsService.finish(job, error).catch((finishError) =>
+          this.logger.warn({
+            message: "Failed to record the failed index job.",
+            job: job.id,
+            error: finishError,
+          }),
+        );
+      }
+      throw error;
     } finally {
       this.isIndexingRunning = false;
+      this.indexJobsService.resetProgress();
     }
   }
 
   /**
-   * Deletes a game file from disk.
-   * The file indexer will automatically soft-delete the game from the database
-   * once it detects the file is missing.
+   * Checks if an index run only has to index changed files. Manual runs
+   * index all files. So does a run once the last full run is older than the
+   * metadata TTL, as the metadata of unchanged games is not refreshed else.
+   */
+  private async isIncrementalIndex(trigger: IndexJobTrigger): Promise<boolean> {
+    if (trigger === IndexJobTrigger.MANUAL) {
+      return false;
+    }
+    const lastFullIndexJob = await this.indexJobsService.findLastFullIndexJob();
+    return (
+      !!lastFullIndexJob &&
+      new Date(lastFullIndexJob.started_at).getTime() >
+        Date.now() - configuration.METADATA.TTL_IN_DAYS * 24 * 60 * 60 * 1000
+    );
+  }
+
+  /**
+   * Returns the files that changed since they were last indexed, as well as
+   * files without game in the database, e.g. because indexing them failed.
+   */
+  private async findChangedFiles(files: File[]): Promise<File[]> {
+    const changedFiles = new Set(
+      await this.fileStatesService.findChanged(files),
+    );
+    const gamePaths = new Set(
+      (
+        await this.gamesService.find({
+          loadDeletedEntities: false,
+          loadRelations: false,
+          select: ["file_path"],
+        })
+      ).map((game) => game.file_path),
+    );
+    return files.filter(
+      (file) => changedFiles.has(file) || !gamePaths.has(file.path),
+    );
+  }
+
+  /**
+   * Detects the type, executables and dependencies of an indexed game again,
+   * e.g. after its archive password has changed.
+   */
+  public async reanalyzeFile(gameId: number): Promise<void> {
+    const game = await this.gamesService.findOneByGameIdOrFail(gameId, {
+      loadDeletedEntities: false,
+    });
+    const fileMetadata = await this.analyzeFile(
+      game,
+      await this.isFolderGame(game.file_path),
+    );
+    await this.updateFileInfo(game.id, game);
+    await this.metadataService.updateFileMetadata(game.id, fileMetadata);
+  }
+
+  /**
+   * Moves a game file to the recycle bin of its library and soft-deletes the
+   * game from the database. It can be restored until it is purged.
    */
   public async deleteGameFile(gameId: number): Promise<void> {
     const game = await this.gamesService.findOneByGameIdOrFail(gameId, {
@@ -215,30 +505,268 @@ export class FilesService implements OnApplicationBootstrap {
       );
     }
 
-    // Verify write permissions on the files volume
+    const library = this.getLibrary(game.file_path);
+    if (library?.read_only) {
+      throw new BadRequestException(
+        `The game file is stored in the read-only library "${library.name}". Game deletion requires a writable library.`,
+      );
+    }
+
+    // Verify write permissions on the library
+    const libraryPath = library?.path ?? configuration.VOLUMES.FILES;
     try {
-      await access(configuration.VOLUMES.FILES, constants.W_OK);
+      await access(libraryPath, constants.W_OK);
     } catch {
       throw new BadRequestException(
-        `The server does not have write permissions on the files volume "${configuration.VOLUMES.FILES}". Game deletion requires write access.`,
+        `The server does not have write permissions on the library "${libraryPath}". Game deletion requires write access.`,
       );
     }
 
-    await rm(game.file_path);
+    // Folder games are moved including all of their contents
+    await this.trashService.trash(game, libraryPath);
+    // Deliberately deleted games don't wait for the deletion grace period
+    await this.gamesService.delete(gameId);
+  }
+
+  /**
+   * Renames or moves the file of a game within its library according to a
+   * filename template. The file path in the database is updated in the same
+   * transaction, so the indexer doesn't treat the move as a deleted and a new
+   * game.
+   */
+  public async renameGameFile(
+    gameId: number,
+    template = configuration.GAMES.RENAME_TEMPLATE,
+    dryRun = false,
+  ): Promise<GameFileRename> {
+    const filenameTemplate = this.parseFilenameTemplate(template);
+    const game = await this.gamesService.findOneByGameIdOrFail(gameId, {
+      loadDeletedEntities: false,
+      loadRelations: ["metadata"],
+    });
+    return this.renameGame(game, filenameTemplate, dryRun);
+  }
+
+  /**
+   * Renames or moves the files of all games according to a filename
+   * template. Returns the games whose paths change, including those that
+   * can't be renamed and why.
+   */
+  public async renameGameFiles(
+    template = configuration.GAMES.RENAME_TEMPLATE,
+    dryRun = true,
+  ): Promise<GameFileRename[]> {
+    const filenameTemplate = this.parseFilenameTemplate(template);
+    const games = await this.gamesService.find({
+      loadDeletedEntities: false,
+      loadRelations: ["metadata"],
+    });
+
+    const renames: GameFileRename[] = [];
+    const targetPaths = new Set<string>();
+    for (const game of games) {
+      try {
+        const rename = await this.renameGame(
+          game,
+          filenameTemplate,
+          dryRun,
+          targetPaths,
+        );
+        if (rename.new_path !== rename.old_path) {
+          renames.push(rename);
+        }
+      } catch (error) {
+        renames.push({
+          game_id: game.id,
+          old_path: game.file_path,
+          renamed: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
     this.logger.log({
-      message: "Game file deleted from disk.",
-      gameId,
-      path: game.file_path,
+      message: dryRun
+        ? "Previewed renaming of game files."
+        : "Renamed game files.",
+      template,
+      renamed: renames.filter((rename) => rename.renamed).length,
+      failed: renames.filter((rename) => rename.error).length,
     });
+    return renames;
+  }
+
+  private parseFilenameTemplate(template: string): FilenameTemplate {
+    try {
+      return new FilenameTemplate(template);
+    } catch (error) {
+      throw new BadRequestException((error as Error).message, { cause: error });
+    }
+  }
+
+  /**
+   * Renames the file of a game and its sidecar file. Target paths of other
+   * games renamed in the same run are passed to detect conflicts between
+   * them in dry runs.
+   */
+  private async renameGame(
+    game: GamevaultGame,
+    template: FilenameTemplate,
+    dryRun: boolean,
+    targetPaths = new Set<string>(),
+  ): Promise<GameFileRename> {
+    const library = this.getLibrary(game.file_path);
+    if (!library) {
+      throw new BadRequestException(
+        `The game file "${game.file_path}" is not stored in a library.`,
+      );
+    }
+
+    const isFolderGame = await this.isFolderGame(game.file_path);
+    let relativePath: string;
+    try {
+      relativePath = template.render(
+        this.getFilenameTemplateValues(game, isFolderGame),
+      );
+    } catch (error) {
+      throw new BadRequestException((error as Error).message, { cause: error });
+    }
+    const rename: GameFileRename = {
+      game_id: game.id,
+      old_path: game.file_path,
+      new_path: path.join(library.path, relativePath),
+      renamed: false,
+    };
+    if (rename.new_path === rename.old_path) {
+      return rename;
+    }
+
+    if (library.read_only) {
+      throw new BadRequestException(
+        `The game file is stored in the read-only library "${library.name}". Renaming requires a writable library.`,
+      );
+    }
+    // Case-only renames target the same file on case-insensitive filesystems
+    const isCaseOnlyRename =
+      toLower(rename.new_path) === toLower(rename.old_path);
+    if (
+      targetPaths.has(toLower(rename.new_path)) ||
+      (!isCaseOnlyRename && (await pathExists(rename.new_path)))
+    ) {
+      throw new ConflictException(
+        `A file already exists at "${rename.new_path}".`,
+      );
+    }
+    targetPaths.add(toLower(rename.new_path));
+    if (dryRun) {
+      return rename;
+    }
+
+    const sidecarPaths = await this.findSidecarPaths(
+      game.file_path,
+      isFolderGame,
+    );
+    await this.gamesService.updateFilePath(game.id, rename.new_path, () =>
+      move(rename.old_path, rename.new_path),
+    );
+    rename.renamed = true;
+
+    // Sidecar files are renamed along with the game file
+    const newName = isFolderGame
+      ? basename(rename.new_path)
+      : basename(rename.new_path, extname(rename.new_path));
+    for (const sidecarPath of sidecarPaths) {
+      const extension = basename(sidecarPath).slice(
+        SidecarFile.getGameName(sidecarPath).length,
+      );
+      try {
+        await move(
+          sidecarPath,
+          path.join(path.dirname(rename.new_path), newName + extension),
+        );
+      } catch (error) {
+        this.logger.warn({
+          message: "Error renaming sidecar file along with game file.",
+          path: sidecarPath,
+          error,
+        });
+      }
+    }
+
+    this.logger.log({
+      message: "Renamed game file.",
+      game: { id: game.id, path: rename.old_path },
+      new_path: rename.new_path,
+    });
+    return rename;
+  }
+
+  private getFilenameTemplateValues(
+    game: GamevaultGame,
+    isFolderGame: boolean,
+  ): FilenameTemplateValues {
+    const releaseDate = game.metadata?.release_date ?? game.release_date;
+    return {
+      title: game.metadata?.title || game.title,
+      sort_title: game.sort_title,
+      release_year: releaseDate
+        ? String(new Date(releaseDate).getUTCFullYear())
+        : undefined,
+      version: game.version,
+      edition: game.edition,
+      early_access:
+        (game.metadata?.early_access ?? game.early_access) ? "EA" : undefined,
+      type: game.type !== GameType.UNDETECTABLE ? game.type : undefined,
+      type_short: findKey(
+        this.gameTypeOverrides,
+        (gameType) => gameType === game.type,
+      ),
+      ext: isFolderGame ? undefined : extname(game.file_path).slice(1),
+    };
+  }
+
+  /** Finds the sidecar files next to a game file. */
+  private async findSidecarPaths(
+    gamePath: string,
+    isFolderGame: boolean,
+  ): Promise<string[]> {
+    const name = isFolderGame
+      ? basename(gamePath)
+      : basename(gamePath, extname(gamePath));
+    const sidecarPaths: string[] = [];
+    for (const extension of SidecarFile.extensions) {
+      const sidecarPath = path.join(path.dirname(gamePath), name + extension);
+      if (await pathExists(sidecarPath)) {
+        sidecarPaths.push(sidecarPath);
+      }
+    }
+    return sidecarPaths;
   }
 
   /**
    * Uploads a game file to the files volume.
-   * Only supported file formats are accepted. The filename must be valid.
-   * Write permissions on the files volume are required.
+   * Multer stores the file in the upload staging area first, so it never has
+   * to be held in memory. Only supported file formats are accepted. The
+   * filename must be valid. Write permissions on the files volume are required.
    */
   public async upload(file: Express.Multer.File): Promise<{ path: string }> {
-    const filename = filenameSanitizer(file.originalname);
+    try {
+      const filename = this.validateUploadFilename(file.originalname);
+      return await this.importFile(file.path, filename);
+    } finally {
+      // Clean up the staged file if it has not been moved into the library
+      if (file.path) {
+        await remove(file.path);
+      }
+    }
+  }
+
+  /**
+   * Sanitizes the filename of an uploaded game file and checks that its
+   * format is supported. Returns the sanitized filename.
+   */
+  public validateUploadFilename(originalname: string): string {
+    const filename = filenameSanitizer(originalname ?? "");
 
     if (!filename) {
       throw new BadRequestException(
@@ -246,23 +774,34 @@ export class FilesService implements OnApplicationBootstrap {
       );
     }
 
+    const { supportedFormats } = this.getUploadLibraryOrFail();
     const ext = toLower(path.extname(filename));
-    if (!this.supportedFormatsSet.has(ext)) {
+    if (!supportedFormats.has(ext)) {
       throw new BadRequestException(
-        `Unsupported file format "${ext}". Supported formats: ${Array.from(this.supportedFormatsSet).join(", ")}`,
+        `Unsupported file format "${ext}". Supported formats: ${Array.from(supportedFormats).join(", ")}`,
       );
     }
 
-    // Verify write permissions on the files volume
+    return filename;
+  }
+
+  /**
+   * Checks that a file with the given name can be written into the game
+   * library and returns its target path.
+   */
+  public async prepareUploadTarget(filename: string): Promise<string> {
+    const library = this.getUploadLibraryOrFail();
+
+    // Verify write permissions on the library
     try {
-      await access(configuration.VOLUMES.FILES, constants.W_OK);
+      await access(library.path, constants.W_OK);
     } catch {
       throw new BadRequestException(
-        `The server does not have write permissions on the files volume "${configuration.VOLUMES.FILES}". Game upload requires write access.`,
+        `The server does not have write permissions on the library "${library.path}". Game upload requires write access.`,
       );
     }
 
-    const targetPath = path.join(configuration.VOLUMES.FILES, filename);
+    const targetPath = path.join(library.path, filename);
 
     // Prevent overwriting existing files
     if (await pathExists(targetPath)) {
@@ -271,27 +810,235 @@ export class FilesService implements OnApplicationBootstrap {
       );
     }
 
-    await writeFile(targetPath, file.buffer);
+    return targetPath;
+  }
+
+  /**
+   * Moves a completely uploaded file from the staging area into the game
+   * library and indexes it.
+   */
+  public async importFile(
+    sourcePath: string,
+    filename: string,
+  ): Promise<{ path: string }> {
+    const targetPath = await this.prepareUploadTarget(filename);
+
+    // The watcher skips the file meanwhile, so it isn't indexed twice at once
+    this.importingPaths.add(targetPath);
+    try {
+      await move(sourcePath, targetPath);
+
+      // Trigger indexing of the newly uploaded file
+      const stats = await stat(targetPath);
+
+      this.logger.log({
+        message: "Game file uploaded successfully.",
+        filename,
+        size: stats.size,
+        path: targetPath,
+      });
+
+      await this.index(targetPath, stats);
+    } finally {
+      this.importingPaths.delete(targetPath);
+    }
+
+    return { path: targetPath };
+  }
+
+  /**
+   * Returns the name a new game file is imported under, rendered with the
+   * rename template from the information parsed from its filename.
+   */
+  public getImportFilename(filename: string): string {
+    const game = {
+      ...this.parseFilename(filename),
+      file_path: filename,
+    } as GamevaultGame;
+    return this.parseFilenameTemplate(
+      configuration.GAMES.RENAME_TEMPLATE,
+    ).render(this.getFilenameTemplateValues(game, false));
+  }
+
+  /**
+   * Returns the library uploaded game files are stored in, which is the first
+   * library that is not read-only.
+   */
+  public findUploadLibrary() {
+    return this.libraries.find((library) => !library.read_only);
+  }
+
+  /** Same as {@link findUploadLibrary}, but throws if all are read-only. */
+  public getUploadLibraryOrFail() {
+    const library = this.findUploadLibrary();
+    if (!library) {
+      throw new BadRequestException(
+        "All game libraries are read-only. Game upload requires a writable library.",
+      );
+    }
+    return library;
+  }
+
+  /**
+   * Handles a file watcher event. Changes to files inside a folder game
+   * re-index the whole folder instead of the single file.
+   */
+  private async handleFileEvent(path: string, stats?: Stats) {
+    if (this.importingPaths.has(path)) {
+      this.logger.debug({
+        message: "Skipping file event of a file that is being imported.",
+        path,
+      });
+      return;
+    }
+    if (IgnoreFile.isIgnoreFilePath(path)) {
+      return this.handleIgnoreFileEvent(path);
+    }
+    const folderGamePath = await this.findFolderGame(path);
+    if (folderGamePath) {
+      this.scheduleFolderGameIndex(folderGamePath);
+      return;
+    }
+    if (SidecarFile.isSidecarPath(path)) {
+      return this.handleSidecarFileEvent(path);
+    }
+    return this.index(path, stats);
+  }
 
+  /**
+   * Re-reads the directory of an ignore file after it changed. Indexes games
+   * that are no longer ignored and checks the integrity if games are ignored
+   * now, which soft-deletes them.
+   */
+  private async handleIgnoreFileEvent(ignoreFilePath: string) {
+    this.ignoreFileCache.clear();
+    // Folder games are read as a whole, so their parent directory is read
+    const directory = path.dirname(
+      (await this.findFolderGame(ignoreFilePath)) ?? ignoreFilePath,
+    );
     this.logger.log({
-      message: "Game file uploaded successfully.",
-      filename,
-      size: file.size,
-      path: targetPath,
+      message: "Ignore file changed. Re-indexing the files of its directory.",
+      path: ignoreFilePath,
     });
 
-    // Trigger indexing of the newly uploaded file
-    const stats = await stat(targetPath);
-    await this.index(targetPath, stats);
+    const library = this.getLibrary(ignoreFilePath);
+    const files = await this.readAllFiles([library], directory);
+    const gamePaths = (
+      await this.gamesService.find({
+        loadDeletedEntities: false,
+        loadRelations: false,
+        select: ["file_path"],
+      })
+    ).map((game) => game.file_path);
+
+    const filePaths = new Set(files.map((file) => file.path));
+    if (
+      gamePaths.some(
+        (gamePath) =>
+          this.isInsideDirectory(gamePath, directory) &&
+          this.getLibrary(gamePath) === library &&
+          !filePaths.has(gamePath),
+      )
+    ) {
+      this.runDebouncedIntegrityCheck();
+    }
 
-    return { path: targetPath };
+    const indexedPaths = new Set(gamePaths);
+    for (const file of files.filter((file) => !indexedPaths.has(file.path))) {
+      await this.index(file.path, { size: Number(file.size) } as Stats, true);
+    }
   }
 
-  /** Indexes a single file and updates the database accordingly. */
-  private async index(path: string, stats?: Stats, skipIntegrityCheck = false) {
+  /**
+   * Re-indexes the game a changed sidecar file belongs to, which re-applies
+   * the sidecar file.
+   */
+  private async handleSidecarFileEvent(sidecarPath: string) {
+    const directory = path.dirname(sidecarPath);
+    const gameName = SidecarFile.getGameName(sidecarPath);
+    const entries: string[] = await readdir(directory).catch(() => []);
+
+    for (const entry of entries) {
+      const gamePath = path.join(directory, entry);
+      if (entry === gameName && (await this.isFolderGame(gamePath))) {
+        this.scheduleFolderGameIndex(gamePath);
+        return;
+      }
+      if (
+        basename(entry, extname(entry)) === gameName &&
+        gamePath !== sidecarPath &&
+        this.isValidFilePath(gamePath)
+      ) {
+        // The game may have been moved or deleted in the meantime
+        return this.index(
+          gamePath,
+          await stat(gamePath).catch(() => undefined),
+        );
+      }
+    }
+
+    this.logger.debug({
+      message: "Sidecar file does not belong to any game. Ignoring it.",
+      path: sidecarPath,
+    });
+  }
+
+  /**
+   * Indexes a folder game once its contents have stopped changing for a few
+   * seconds, so copying a folder doesn't re-index it for every single file.
+   */
+  private scheduleFolderGameIndex(folderGamePath: string) {
+    let job = this.folderGameIndexJobs.get(folderGamePath);
+    if (!job) {
+      job = debounce(async () => {
+        this.folderGameIndexJobs.delete(folderGamePath);
+        try {
+          const archive = await TarArchive.fromPath(folderGamePath);
+          await this.index(folderGamePath, {
+            size: archive.contentSize,
+          } as Stats);
+        } catch (error) {
+          this.logger.debug({
+            message: "Folder game could not be read. Checking integrity.",
+            path: folderGamePath,
+            error,
+          });
+          this.runDebouncedIntegrityCheck();
+        }
+      }, 5000);
+      this.folderGameIndexJobs.set(folderGamePath, job);
+    }
+    job();
+  }
+
+  /**
+   * Indexes a single file and updates the database accordingly. The outcome
+   * is counted in the given index job and failures are recorded in it.
+   * Resolves to false if the file failed to index.
+   */
+  private async index(
+    path: string,
+    stats?: Stats,
+    skipIntegrityCheck = false,
+    job?: IndexJob,
+  ): Promise<boolean> {
     const size = BigInt(stats?.size || 0);
-    if (!size || !path || !this.isValidFilePath(path)) {
-      return;
+    if (!size || !path) {
+      return true;
+    }
+
+    const isFolderGame = await this.isFolderGame(path);
+    if (!isFolderGame && !this.isValidFilePath(path)) {
+      return true;
+    }
+
+    if (this.isIgnored(path, isFolderGame)) {
+      this.logger.debug({
+        message: "Indexer ignoring file.",
+        reason: "Matches a rule of a .gamevaultignore file.",
+        path,
+      });
+      return true;
     }
 
     // Log the initial ingestion message
@@ -305,14 +1052,20 @@ export class FilesService implements OnApplicationBootstrap {
     const filename = basename(path);
     gameToIndex.size = size;
     gameToIndex.file_path = path;
-    gameToIndex.title = this.extractTitle(filename);
+    gameToIndex.library = this.getLibrary(path)?.name;
+    const parsedFilename = this.parseFilename(filename, isFolderGame);
+    gameToIndex.title = parsedFilename.title;
     gameToIndex.sort_title = this.gamesService.generateSortTitle(
       gameToIndex.title,
     );
-    gameToIndex.release_date = this.extractReleaseYear(filename);
-    gameToIndex.version = this.extractVersion(filename);
-    gameToIndex.early_access = this.extractEarlyAccessFlag(filename);
-
+    gameToIndex.release_date = parsedFilename.release_date;
+    gameToIndex.version = parsedFilename.version;
+    gameToIndex.edition = parsedFilename.edition;
+    gameToIndex.early_access = parsedFilename.early_access;
+    gameToIndex.addon_type = parsedFilename.addon_type;
+
+    let outcome: "added" | "updated" | "restored" | undefined;
+    let failed = false;
     try {
       // Check if the game already exists in the database
       const existingGameTuple: [GameExistence, GamevaultGame] =
@@ -337,41 +1090,156 @@ export class FilesService implements OnApplicationBootstrap {
       // Handle different cases of game existence
       switch (existingGameTuple[0]) {
         case GameExistence.EXISTS: {
-          // If it exists, just update the metadata
-          this.metadataService.addUpdateMetadataJob(existingGame.id);
+          // If it exists, just update the library and the metadata
+          if (
+            gameToIndex.library &&
+            gameToIndex.library !== existingGame.library
+          ) {
+            await this.gamesService.updateLibrary(
+              existingGame.id,
+              gameToIndex.library,
+            );
+          }
+          // Previous versions share the metadata of their game
+          if (!existingGame.version_of) {
+            await this.applySidecarFile(existingGame.id, path, isFolderGame);
+            this.metadataService.addUpdateMetadataJob(existingGame.id);
+          }
+          if (!existingGame.file_hash) {
+            this.fileHashingService.addHashJob(existingGame.id);
+          }
           break;
         }
 
         case GameExistence.DOES_NOT_EXIST: {
+          // The file may be a moved or renamed copy of an indexed game
+          const movedGame = await this.findMovedGame(gameToIndex);
+          if (movedGame) {
+            this.logger.log({
+              message:
+                "File content matches a moved or renamed game. Re-linking it.",
+              game: logGamevaultGame(gameToIndex),
+              existingGame: logGamevaultGame(movedGame),
+            });
+            if (movedGame.deleted_at) {
+              await this.gamesService.restore(movedGame.id);
+            }
+            outcome = movedGame.deleted_at ? "restored" : "updated";
+            const fileMetadata = await this.analyzeFile(
+              gameToIndex,
+              isFolderGame,
+            );
+            const updated = await this.updateFileInfo(
+              movedGame.id,
+              gameToIndex,
+            );
+            const fileMetadataChanged =
+              await this.metadataService.updateFileMetadata(
+                updated.id,
+                fileMetadata,
+                false,
+              );
+            await this.applySidecarFile(updated.id, path, isFolderGame);
+            this.metadataService.addUpdateMetadataJob(
+              updated.id,
+              fileMetadataChanged,
+            );
+            break;
+          }
+
           // If it doesn't exist, detect the type and save it
-          gameToIndex.type = await this.detectType(gameToIndex.file_path);
+          const fileMetadata = await this.analyzeFile(
+            gameToIndex,
+            isFolderGame,
+          );
           const saved = await this.gamesService.save(gameToIndex);
-          this.metadataService.addUpdateMetadataJob(saved.id);
+          outcome = "added";
+          // The metadata job merges the metadata once the providers are updated
+          const fileMetadataChanged =
+            await this.metadataService.updateFileMetadata(
+              saved.id,
+              fileMetadata,
+              false,
+            );
+          await this.applySidecarFile(saved.id, path, isFolderGame);
+          this.metadataService.addUpdateMetadataJob(
+            saved.id,
+            fileMetadataChanged,
+          );
+          if (!saved.file_hash) {
+            this.fileHashingService.addHashJob(saved.id);
+          }
           break;
         }
 
         case GameExistence.EXISTS_BUT_DELETED_IN_DATABASE: {
           // Restore soft-deleted game and update its information
           const restoredGame = await this.gamesService.restore(existingGame.id);
-          gameToIndex.type = await this.detectType(gameToIndex.file_path);
+          outcome = "restored";
+          const fileMetadata = await this.analyzeFile(
+            gameToIndex,
+            isFolderGame,
+          );
           const updated = await this.updateFileInfo(
             restoredGame.id,
             gameToIndex,
           );
-          this.metadataService.addUpdateMetadataJob(updated.id);
+          const fileMetadataChanged =
+            await this.metadataService.updateFileMetadata(
+              updated.id,
+              fileMetadata,
+              false,
+            );
+          await this.applySidecarFile(updated.id, path, isFolderGame);
+          this.metadataService.addUpdateMetadataJob(
+            updated.id,
+            fileMetadataChanged,
+          );
+          if (!updated.file_hash) {
+            this.fileHashingService.addHashJob(updated.id);
+          }
           break;
         }
 
         case GameExistence.EXISTS_BUT_ALTERED: {
+          if (await this.isNewVersion(existingGame, gameToIndex)) {
+            await this.addVersion(existingGame.id, gameToIndex, isFolderGame);
+            outcome = "added";
+            break;
+          }
+
           // Update the information for an altered duplicate
-          gameToIndex.type = await this.detectType(gameToIndex.file_path);
+          const fileMetadata = await this.analyzeFile(
+            gameToIndex,
+            isFolderGame,
+          );
           const updated = await this.updateFileInfo(
             existingGame.id,
             gameToIndex,
           );
-          this.metadataService.addUpdateMetadataJob(updated.id);
+          outcome = "updated";
+          // Previous versions aren't queued, so their metadata is merged here
+          const fileMetadataChanged =
+            await this.metadataService.updateFileMetadata(
+              updated.id,
+              fileMetadata,
+              !!existingGame.version_of,
+            );
+          if (!existingGame.version_of) {
+            await this.applySidecarFile(updated.id, path, isFolderGame);
+            this.metadataService.addUpdateMetadataJob(
+              updated.id,
+              fileMetadataChanged,
+            );
+          }
+          if (!updated.file_hash) {
+            this.fileHashingService.addHashJob(updated.id);
+          }
         }
       }
+      if (job && outcome) {
+        job[outcome]++;
+      }
     } catch (error) {
       // Log an error message if something goes wrong
       this.logger.error({
@@ -379,11 +1247,176 @@ export class FilesService implements OnApplicationBootstrap {
         game: { id: gameToIndex.id, path },
         error,
       });
+      if (job) {
+        await this.indexJobsService.addError(job, path, error);
+      }
+      failed = true;
     }
 
     if (!skipIntegrityCheck) {
       this.runDebouncedIntegrityCheck();
     }
+    return !failed;
+  }
+
+  /**
+   * Checks if a file is another version of an indexed game, i.e. it has the
+   * same title and edition but another version than the game's file, which
+   * still exists. Otherwise the file is a renamed copy of the game's file.
+   */
+  private async isNewVersion(
+    game: GamevaultGame,
+    gameToIndex: GamevaultGame,
+  ): Promise<boolean> {
+    return (
+      !game.version_of &&
+      game.file_path !== gameToIndex.file_path &&
+      !!game.version &&
+      !!gameToIndex.version &&
+      this.gamesService.compareVersions(game.version, gameToIndex.version) !==
+        0 &&
+      (game.edition ?? null) === (gameToIndex.edition ?? null) &&
+      (await pathExists(game.file_path))
+    );
+  }
+
+  /**
+   * Adds a file as a version of a game. A newer file becomes the game's file
+   * and the current one is kept as a previous version, so progresses and
+   * bookmarks stay on the game. Older files are added as previous versions.
+   */
+  private async addVersion(
+    gameId: number,
+    gameToIndex: GamevaultGame,
+    isFolderGame: boolean,
+  ): Promise<void> {
+    const game = await this.gamesService.findOneByGameIdOrFail(gameId, {
+      loadDeletedEntities: false,
+    });
+    const fileMetadata = await this.analyzeFile(gameToIndex, isFolderGame);
+
+    if (
+      this.gamesService.compareVersions(gameToIndex.version, game.version) < 0
+    ) {
+      gameToIndex.version_of = { id: game.id } as GamevaultGame;
+      const saved = await this.gamesService.save(gameToIndex);
+      await this.metadataService.updateFileMetadata(saved.id, fileMetadata);
+      if (!saved.file_hash) {
+        this.fileHashingService.addHashJob(saved.id);
+      }
+      this.logger.log({
+        message: "Added file as a previous version of a game.",
+        game: logGamevaultGame(game),
+        version: logGamevaultGame(saved),
+      });
+      return;
+    }
+
+    const previousVersion = new GamevaultGame();
+    previousVersion.file_path = game.file_path;
+    previousVersion.size = game.size;
+    previousVersion.library = game.library;
+    previousVersion.file_hash = game.file_hash;
+    previousVersion.title = game.title;
+    previousVersion.sort_title = game.sort_title;
+    previousVersion.release_date = game.release_date;
+    previousVersion.version = game.version;
+    previousVersion.edition = game.edition;
+    previousVersion.early_access = game.early_access;
+    previousVersion.type = game.type;
+    previousVersion.version_of = { id: game.id } as GamevaultGame;
+
+    // The game's file path has to be free before the previous version is saved
+    const updated = await this.updateFileInfo(game.id, gameToIndex);
+    const savedPreviousVersion = await this.gamesService.save(previousVersion);
+    const fileMetadataChanged = await this.metadataService.updateFileMetadata(
+      updated.id,
+      fileMetadata,
+      false,
+    );
+    await this.applySidecarFile(
+      updated.id,
+      gameToIndex.file_path,
+      isFolderGame,
+    );
+    this.metadataService.addUpdateMetadataJob(updated.id, fileMetadataChanged);
+    if (!updated.file_hash) {
+      this.fileHashingService.addHashJob(updated.id);
+    }
+    this.logger.log({
+      message:
+        "Updated game to a new version. Kept its file as a previous version.",
+      game: logGamevaultGame(updated),
+      version: logGamevaultGame(savedPreviousVersion),
+    });
+  }
+
+  /**
+   * Makes the newest previous version of a game whose file is missing the
+   * game's file, so progresses and bookmarks stay on the game. Returns false
+   * if the game has no previous version to take its place.
+   */
+  private async promotePreviousVersion(game: GamevaultGame): Promise<boolean> {
+    const [, ...previousVersions] = await this.gamesService.findVersions(
+      game.id,
+    );
+    for (const previousVersion of previousVersions) {
+      if (!(await pathExists(previousVersion.file_path))) {
+        continue;
+      }
+      const isFolderGame = await this.isFolderGame(previousVersion.file_path);
+      const fileMetadata = await this.analyzeFile(
+        previousVersion,
+        isFolderGame,
+      );
+      // The file path has to be free before the game can take it over
+      await this.gamesService.removeVersion(previousVersion.id);
+      const updated = await this.updateFileInfo(game.id, previousVersion);
+      await this.gamesService.updateMissingSince(game.id, null);
+      await this.metadataService.updateFileMetadata(updated.id, fileMetadata);
+      await this.applySidecarFile(
+        updated.id,
+        previousVersion.file_path,
+        isFolderGame,
+      );
+      this.logger.log({
+        message:
+          "Game file is missing. Reverted the game to its previous version.",
+        game: logGamevaultGame(updated),
+        missing_path: game.file_path,
+      });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Reads the sidecar file of a game and applies it as a metadata layer.
+   * Sidecar files that can't be parsed are skipped, keeping the current layer.
+   * Afterwards, games marked as add-ons by their file or sidecar file are
+   * linked to their base game.
+   */
+  private async applySidecarFile(
+    gameId: number,
+    gamePath: string,
+    isFolderGame: boolean,
+  ): Promise<void> {
+    let sidecar: SidecarFile | undefined;
+    try {
+      sidecar = await SidecarFile.find(gamePath, isFolderGame);
+      await this.metadataService.updateSidecarMetadata(gameId, sidecar);
+    } catch (error) {
+      this.logger.warn({
+        message: "Failed to apply sidecar file of a game. Skipping it.",
+        game: { id: gameId, path: gamePath },
+        error,
+      });
+    }
+    await this.gamesService.linkAddon(
+      gameId,
+      sidecar?.addon_type,
+      sidecar?.base_game,
+    );
   }
 
   /** Updates the game information with the information provided by the file. */
@@ -395,7 +1428,22 @@ export class FilesService implements OnApplicationBootstrap {
       loadDeletedEntities: false,
     });
 
+    // Keep the known content hash only if the file can't have changed
+    const contentMayHaveChanged =
+      gameToUpdate.file_path !== updatesToApply.file_path ||
+      gameToUpdate.size?.toString() !== updatesToApply.size?.toString();
+    gameToUpdate.file_hash =
+      updatesToApply.file_hash ??
+      (contentMayHaveChanged ? null : gameToUpdate.file_hash);
+    if (contentMayHaveChanged) {
+      // The archive is tested again by the next verification run
+      gameToUpdate.verification_state = null;
+      gameToUpdate.verified_at = null;
+      gameToUpdate.verification_error = null;
+    }
+
     gameToUpdate.file_path = updatesToApply.file_path;
+    gameToUpdate.library = updatesToApply.library;
     gameToUpdate.title = updatesToApply.title;
     gameToUpdate.sort_title = this.gamesService.generateSortTitle(
       updatesToApply.title,
@@ -403,8 +1451,12 @@ export class FilesService implements OnApplicationBootstrap {
     gameToUpdate.release_date = updatesToApply.release_date;
     gameToUpdate.size = updatesToApply.size;
     gameToUpdate.version = updatesToApply.version;
+    gameToUpdate.edition = updatesToApply.edition;
     gameToUpdate.early_access = updatesToApply.early_access;
     gameToUpdate.type = updatesToApply.type;
+    // Games marked as add-ons by an editor or a sidecar file stay marked
+    gameToUpdate.addon_type =
+      updatesToApply.addon_type ?? gameToUpdate.addon_type;
 
     const updatedGame = await this.gamesService.save(gameToUpdate);
     this.logger.log({
@@ -414,12 +1466,196 @@ export class FilesService implements OnApplicationBootstrap {
     return updatedGame;
   }
 
-  /** Checks if a given file path is valid and supported by the indexer. */
-  private isValidFilePath(filename: string) {
+  /**
+   * Finds a hashed game with identical content whose file has been moved,
+   * renamed or deleted. The hash of the new file is only calculated when
+   * such candidates exist and is stored on the game to index.
+   */
+  private async findMovedGame(
+    gameToIndex: GamevaultGame,
+  ): Promise<GamevaultGame | undefined> {
+    if (!configuration.GAMES.HASHING_ENABLED) {
+      return undefined;
+    }
+
+    const candidates: GamevaultGame[] = [];
+    for (const candidate of await this.gamesService.findHashedBySize(
+      gameToIndex.size,
+    )) {
+      if (candidate.deleted_at || !(await pathExists(candidate.file_path))) {
+        candidates.push(candidate);
+      }
+    }
+
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    gameToIndex.file_hash = await this.fileHashingService.calculateHash(
+      gameToIndex.file_path,
+    );
+    // Prefer games that are still active over soft-deleted ones
+    return candidates
+      .filter((candidate) => candidate.file_hash === gameToIndex.file_hash)
+      .sort((a, b) => Number(!!a.deleted_at) - Number(!!b.deleted_at))[0];
+  }
+
+  /**
+   * Checks if a directory is a folder game, i.e. it contains the folder game
+   * marker file or its name matches the folder game name pattern.
+   */
+  private async isFolderGame(directoryPath: string): Promise<boolean> {
+    if (!this.getLibrary(directoryPath) || this.isInternalPath(directoryPath)) {
+      return false;
+    }
+
+    if (
+      await pathExists(
+        path.join(directoryPath, configuration.GAMES.FOLDER_GAMES_MARKER_FILE),
+      )
+    ) {
+      return true;
+    }
+
+    if (!this.folderGameNamePattern?.test(basename(directoryPath))) {
+      return false;
+    }
+    return (await stat(directoryPath).catch(() => undefined))?.isDirectory();
+  }
+
+  /**
+   * Finds the outermost folder game containing the given path, if any.
+   */
+  private async findFolderGame(filePath: string): Promise<string | undefined> {
+    const library = this.getLibrary(filePath);
+    let folderGamePath: string | undefined;
+    let directory = path.dirname(filePath);
+    while (library && this.isInsideDirectory(directory, library.path)) {
+      if (await this.isFolderGame(directory)) {
+        folderGamePath = directory;
+      }
+      directory = path.dirname(directory);
+    }
+    return folderGamePath;
+  }
+
+  /**
+   * Finds the library a path lies in. Nested libraries take precedence over
+   * the libraries containing them.
+   */
+  private getLibrary(filePath: string) {
+    return this.libraries
+      .filter((library) => this.isInsideDirectory(filePath, library.path))
+      .sort((a, b) => b.path.length - a.path.length)[0];
+  }
+
+  /**
+   * Checks if a path belongs to another library nested in the given one,
+   * which indexes it instead.
+   */
+  private isInNestedLibrary(
+    filePath: string,
+    library: { path: string },
+  ): boolean {
+    return this.libraries.some(
+      (other) =>
+        this.isInsideDirectory(other.path, library.path) &&
+        (other.path === filePath ||
+          this.isInsideDirectory(filePath, other.path)),
+    );
+  }
+
+  /** Checks if a path lies strictly within the given directory. */
+  private isInsideDirectory(childPath: string, directory: string): boolean {
+    const relativePath = path.relative(directory, childPath);
+    return (
+      !!relativePath &&
+      relativePath.split(path.sep)[0] !== ".." &&
+      !path.isAbsolute(relativePath)
+    );
+  }
+
+  /**
+   * Checks if a path is ignored by the `.gamevaultignore` files of its
+   * library, from the library root down to the path's directory. Rules of
+   * deeper ignore files take precedence, and everything inside an ignored
+   * directory is ignored.
+   */
+  private isIgnored(filePath: string, isDirectory = false): boolean {
+    const library = this.getLibrary(filePath);
+    if (!library) {
+      return false;
+    }
+
+    const segments = path.relative(library.path, filePath).split(path.sep);
+    const ignoreFiles: IgnoreFile[] = [];
+    let currentPath = library.path;
+    for (const [index, segment] of segments.entries()) {
+      const ignoreFile = this.getIgnoreFile(currentPath);
+      if (ignoreFile) {
+        ignoreFiles.push(ignoreFile);
+      }
+      currentPath = path.join(currentPath, segment);
+
+      const isLastSegment = index === segments.length - 1;
+      let ignored = false;
+      for (const file of ignoreFiles) {
+        ignored =
+          file.matches(currentPath, !isLastSegment || isDirectory) ?? ignored;
+      }
+      if (ignored) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Reads the ignore file of a directory, caching the result. */
+  private getIgnoreFile(directory: string): IgnoreFile | undefined {
+    if (!this.ignoreFileCache.has(directory)) {
+      try {
+        this.ignoreFileCache.set(
+          directory,
+          IgnoreFile.readSync(directory) ?? null,
+        );
+      } catch (error) {
+        this.logger.warn({
+          message: "Failed to read ignore file. Ignoring it.",
+          directory,
+          error,
+        });
+        this.ignoreFileCache.set(directory, null);
+      }
+    }
+    return this.ignoreFileCache.get(directory) ?? undefined;
+  }
+
+  /**
+   * Checks if a path lies within the server-internal directory of its
+   * library, which must never be indexed.
+   */
+  private isInternalPath(filePath: string): boolean {
+    const relativePath = path.relative(
+      this.getLibrary(filePath)?.path ?? configuration.VOLUMES.FILES,
+      filePath,
+    );
+    return relativePath.split(path.sep)[0] === globals.INTERNAL_DIRECTORY_NAME;
+  }
+
+  /**
+   * Checks if a given file path is valid and supported by the indexer. The
+   * supported formats are those of the library the file lies in.
+   */
+  private isValidFilePath(
+    filename: string,
+    library = this.getLibrary(filename),
+  ) {
     const invalidCharacters = /[/<>:"\\|?*]/;
     const actualFilename = basename(filename);
+    const supportedFormats =
+      library?.supportedFormats ?? this.supportedFormatsSet;
 
-    if (!this.supportedFormatsSet.has(toLower(path.extname(actualFilename)))) {
+    if (!supportedFormats.has(toLower(path.extname(actualFilename)))) {
       this.logger.debug({
         message: `Indexer ignoring invalid filename.`,
         reason: "Unsupported file extension.",
@@ -440,13 +1676,106 @@ export class FilesService implements OnApplicationBootstrap {
     return true;
   }
 
+  /**
+   * Parses the title, version, release year, early access flag, edition,
+   * type override and add-on type of a game from its file path. The configured parsing
+   * profiles are matched against the filename in order. Fields that the
+   * first matching profile does not capture fall back to the built-in
+   * naming convention, which is used entirely if no profile matches.
+   */
+  public parseFilename(filePath: string, isFolderGame = false): ParsedFilename {
+    const filename = path.basename(filePath);
+    const name = isFolderGame
+      ? filename
+      : path.basename(filename, path.extname(filename));
+
+    for (const profile of this.parsingProfiles) {
+      const match = profile.regex.exec(name);
+      if (!match) {
+        continue;
+      }
+
+      // Named groups that did not participate in the match are undefined.
+      const groups = match.groups ?? {};
+      return {
+        profile: profile.name,
+        title:
+          this.normalizeParsedTitle(groups.title) ??
+          this.extractTitle(filename, isFolderGame),
+        version: groups.version || this.extractVersion(filename),
+        release_date: groups.year
+          ? this.parseReleaseYear(groups.year)
+          : this.extractReleaseYear(filename),
+        early_access:
+          "early_access" in groups
+            ? !!groups.early_access
+            : this.extractEarlyAccessFlag(filename),
+        edition: groups.edition?.trim() || undefined,
+        type: groups.type
+          ? this.parseGameType(groups.type)
+          : this.extractTypeOverride(filePath),
+        addon_type: groups.addon
+          ? this.addonTags[groups.addon.trim().toUpperCase()]
+          : this.extractAddonType(filename),
+      };
+    }
+
+    return {
+      title: this.extractTitle(filename, isFolderGame),
+      version: this.extractVersion(filename),
+      release_date: this.extractReleaseYear(filename),
+      early_access: this.extractEarlyAccessFlag(filename),
+      type: this.extractTypeOverride(filePath),
+      addon_type: this.extractAddonType(filename),
+    };
+  }
+
+  /**
+   * Turns a captured title into a readable one. Titles without whitespace,
+   * as used by scene releases, have their dots and underscores replaced.
+   */
+  private normalizeParsedTitle(title?: string): string | undefined {
+    if (!title?.trim()) {
+      return undefined;
+    }
+    return (/\s/.test(title.trim()) ? title : title.replace(/[._]+/g, " "))
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  /** Parses a captured four-digit release year. */
+  private parseReleaseYear(year: string): Date | undefined {
+    return /^\d{4}$/.test(year.trim()) ? new Date(year.trim()) : undefined;
+  }
+
+  /**
+   * Parses a captured game type, given either as its name (e.g.
+   * 'WINDOWS_PORTABLE') or its override code (e.g. 'W_P').
+   */
+  private parseGameType(type: string): GameType | undefined {
+    const normalized = type.trim().toUpperCase();
+    return (
+      this.gameTypeOverrides[normalized] ??
+      Object.values(GameType).find((gameType) => gameType === normalized)
+    );
+  }
+
+  /**
+   * Extracts the game type override (e.g. '(W_P)') from a given file path
+   * string using a regular expression.
+   */
+  private extractTypeOverride(filePath: string): GameType | undefined {
+    const match = RegExp(/\((W_P|W_S|L_P|W_SW|L_SW)\)/).exec(filePath);
+    return match ? this.gameTypeOverrides[match[1]] : undefined;
+  }
+
   /**
    * Extracts the game title from a given file name string using a
    * regular expression.
    */
-  private extractTitle(filePath: string): string {
+  private extractTitle(filePath: string, isFolderGame = false): string {
     return path
-      .basename(filePath, path.extname(filePath))
+      .basename(filePath, isFolderGame ? undefined : path.extname(filePath))
       .replace(/\([^)]*\)/g, "")
       .replace(/\s+/g, " ")
       .trim();
@@ -484,27 +1813,25 @@ export class FilesService implements OnApplicationBootstrap {
     return /\(EA\)/.test(filePath);
   }
 
+  /**
+   * Extracts the add-on type from a tag (e.g. '(DLC)', '(Patch)' or '(OST)')
+   * in a given file path string using a regular expression.
+   */
+  private extractAddonType(filePath: string): GameAddonType | undefined {
+    const match = RegExp(/\((DLC|PATCH|UPDATE|OST|SOUNDTRACK|EXTRAS?)\)/i).exec(
+      filePath,
+    );
+    return match ? this.addonTags[match[1].toUpperCase()] : undefined;
+  }
+
   /** Detects if any of the given file paths match common Windows installer patterns. */
   private detectWindowsSetupExecutable(filepaths: string[]): boolean {
-    const windowsInstallerPatterns: { regex: RegExp; description: string }[] = [
-      { regex: /^setup\.exe$/i, description: "setup.exe" },
-      { regex: /^autorun\.exe$/i, description: "autorun.exe" },
-      { regex: /^setup_.*\.exe$/i, description: "setup_*.exe" },
-      { regex: /^setup-.*\.exe$/i, description: "setup-*.exe" },
-      { regex: /^install\.exe$/i, description: "install.exe" },
-      { regex: /^unarc\.exe$/i, description: "unarc.exe" },
-      {
-        regex: /^(?!.*\bredist\b).*\.msi$/,
-        description: "*.msi (except redistributables)",
-      },
-    ];
-
     const detectedPatterns: string[] = [];
 
     for (const path of filepaths) {
       const fileName = toLower(basename(path));
 
-      for (const pattern of windowsInstallerPatterns) {
+      for (const pattern of this.windowsInstallerPatterns) {
         if (pattern.regex.test(fileName)) {
           this.logger.debug({
             message: `File matched Windows Installer Game Type pattern.`,
@@ -519,52 +1846,218 @@ export class FilesService implements OnApplicationBootstrap {
     return detectedPatterns.length > 0;
   }
 
-  /** Detects the game type based on the file path and its contents. */
-  private async detectType(path: string): Promise<GameType> {
-    try {
-      if (/\(W_P\)/.test(path)) {
-        this.logger.debug({
-          message: `Detected game type as ${GameType.WINDOWS_PORTABLE}.`,
-          reason: "(W_P) override in filename.",
-          game: { id: undefined, path: path },
-        });
-        return GameType.WINDOWS_PORTABLE;
-      }
+  /**
+   * Detects the type of a game, suggests its launch, installer and
+   * uninstaller executables and detects its dependencies based on the
+   * executables found in its file.
+   */
+  private async analyzeFile(
+    game: GamevaultGame,
+    isFolderGame: boolean,
+  ): Promise<Partial<GameMetadata>> {
+    const executables = await this.findExecutables(
+      game.file_path,
+      isFolderGame,
+    );
+    game.type = await this.detectType(
+      game.file_path,
+      isFolderGame,
+      executables,
+    );
+    const defaultType = this.getLibrary(game.file_path)?.default_type;
+    if (game.type === GameType.UNDETECTABLE && defaultType) {
+      game.type = this.parseGameType(defaultType) ?? game.type;
+    }
+    return {
+      ...this.suggestExecutables(executables, game.title, game.type),
+      dependencies: this.detectDependencies(executables),
+    };
+  }
 
-      if (/\(W_S\)/.test(path)) {
-        this.logger.debug({
-          message: `Detected game type as ${GameType.WINDOWS_SETUP}.`,
-          reason: "(W_S) override in filename.",
-          game: { id: undefined, path: path },
-        });
-        return GameType.WINDOWS_SETUP;
+  /**
+   * Detects the redistributables a game requires from the installers of known
+   * redistributables among its executables, e.g. in `_CommonRedist`. Each
+   * redistributable is listed once with its shallowest installer.
+   */
+  private detectDependencies(executables: string[]): GameDependency[] | null {
+    const dependencies = new Map<string, GameDependency>();
+    const byDepth = (a: string, b: string) =>
+      a.split("/").length - b.split("/").length || a.localeCompare(b);
+
+    for (const executable of executables
+      .map((executable) => executable.replace(/\\/g, "/"))
+      .sort(byDepth)) {
+      const lowerExecutable = toLower(executable);
+      for (const pattern of this.redistributablePatterns) {
+        const match = lowerExecutable.match(pattern.regex);
+        if (!match) continue;
+        const dependency = pattern.describe(match, lowerExecutable);
+        if (!dependencies.has(dependency.id)) {
+          dependencies.set(dependency.id, {
+            ...dependency,
+            installer: executable,
+          });
+        }
+        break;
       }
+    }
 
-      if (/\(L_P\)/.test(path)) {
-        this.logger.debug({
-          message: `Detected game type as ${GameType.LINUX_PORTABLE}.`,
-          reason: "(L_P) override in filename.",
-          game: { id: undefined, path },
-        });
-        return GameType.LINUX_PORTABLE;
-      }
+    return dependencies.size
+      ? [...dependencies.values()].sort((a, b) => a.id.localeCompare(b.id))
+      : null;
+  }
 
-      if (/\(W_SW\)/.test(path)) {
-        this.logger.debug({
-          message: `Detected game type as ${GameType.WINDOWS_SOFTWARE}.`,
-          reason: "(W_SW) override in filename.",
-          game: { id: undefined, path },
-        });
-        return GameType.WINDOWS_SOFTWARE;
-      }
+  /**
+   * Ranks the executables of a game to suggest which ones to launch, install
+   * and uninstall it with. Redistributables, anti-cheat installers and crash
+   * reporters are never suggested. Launch executables whose names are close
+   * to the title of the game are preferred, and shallow paths are preferred
+   * in general.
+   */
+  private suggestExecutables(
+    executables: string[],
+    title: string,
+    type: GameType,
+  ): Pick<
+    GameMetadata,
+    "launch_executable" | "installer_executable" | "uninstaller_executable"
+  > {
+    const ignoredPattern =
+      /redist|directx|dxsetup|dotnet|netfx|vc_?redist|physx|oalinst|xnafx|prereq|easyanticheat|battleye|crash|bugsplat|report/;
+    const uninstallerPattern = /^unins\d*\.exe$|uninst/;
+
+    const candidates = executables
+      .map((executable) => executable.replace(/\\/g, "/"))
+      .filter((executable) => !ignoredPattern.test(toLower(executable)));
+    const getName = (executable: string) =>
+      toLower(path.posix.basename(executable));
+    const getDepth = (executable: string) => executable.split("/").length - 1;
+    const getInstallerPattern = (executable: string) =>
+      this.windowsInstallerPatterns.findIndex((pattern) =>
+        pattern.regex.test(getName(executable)),
+      );
+    const byDepth = (a: string, b: string) =>
+      getDepth(a) - getDepth(b) || a.localeCompare(b);
+
+    const uninstallers = candidates
+      .filter((executable) => uninstallerPattern.test(getName(executable)))
+      .sort(byDepth);
+    const installers = candidates
+      .filter(
+        (executable) =>
+          !uninstallers.includes(executable) &&
+          getInstallerPattern(executable) !== -1,
+      )
+      .sort(
+        (a, b) =>
+          getDepth(a) - getDepth(b) ||
+          getInstallerPattern(a) - getInstallerPattern(b) ||
+          a.localeCompare(b),
+      );
+
+    const cleanedTitle = kebabCase(title);
+    const getScore = (executable: string) =>
+      stringSimilarity(
+        cleanedTitle,
+        kebabCase(
+          path.posix.basename(executable, path.posix.extname(executable)),
+        ),
+      ) -
+      getDepth(executable) * 0.1;
+    const isLinux =
+      type === GameType.LINUX_PORTABLE || type === GameType.LINUX_SOFTWARE;
+    const launchables = candidates
+      .filter(
+        (executable) =>
+          !uninstallers.includes(executable) &&
+          !installers.includes(executable) &&
+          (isLinux
+            ? /\.(sh|appimage)$/.test(getName(executable))
+            : getName(executable).endsWith(".exe")),
+      )
+      .sort((a, b) => getScore(b) - getScore(a) || a.localeCompare(b));
+
+    switch (type) {
+      case GameType.WINDOWS_SETUP:
+        // The game is launched from the installation directory, which is not
+        // known ahead of time. Single file setups are their own installer.
+        return {
+          launch_executable: null,
+          installer_executable: installers[0] ?? launchables[0] ?? null,
+          uninstaller_executable: uninstallers[0] ?? null,
+        };
+      case GameType.WINDOWS_PORTABLE:
+      case GameType.WINDOWS_SOFTWARE:
+      case GameType.LINUX_PORTABLE:
+      case GameType.LINUX_SOFTWARE:
+        return {
+          launch_executable: launchables[0] ?? null,
+          installer_executable: null,
+          uninstaller_executable: isLinux ? null : (uninstallers[0] ?? null),
+        };
+      default:
+        return {
+          launch_executable: null,
+          installer_executable: null,
+          uninstaller_executable: null,
+        };
+    }
+  }
+
+  /**
+   * Finds all executables of a game. Games consisting of a single executable
+   * are their own executable. Returns an empty list if the contents of the
+   * game can't be listed.
+   */
+  private async findExecutables(
+    path: string,
+    isFolderGame: boolean,
+  ): Promise<string[]> {
+    // Failsafe for Mock-Files because we cant look into them
+    if (configuration.TESTING.MOCK_FILES) {
+      return [];
+    }
+
+    if (
+      !isFolderGame &&
+      globals.EXECUTABLE_FORMATS.includes(toLower(extname(path)))
+    ) {
+      return [basename(path)];
+    }
 
-      if (/\(L_SW\)/.test(path)) {
+    try {
+      return isFolderGame
+        ? await this.findAllExecutablesInFolder(path)
+        : await this.findAllExecutablesInArchive(
+            path,
+            ["*.exe", "*.msi", "*.sh", "*.appimage"],
+            await this.gamesService.findArchivePassword(path),
+          );
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Detects the game type based on the file path and the executables found
+   * in its contents.
+   */
+  private async detectType(
+    path: string,
+    isFolderGame = false,
+    executables: string[] = [],
+  ): Promise<GameType> {
+    try {
+      const { profile, type } = this.parseFilename(path, isFolderGame);
+      if (type) {
         this.logger.debug({
-          message: `Detected game type as ${GameType.LINUX_SOFTWARE}.`,
-          reason: "(L_SW) override in filename.",
+          message: `Detected game type as ${type}.`,
+          reason: profile
+            ? `Type captured by parsing profile "${profile}".`
+            : "Type override in filename.",
           game: { id: undefined, path },
         });
-        return GameType.LINUX_SOFTWARE;
+        return type;
       }
 
       // Failsafe for Mock-Files because we cant look into them
@@ -578,7 +2071,7 @@ export class FilesService implements OnApplicationBootstrap {
       }
 
       // Detect single File executables
-      if (toLower(path).endsWith(".exe")) {
+      if (!isFolderGame && toLower(path).endsWith(".exe")) {
         this.logger.debug({
           message: `Detected game type as ${GameType.WINDOWS_SETUP}.`,
           reason: "Filename ends with .exe .",
@@ -588,8 +2081,8 @@ export class FilesService implements OnApplicationBootstrap {
       }
 
       if (
-        toLower(path).endsWith(".sh") ||
-        toLower(path).endsWith(".appimage")
+        !isFolderGame &&
+        (toLower(path).endsWith(".sh") || toLower(path).endsWith(".appimage"))
       ) {
         this.logger.debug({
           message: `Detected game type as ${GameType.LINUX_PORTABLE}.`,
@@ -599,14 +2092,9 @@ export class FilesService implements OnApplicationBootstrap {
         return GameType.LINUX_PORTABLE;
       }
 
-      // Detect Windows Executables in Archive
-      const executablesInArchive = await this.findAllExecutablesInArchive(
-        path,
-        ["*.exe", "*.msi", "*.sh", "*.appimage"],
-      );
-
-      if (executablesInArchive.length > 0) {
-        const windowsExecutables = executablesInArchive.filter((f) => {
+      // Detect Windows Executables in Archive or Folder
+      if (executables.length > 0) {
+        const windowsExecutables = executables.filter((f) => {
           const lowerFile = toLower(f);
           return lowerFile.endsWith(".exe") || lowerFile.endsWith(".msi");
         });
@@ -629,7 +2117,7 @@ export class FilesService implements OnApplicationBootstrap {
           return GameType.WINDOWS_PORTABLE;
         }
 
-        const linuxExecutables = executablesInArchive.filter((f) => {
+        const linuxExecutables = executables.filter((f) => {
           const lowerFile = toLower(f);
           return lowerFile.endsWith(".sh") || lowerFile.endsWith(".appimage");
         });
@@ -663,73 +2151,76 @@ export class FilesService implements OnApplicationBootstrap {
   private async findAllExecutablesInArchive(
     path: string,
     matchers: string[],
+    password?: string,
   ): Promise<string[]> {
-    return new Promise<string[]>((resolve, reject) => {
-      const executablesList: string[] = [];
-      const listStream = list(path, {
-        recursive: true,
-        $cherryPick: matchers,
-        password: configuration.GAMES.DEFAULT_ARCHIVE_PASSWORD, // ANY Password is needed so it doesn't hang up
+    let executablesList: string[];
+    try {
+      executablesList = (await this.listArchive(path, matchers, password)).map(
+        (data) => data.file,
+      );
+    } catch (error) {
+      this.logger.error({
+        message: `Error extracting executables list. The archive may be encrypted or corrupted.`,
+        game: { id: undefined, file_path: path },
+        error,
       });
+      throw error;
+    }
 
-      listStream.on("data", (data) => executablesList.push(data.file));
-
-      listStream.on("error", (error) => {
-        this.logger.error({
-          message: `Error extracting executables list. The archive may be encrypted or corrupted.`,
-          game: { id: undefined, file_path: path },
-          error,
-        });
-        reject(error);
+    if (executablesList.length) {
+      this.logger.debug({
+        message: `Found ${executablesList.length} executable(s) in archive.`,
+        game: { id: undefined, path: path },
+        executables: executablesList,
       });
+    } else {
+      this.logger.warn({
+        message: `Could not detect any executables in archive. Please note that the Game Type Detection algorithm does not support nested archives.`,
+        game: { id: undefined, path: path },
+      });
+    }
+    return executablesList;
+  }
 
-      listStream.on("end", () => {
-        if (executablesList.length) {
-          this.logger.debug({
-            message: `Found ${executablesList.length} executable(s) in archive.`,
-            game: { id: undefined, path: path },
-            executables: executablesList,
-          });
-        } else {
-          this.logger.warn({
-            message: `Could not detect any executables in archive. Please note that the Game Type Detection algorithm does not support nested archives.`,
-            game: { id: undefined, path: path },
-          });
-        }
-        resolve(executablesList);
+  /**
+   * Lists all entries of an archive, optionally limited to the given patterns.
+   * Archives without a password of their own are listed using the default
+   * archive password.
+   */
+  private async listArchive(
+    path: string,
+    matchers?: string[],
+    password?: string,
+  ): Promise<Data[]> {
+    return new Promise<Data[]>((resolve, reject) => {
+      const entries: Data[] = [];
+      const listStream = list(path, {
+        recursive: true,
+        $cherryPick: matchers,
+        password: password || configuration.GAMES.DEFAULT_ARCHIVE_PASSWORD, // ANY Password is needed so it doesn't hang up
       });
+
+      listStream.on("data", (data) => entries.push(data));
+      listStream.on("error", (error) => reject(error));
+      listStream.on("end", () => resolve(entries));
     });
   }
 
-  /** Creates a compressed archive of the source path. */
-  private async archive(output: string, sourcePath: string): Promise<void> {
-    if (!(await pathExists(sourcePath))) {
-      throw new NotFoundException(
-        `The game file "${sourcePath}" could not be found.`,
+  /** Finds all executable files within a folder game. */
+  private async findAllExecutablesInFolder(path: string): Promise<string[]> {
+    const executableFormats = [".exe", ".msi", ".sh", ".appimage"];
+    const executablesList = (await TarArchive.fromPath(path))
+      .listFiles()
+      .filter((file) =>
+        executableFormats.some((format) => toLower(file).endsWith(format)),
       );
-    }
-    return new Promise<void>((resolve, reject) => {
-      const archiveStream = add(output, sourcePath);
-      archiveStream.on("error", async (error) => {
-        this.logger.error({
-          message: `Error archiving game. Deleting potentially corrupted output file.`,
-          input: sourcePath,
-          output,
-          error,
-        });
-        await rm(output);
-        reject(error);
-      });
 
-      archiveStream.on("end", () => {
-        this.logger.debug({
-          message: `Archived game.`,
-          input: sourcePath,
-          output,
-        });
-        resolve();
-      });
+    this.logger.debug({
+      message: `Found ${executablesList.length} executable(s) in folder.`,
+      game: { id: undefined, path },
+      executables: executablesList,
     });
+    return executablesList;
   }
 
   /**
@@ -739,6 +2230,7 @@ export class FilesService implements OnApplicationBootstrap {
    */
   private async checkIntegrity(
     filesInFileSystem?: File[],
+    job?: IndexJob,
   ): Promise<GamevaultGame[]> {
     const heapMB = () =>
       Math.round(process.memoryUsage().heapUsed / 1024 / 1024);
@@ -749,7 +2241,7 @@ export class FilesService implements OnApplicationBootstrap {
     const gamesInDatabase = await this.gamesService.find({
       loadDeletedEntities: false,
       loadRelations: false,
-      select: ["id", "file_path"],
+      select: ["id", "file_path", "missing_since"],
     });
     this.logger.log({
       message: "Integrity: loaded games from DB.",
@@ -773,27 +2265,54 @@ export class FilesService implements OnApplicationBootstrap {
 
     const fsPaths = new Set(gamesInFileSystem.map((f) => f.path));
     const checkedGames: GamevaultGame[] = [];
-    let deletedCount = 0;
-    for (const gameInDatabase of gamesInDatabase) {
+    const expiredGames: GamevaultGame[] = [];
+    const gracePeriodMs =
+      configuration.GAMES.DELETION_GRACE_PERIOD_IN_MINUTES * 60 * 1000;
+    if (job) {
+      this.indexJobsService.reportProgress({
+        processed: 0,
+        total: gamesInDatabase.length,
+      });
+    }
+    for (const [index, gameInDatabase] of gamesInDatabase.entries()) {
+      if (job) {
+        this.indexJobsService.reportProgress({ processed: index });
+      }
       try {
-        // If game is not in file system, mark it as deleted
+        // Missing files may only be unavailable for a while, e.g. on
+        // unmounted network shares, so games are kept for a grace period
         if (!fsPaths.has(gameInDatabase.file_path)) {
-          const heapBeforeDelete = heapMB();
-          await this.gamesService.delete(gameInDatabase.id);
-          deletedCount++;
+          if (!gameInDatabase.missing_since) {
+            gameInDatabase.missing_since = new Date();
+            await this.gamesService.updateMissingSince(
+              gameInDatabase.id,
+              gameInDatabase.missing_since,
+            );
+            this.logger.log({
+              message: "Game file is missing.",
+              game: {
+                id: gameInDatabase.id,
+                path: gameInDatabase.file_path,
+              },
+            });
+          }
+          if (
+            Date.now() - gameInDatabase.missing_since.getTime() >=
+            gracePeriodMs
+          ) {
+            expiredGames.push(gameInDatabase);
+          }
+          continue;
+        }
+        if (gameInDatabase.missing_since) {
+          await this.gamesService.updateMissingSince(gameInDatabase.id, null);
           this.logger.log({
-            message: `Game marked as soft-deleted.`,
-            reason: "Game file not found in filesystem.",
+            message: "Game file is available again.",
             game: {
               id: gameInDatabase.id,
               path: gameInDatabase.file_path,
             },
-            heap_before_delete: heapBeforeDelete,
-            heap_after_delete: heapMB(),
-            delta: heapMB() - heapBeforeDelete,
-            deleted_so_far: deletedCount,
           });
-          continue;
         }
         checkedGames.push(gameInDatabase);
       } catch (error) {
@@ -807,6 +2326,16 @@ export class FilesService implements OnApplicationBootstrap {
         });
       }
     }
+    const deletedCount = await this.deleteMissingGames(
+      expiredGames,
+      gamesInDatabase.length,
+      job,
+    );
+    if (job) {
+      this.indexJobsService.reportProgress({
+        processed: gamesInDatabase.length,
+      });
+    }
     this.logger.log({
       message: "Finished Game Integrity Check.",
       count: gamesInDatabase.length,
@@ -816,99 +2345,438 @@ export class FilesService implements OnApplicationBootstrap {
     return checkedGames;
   }
 
+  /**
+   * Soft-deletes games whose files have been missing for the grace period.
+   * If more than the threshold percentage of the library is missing at once,
+   * the deletion is held for an admin to review and the server status is set
+   * to degraded. Returns the number of deleted games.
+   */
+  private async deleteMissingGames(
+    games: GamevaultGame[],
+    libraryCount: number,
+    job?: IndexJob,
+  ): Promise<number> {
+    const percentage = libraryCount ? (games.length / libraryCount) * 100 : 0;
+    if (
+      games.length &&
+      percentage > configuration.GAMES.DELETION_THRESHOLD_PERCENTAGE
+    ) {
+      this.logger.warn({
+        message: "Holding deletion of games with missing files.",
+        reason: `More than ${configuration.GAMES.DELETION_THRESHOLD_PERCENTAGE}% of the library is missing.`,
+        count: games.length,
+        percentage: Math.round(percentage),
+      });
+      if (this.statusService.get().status !== StatusEnum.DEGRADED) {
+        this.statusService.set(
+          StatusEnum.DEGRADED,
+          `Deletion of ${games.length} games (${Math.round(percentage)}% of the library) whose files are missing is held. Check your game volumes, then confirm or discard the pending deletions.`,
+        );
+      }
+      return 0;
+    }
+
+    let deletedCount = 0;
+    for (const game of games) {
+      try {
+        if (await this.promotePreviousVersion(game)) {
+          if (job) {
+            job.updated++;
+          }
+          continue;
+        }
+        await this.gamesService.delete(game.id);
+        deletedCount++;
+        if (job) {
+          job.deleted++;
+        }
+        this.logger.log({
+          message: `Game marked as soft-deleted.`,
+          reason: "Game file not found in filesystem.",
+          game: { id: game.id, path: game.file_path },
+          missing_since: game.missing_since,
+        });
+      } catch (error) {
+        this.logger.error({
+          message: `Error soft-deleting game with missing file.`,
+          game: { id: game.id, path: game.file_path },
+          error,
+        });
+      }
+    }
+    this.releaseHeldDeletions(
+      "Deletion of games whose files are missing is no longer held.",
+    );
+    return deletedCount;
+  }
+
+  /**
+   * Soft-deletes all games whose files are missing right away, including
+   * held deletions. Games whose files are available again are kept.
+   */
+  public async confirmPendingDeletions(): Promise<GamevaultGame[]> {
+    const deletedGames: GamevaultGame[] = [];
+    for (const game of await this.gamesService.findMissing()) {
+      if (await pathExists(game.file_path)) {
+        await this.gamesService.updateMissingSince(game.id, null);
+        continue;
+      }
+      if (await this.promotePreviousVersion(game)) {
+        continue;
+      }
+      await this.gamesService.delete(game.id);
+      deletedGames.push(game);
+    }
+    this.logger.log({
+      message: "Confirmed pending deletions of games with missing files.",
+      count: deletedGames.length,
+    });
+    this.releaseHeldDeletions("Pending deletions were confirmed by an admin.");
+    return deletedGames;
+  }
+
+  /**
+   * Keeps all games whose files are missing. Their grace period starts over
+   * if their files are still missing on the next integrity check.
+   */
+  public async discardPendingDeletions(): Promise<void> {
+    const games = await this.gamesService.findMissing();
+    for (const game of games) {
+      await this.gamesService.updateMissingSince(game.id, null);
+    }
+    this.logger.log({
+      message: "Discarded pending deletions of games with missing files.",
+      count: games.length,
+    });
+    this.releaseHeldDeletions("Pending deletions were discarded by an admin.");
+  }
+
+  private releaseHeldDeletions(reason: string) {
+    if (this.statusService.get().status === StatusEnum.DEGRADED) {
+      this.statusService.set(StatusEnum.HEALTHY, reason);
+    }
+  }
+
   /**
    * This method retrieves an array of objects representing game files in the
-   * file system.
+   * file system. If a directory is given, only the files of the given
+   * libraries inside it are retrieved.
    */
-  private async readAllFiles(): Promise<File[]> {
+  private async readAllFiles(
+    libraries = this.libraries,
+    directory?: string,
+  ): Promise<File[]> {
     try {
       if (configuration.TESTING.MOCK_FILES) return mock;
 
       const { readdirp } = await import("readdirp");
 
-      const stream = readdirp(configuration.VOLUMES.FILES, {
-        type: "files",
-        depth: configuration.GAMES.SEARCH_RECURSIVE ? undefined : 0,
-        fileFilter: (entry) => this.isValidFilePath(entry.basename),
-        alwaysStat: true, // ensure size is available for integrity checks
-      });
+      // Ignore files may have changed without the watcher noticing
+      this.ignoreFileCache.clear();
 
+      const markerFile = configuration.GAMES.FOLDER_GAMES_MARKER_FILE;
+      const folderGamePaths = new Set<string>();
       const files: File[] = [];
 
-      return new Promise<File[]>((resolve) => {
-        stream.on("data", (entry) => {
-          if (!entry.stats) {
-            this.logger.warn({
-              message: "Skipping file without stats during indexing.",
+      for (const library of libraries) {
+        const stream = readdirp(directory ?? library.path, {
+          type: "files",
+          depth: library.search_recursive ? undefined : 0,
+          fileFilter: (entry) =>
+            (entry.basename === markerFile ||
+              this.isValidFilePath(entry.basename, library)) &&
+            !this.isIgnored(entry.fullPath),
+          directoryFilter: (entry) => {
+            if (
+              this.isInternalPath(entry.fullPath) ||
+              this.isInNestedLibrary(entry.fullPath, library) ||
+              this.isIgnored(entry.fullPath, true)
+            ) {
+              return false;
+            }
+            // Folder games matching the name pattern are not searched further
+            if (this.folderGameNamePattern?.test(entry.basename)) {
+              folderGamePaths.add(entry.fullPath);
+              return false;
+            }
+            return true;
+          },
+          alwaysStat: true, // ensure size is available for integrity checks
+        });
+
+        await new Promise<void>((resolve) => {
+          stream.on("data", (entry) => {
+            if (entry.basename === markerFile) {
+              const folderGamePath = path.dirname(entry.fullPath);
+              if (this.isInsideDirectory(folderGamePath, library.path)) {
+                folderGamePaths.add(folderGamePath);
+              }
+              return;
+            }
+
+            if (!entry.stats) {
+              this.logger.warn({
+                message: "Skipping file without stats during indexing.",
+                path: entry.fullPath,
+              });
+              return;
+            }
+
+            files.push({
               path: entry.fullPath,
+              size: BigInt(entry.stats.size),
+              mtime: entry.stats.mtimeMs,
+              inode: entry.stats.ino,
             });
-            return;
-          }
+          });
 
-          files.push({
-            path: entry.fullPath,
-            size: BigInt(entry.stats.size),
+          stream.on("warn", (warning) => {
+            this.logger.warn({
+              message:
+                "Skipping inaccessible path during file scanning. Check directory permissions.",
+              path: warning?.path,
+              error: warning?.message || String(warning),
+            });
           });
-        });
 
-        stream.on("warn", (warning) => {
-          this.logger.warn({
-            message:
-              "Skipping inaccessible path during file scanning. Check directory permissions.",
-            path: warning?.path,
-            error: warning?.message || String(warning),
+          stream.on("error", (error) => {
+            this.logger.error({
+              message:
+                "Error during file scanning. Continuing with files found so far.",
+              library: library.name,
+              error,
+            });
+            resolve();
           });
-        });
 
-        stream.on("error", (error) => {
-          this.logger.error({
-            message:
-              "Error during file scanning. Continuing with files found so far.",
-            error,
+          stream.on("end", () => {
+            resolve();
           });
-          resolve(files);
         });
+      }
 
-        stream.on("end", () => {
-          resolve(files);
-        });
-      });
+      return await this.mergeFolderGames(files, [...folderGamePaths]);
     } catch (error) {
       this.logger.error({ message: "Error reading files.", error });
       return [];
     }
   }
 
-  /** Schedules the deletion of a temporary file after a fixed timeout. */
-  private scheduleTmpFileDeletion(gameId: number, filePath: string) {
-    const timeoutName = `delete-tmp-${gameId}`;
+  /**
+   * Replaces all files inside folder games with the folder games themselves.
+   * Nested folder games are part of their outermost folder game.
+   */
+  private async mergeFolderGames(
+    files: File[],
+    folderGamePaths: string[],
+  ): Promise<File[]> {
+    const outermostFolderGamePaths = folderGamePaths.filter(
+      (folderGamePath) =>
+        !folderGamePaths.some((other) =>
+          this.isInsideDirectory(folderGamePath, other),
+        ),
+    );
+
+    const mergedFiles = files.filter(
+      (file) =>
+        !outermostFolderGamePaths.some((folderGamePath) =>
+          this.isInsideDirectory(file.path, folderGamePath),
+        ),
+    );
 
-    // If a deletion is already scheduled, remove it to reset the timer
-    if (this.schedulerRegistry.getTimeouts().includes(timeoutName)) {
-      this.schedulerRegistry.deleteTimeout(timeoutName);
+    for (const folderGamePath of outermostFolderGamePaths) {
+      try {
+        const archive = await TarArchive.fromPath(folderGamePath);
+        mergedFiles.push({
+          path: folderGamePath,
+          size: BigInt(archive.contentSize),
+          mtime: archive.lastModified.getTime(),
+          inode: (await stat(folderGamePath)).ino,
+        });
+      } catch (error) {
+        this.logger.warn({
+          message: "Skipping unreadable folder game during file scanning.",
+          path: folderGamePath,
+          error,
+        });
+      }
     }
 
-    const timeout = setTimeout(
-      async () => {
-        try {
-          if (await pathExists(filePath)) {
-            await rm(filePath);
-            this.logger.log(
-              `Deleted temporary archive after timeout: ${filePath}`,
-            );
-          }
-        } catch (error) {
-          this.logger.error({
-            message: "Error deleting scheduled tmp file.",
-            filePath,
-            error,
-          });
+    return mergedFiles;
+  }
+
+  /**
+   * Lists the files of a game as a tree including their uncompressed sizes.
+   * Results are cached per file hash and size, so games that have not been
+   * hashed yet are listed on every request.
+   */
+  public async getContents(
+    gameId: number,
+    filterByAge?: number,
+  ): Promise<GameContents> {
+    const game = await this.gamesService.findOneByGameIdOrFail(gameId, {
+      loadDeletedEntities: false,
+      filterByAge,
+    });
+
+    const cacheKey = game.file_hash
+      ? `${game.file_hash}:${game.size}`
+      : undefined;
+    const cachedContents = cacheKey && this.contentsCache.get(cacheKey);
+    if (cachedContents) {
+      // Re-insert the entry to keep recently used contents in the cache.
+      this.contentsCache.delete(cacheKey);
+      this.contentsCache.set(cacheKey, cachedContents);
+      return cachedContents;
+    }
+
+    if (!(await pathExists(game.file_path))) {
+      throw new NotFoundException(
+        `The game file "${game.file_path}" could not be found.`,
+      );
+    }
+
+    let entries: Pick<GameContentsEntry, "path" | "type" | "size">[];
+    if (
+      (await this.isFolderGame(game.file_path)) ||
+      !globals.ARCHIVE_FORMATS.includes(path.extname(game.file_path))
+    ) {
+      // Same layout as the tar archive the game is downloaded as.
+      entries = (await TarArchive.fromPath(game.file_path))
+        .listEntries()
+        .map(({ name, type, size }) => ({ path: name, type, size }));
+    } else {
+      try {
+        entries = (
+          await this.listArchive(
+            game.file_path,
+            undefined,
+            await this.gamesService.findArchivePassword(game.file_path),
+          )
+        ).map((data) => ({
+          path: data.file,
+          type: data.attributes?.startsWith("D") ? "directory" : "file",
+          size: data.size ?? 0,
+        }));
+      } catch (error) {
+        throw new InternalServerErrorException(
+          error,
+          "Failed to list the contents of the archive. It may be encrypted or corrupted. Please check the server logs for details.",
+        );
+      }
+    }
+
+    const contents = this.buildContentsTree(entries);
+    this.logger.debug({
+      message: "Listed game contents.",
+      game: logGamevaultGame(game),
+      file_count: contents.file_count,
+      size: contents.size,
+    });
+
+    if (cacheKey) {
+      this.contentsCache.set(cacheKey, contents);
+      if (this.contentsCache.size > this.contentsCacheSize) {
+        this.contentsCache.delete(this.contentsCache.keys().next().value);
+      }
+    }
+    return contents;
+  }
+
+  /**
+   * Builds a file tree out of a flat list of entries. Directories that are
+   * not listed explicitly are created from the paths of their files.
+   */
+  private buildContentsTree(
+    entries: Pick<GameContentsEntry, "path" | "type" | "size">[],
+  ): GameContents {
+    const contents: GameContents = { size: 0, file_count: 0, entries: [] };
+    const directories = new Map<string, GameContentsEntry>();
+
+    const getChildren = (directoryPath: string): GameContentsEntry[] => {
+      if (!directoryPath) {
+        return contents.entries;
+      }
+      let directory = directories.get(directoryPath);
+      if (!directory) {
+        directory = {
+          name: path.posix.basename(directoryPath),
+          path: directoryPath,
+          type: "directory",
+          size: 0,
+          children: [],
+        };
+        directories.set(directoryPath, directory);
+        getChildren(this.getParentPath(directoryPath)).push(directory);
+      }
+      return directory.children;
+    };
+
+    for (const entry of entries) {
+      const entryPath = entry.path.replace(/\\/g, "/").replace(/\/+$/, "");
+      if (entry.type === "directory") {
+        getChildren(entryPath);
+        continue;
+      }
+      getChildren(this.getParentPath(entryPath)).push({
+        name: path.posix.basename(entryPath),
+        path: entryPath,
+        type: "file",
+        size: entry.size,
+      });
+      contents.file_count++;
+      contents.size += entry.size;
+    }
+
+    // Sum up directory sizes and sort directories before files by name.
+    const finalize = (children: GameContentsEntry[]): void => {
+      for (const child of children) {
+        if (child.children) {
+          finalize(child.children);
+          child.size = child.children.reduce((sum, c) => sum + c.size, 0);
         }
-      },
-      24 * 60 * 60 * 1000,
-    );
+      }
+      children.sort(
+        (a, b) =>
+          Number(!!b.children) - Number(!!a.children) ||
+          a.name.localeCompare(b.name),
+      );
+    };
+    finalize(contents.entries);
+
+    return contents;
+  }
+
+  private getParentPath(entryPath: string): string {
+    const parentPath = path.posix.dirname(entryPath);
+    return parentPath === "." ? "" : parentPath;
+  }
 
-    this.schedulerRegistry.addTimeout(timeoutName, timeout);
+  /**
+   * Describes the bytes a download of a game file consists of. Games that
+   * aren't archives themselves (folder games, executables, ...) are streamed
+   * as a tar archive generated on the fly. Its layout is deterministic, so its
+   * size and byte ranges are known ahead of time.
+   */
+  public async getDownloadSource(filePath: string): Promise<DownloadSource> {
+    const isFolderGame = await this.isFolderGame(filePath);
+    const isArchive =
+      !isFolderGame && globals.ARCHIVE_FORMATS.includes(path.extname(filePath));
+    const archive = isArchive ? undefined : await TarArchive.fromPath(filePath);
+    const stats = archive ? undefined : await stat(filePath);
+    const size = archive?.size ?? stats.size;
+    const lastModified = archive?.lastModified ?? stats.mtime;
+    return {
+      isFolderGame,
+      isArchive,
+      size,
+      lastModified,
+      etag: `"${size.toString(16)}-${lastModified.getTime().toString(16)}"`,
+      createReadStream: (start: number, end: number): Readable =>
+        archive
+          ? archive.createReadStream(start, end)
+          : createReadStream(filePath, { start, end }),
+    };
   }
 
   /** Handles the download request for a game, including on-the-fly archiving if needed. */
@@ -918,6 +2786,7 @@ export class FilesService implements OnApplicationBootstrap {
     speedlimitHeader?: number,
     rangeHeader?: string,
     filterByAge?: number,
+    ifRangeHeader?: string,
   ): Promise<StreamableFile> {
     // Set the download speed limit if provided, otherwise use the default value from configuration.
     speedlimitHeader =
@@ -929,7 +2798,6 @@ export class FilesService implements OnApplicationBootstrap {
       loadDeletedEntities: false,
       filterByAge,
     });
-    let fileDownloadPath = game.file_path;
 
     // If mocking files for testing, return a StreamableFile with random bytes.
     if (configuration.TESTING.MOCK_FILES) {
@@ -939,50 +2807,96 @@ export class FilesService implements OnApplicationBootstrap {
       });
       return new StreamableFile(randomBytes(1000), {
         disposition: `attachment; filename="${filenameSanitizer(
-          unidecode(path.basename(fileDownloadPath)),
+          unidecode(path.basename(game.file_path)),
         )}"`,
         length: 1000,
         type: "application/x-zip",
       });
     }
 
-    // If the file format is not supported, create an archive and use it for download.
-    if (!globals.ARCHIVE_FORMATS.includes(path.extname(game.file_path))) {
-      fileDownloadPath = `/tmp/${gameId}.tar`;
-
-      // If the archive file does not exist, create it.
-      if (!(await pathExists(fileDownloadPath))) {
-        await this.archive(fileDownloadPath, game.file_path);
-      }
-
-      this.scheduleTmpFileDeletion(gameId, fileDownloadPath);
-    }
-
     // If the file does not exist, throw an exception.
-    if (!(await pathExists(fileDownloadPath))) {
+    if (!(await pathExists(game.file_path))) {
       throw new NotFoundException(
-        `The game file "${fileDownloadPath}" could not be found.`,
+        `The game file "${game.file_path}" could not be found.`,
       );
     }
 
-    // Apply range header if provided otherwise returns the entire file
-    const range = this.calculateRange(
-      rangeHeader,
-      (await stat(fileDownloadPath)).size,
-    );
+    const {
+      isFolderGame,
+      isArchive,
+      size: fileSize,
+      lastModified,
+      etag,
+      createReadStream: createFileStream,
+    } = await this.getDownloadSource(game.file_path);
+
+    // Validators allow clients to make sure they resume the same file.
+    response.setHeader("ETag", etag);
+    response.setHeader("Last-Modified", lastModified.toUTCString());
+
+    const originalFilename = path.basename(game.file_path);
+    let downloadFilename = originalFilename;
+    if (isFolderGame) {
+      downloadFilename = `${originalFilename}.tar`;
+    } else if (!isArchive) {
+      downloadFilename = `${path.basename(originalFilename, path.extname(originalFilename))}.tar`;
+    }
+
+    const { default: mime } = await import("mime");
+    const contentType =
+      mime.getType(downloadFilename) ?? "application/octet-stream";
+
+    // Apply the range header only if the file has not changed since the
+    // validator sent in If-Range, otherwise the entire file is returned.
+    const ranges = this.isRangeApplicable(ifRangeHeader, etag, lastModified)
+      ? this.calculateRanges(rangeHeader, fileSize)
+      : undefined;
     this.logger.debug({
-      message: "Applying download range.",
+      message: "Applying download ranges.",
       rangeHeader,
-      range,
+      ifRangeHeader,
+      ranges,
     });
 
-    // Read the file and apply speed limit if necessary.
-    let file: Readable = createReadStream(fileDownloadPath, {
-      start: range.start,
-      end: range.end,
-    });
+    if (ranges?.length === 0) {
+      response.setHeader("Content-Range", `bytes */${fileSize}`);
+      throw new HttpException(
+        `The requested range "${rangeHeader}" is not satisfiable for a file of ${fileSize} bytes.`,
+        HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE,
+      );
+    }
+
+    let file: Readable;
+    let length: number;
+    let type = contentType;
+    if (!ranges) {
+      // Streams can't be created for empty ranges
+      file =
+        fileSize > 0 ? createFileStream(0, fileSize - 1) : Readable.from([]);
+      length = fileSize;
+    } else if (ranges.length === 1) {
+      const [range] = ranges;
+      response.status(HttpStatus.PARTIAL_CONTENT);
+      response.setHeader(
+        "Content-Range",
+        `bytes ${range.start}-${range.end}/${fileSize}`,
+      );
+      file = createFileStream(range.start, range.end);
+      length = range.size;
+    } else {
+      const boundary = randomBytes(16).toString("hex");
+      response.status(HttpStatus.PARTIAL_CONTENT);
+      ({ stream: file, length } = this.createMultipartStream(
+        ranges,
+        fileSize,
+        contentType,
+        boundary,
+        createFileStream,
+      ));
+      type = `multipart/byteranges; boundary=${boundary}`;
+    }
 
-    response.setHeader("X-Download-Size", range.size);
+    response.setHeader("X-Download-Size", length);
 
     if (speedlimitHeader) {
       file = file.pipe(new Throttle({ rate: speedlimitHeader }));
@@ -992,57 +2906,136 @@ export class FilesService implements OnApplicationBootstrap {
     game.download_count++;
     this.gamesService.save(game);
 
-    const originalFilename = path.basename(game.file_path);
-    const downloadFilename = globals.ARCHIVE_FORMATS.includes(
-      path.extname(originalFilename),
-    )
-      ? originalFilename
-      : `${path.basename(originalFilename, path.extname(originalFilename))}.tar`;
-
-    const { default: mime } = await import("mime");
-
     return new StreamableFile(file, {
       disposition: `attachment; filename="${filenameSanitizer(
         unidecode(downloadFilename),
       )}"`,
-      length: range.size,
-      type: mime.getType(fileDownloadPath),
+      length,
+      type,
     });
   }
 
   /**
-   * Parses the range header and returns the start, end, and size of the range.
+   * Parses the range header into the satisfiable byte ranges of a file.
+   * Overlapping and adjacent ranges are merged. Returns undefined if the
+   * header is missing or invalid, in which case the entire file is returned,
+   * and an empty list if none of the ranges can be satisfied.
    */
-  private calculateRange(
+  private calculateRanges(
     rangeHeader: string | undefined,
     fileSize: number,
-  ): RangeHeader {
-    let rangeStart = 0;
-    let rangeEnd = fileSize - 1;
+  ): RangeHeader[] | undefined {
+    const rangeSet = /^\s*bytes\s*=(.+)$/i.exec(rangeHeader ?? "")?.[1];
+    if (!rangeSet) {
+      return undefined;
+    }
 
-    if (rangeHeader?.includes("-")) {
-      const [start, end] = rangeHeader.replace("bytes=", "").split("-");
+    const ranges: Omit<RangeHeader, "size">[] = [];
+    for (const rangeSpec of rangeSet.split(",")) {
+      const [, start, end] = /^\s*(\d*)-(\d*)\s*$/.exec(rangeSpec) ?? [];
+      if (!start && !end) {
+        return undefined;
+      }
 
-      if (start) {
-        const parsedStart = Number(start);
-        if (!isNaN(parsedStart) && parsedStart < fileSize) {
-          rangeStart = parsedStart;
+      // Suffix ranges (e.g. "-500") select the last bytes of the file.
+      if (!start) {
+        const suffixLength = Number(end);
+        if (suffixLength > 0 && fileSize > 0) {
+          ranges.push({
+            start: Math.max(fileSize - suffixLength, 0),
+            end: fileSize - 1,
+          });
         }
+        continue;
       }
 
-      if (end) {
-        const parsedEnd = Number(end);
-        if (!isNaN(parsedEnd) && parsedEnd < fileSize) {
-          rangeEnd = parsedEnd >= rangeStart ? parsedEnd : rangeEnd;
-        }
+      const rangeStart = Number(start);
+      const rangeEnd = end ? Number(end) : Infinity;
+      if (rangeEnd < rangeStart) {
+        return undefined;
+      }
+      if (rangeStart < fileSize) {
+        ranges.push({
+          start: rangeStart,
+          end: Math.min(rangeEnd, fileSize - 1),
+        });
+      }
+    }
+
+    const mergedRanges: Omit<RangeHeader, "size">[] = [];
+    for (const range of ranges.sort((a, b) => a.start - b.start)) {
+      const previous = mergedRanges.at(-1);
+      if (previous && range.start <= previous.end + 1) {
+        previous.end = Math.max(previous.end, range.end);
+      } else {
+        mergedRanges.push({ ...range });
+      }
+    }
+
+    return mergedRanges.map((range) => ({
+      ...range,
+      size: range.end - range.start + 1,
+    }));
+  }
+
+  /**
+   * Checks whether the validator of an If-Range header still matches the
+   * file. Only strong entity tags and exact dates are considered a match.
+   */
+  private isRangeApplicable(
+    ifRangeHeader: string | undefined,
+    etag: string,
+    lastModified: Date,
+  ): boolean {
+    const validator = ifRangeHeader?.trim();
+    if (!validator) {
+      return true;
+    }
+    if (validator.startsWith('"') || validator.startsWith("W/")) {
+      return validator === etag;
+    }
+    const date = Date.parse(validator);
+    return (
+      !isNaN(date) &&
+      Math.floor(date / 1000) === Math.floor(lastModified.getTime() / 1000)
+    );
+  }
+
+  /**
+   * Creates a multipart/byteranges body containing the given ranges of a file.
+   * The length of the body is calculated in advance.
+   */
+  private createMultipartStream(
+    ranges: RangeHeader[],
+    fileSize: number,
+    contentType: string,
+    boundary: string,
+    createFileStream: (start: number, end: number) => Readable,
+  ): { stream: Readable; length: number } {
+    const parts = ranges.map((range) => ({
+      range,
+      header: Buffer.from(
+        `\r\n--${boundary}\r\n` +
+          `Content-Type: ${contentType}\r\n` +
+          `Content-Range: bytes ${range.start}-${range.end}/${fileSize}\r\n\r\n`,
+      ),
+    }));
+    const trailer = Buffer.from(`\r\n--${boundary}--\r\n`);
+
+    async function* generateParts(): AsyncGenerator<Buffer> {
+      for (const { range, header } of parts) {
+        yield header;
+        yield* createFileStream(range.start, range.end);
       }
+      yield trailer;
     }
 
-    const rangeSize = rangeEnd - rangeStart + 1;
     return {
-      start: rangeStart,
-      end: rangeEnd,
-      size: rangeSize,
+      stream: Readable.from(generateParts()),
+      length: parts.reduce(
+        (length, { range, header }) => length + header.length + range.size,
+        trailer.length,
+      ),
     };
   }
 }
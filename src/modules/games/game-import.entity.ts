@@ -0,0 +1,59 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Column, Entity, Index } from "typeorm";
+
+import { DatabaseEntity } from "../database/database.entity";
+import { GameImportState } from "./models/game-import-state.enum";
+
+/** Outcome of importing a file from the incoming directory into the library. */
+@Entity()
+export class GameImport extends DatabaseEntity {
+  @Index()
+  @Column()
+  @ApiProperty({
+    description: "path of the file in the incoming directory",
+    example: "/incoming/Grand.Theft.Auto.V.v1.0.0.zip",
+  })
+  source_path: string;
+
+  @Column({ nullable: true })
+  @ApiPropertyOptional({
+    description:
+      "path the file was moved to in the library (null if it was not imported)",
+    example: "/files/Grand Theft Auto V (v1.0.0).zip",
+  })
+  target_path?: string;
+
+  @Column({
+    type: "bigint",
+    default: 0,
+    transformer: {
+      to: (value) => value,
+      from: (value) => {
+        if (value) return BigInt(value).toString();
+        return value;
+      },
+    },
+  })
+  @ApiProperty({
+    description: "size of the file in bytes",
+    example: "1234567890",
+    type: () => String,
+  })
+  size: bigint;
+
+  @Column({ type: "simple-enum", enum: GameImportState })
+  @ApiProperty({
+    description: "outcome of the import",
+    type: "string",
+    enum: GameImportState,
+    example: GameImportState.IMPORTED,
+  })
+  state: GameImportState;
+
+  @Column({ nullable: true })
+  @ApiPropertyOptional({
+    description: "reason the file was rejected or failed to import",
+    example: 'A file named "Grand Theft Auto V (v1.0.0).zip" already exists.',
+  })
+  error?: string;
+}
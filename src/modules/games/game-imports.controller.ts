@@ -0,0 +1,64 @@
+import { Controller, Get } from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiSecurity,
+  ApiTags,
+} from "@nestjs/swagger";
+import { InjectRepository } from "@nestjs/typeorm";
+import {
+  Paginate,
+  PaginateQuery,
+  Paginated,
+  PaginationType,
+  paginate,
+} from "nestjs-paginate";
+import { Repository } from "typeorm";
+
+import { MinimumRole } from "../../decorators/minimum-role.decorator";
+import { PaginateQueryOptions } from "../../decorators/pagination.decorator";
+import { ApiOkResponsePaginated } from "../../globals";
+import { Role } from "../users/models/role.enum";
+import { GameImport } from "./game-import.entity";
+
+/** History of files imported from the incoming directory. */
+@ApiBearerAuth()
+@ApiTags("game")
+@Controller("games/imports")
+@ApiSecurity("apikey")
+export class GameImportsController {
+  constructor(
+    @InjectRepository(GameImport)
+    private readonly gameImportRepository: Repository<GameImport>,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: "get the import history of the incoming directory",
+    description:
+      "by default the list is sorted by the most recent import. Only administrators can use this endpoint.",
+    operationId: "getGameImports",
+  })
+  @MinimumRole(Role.ADMIN)
+  @ApiOkResponsePaginated(GameImport)
+  @PaginateQueryOptions()
+  async getGameImports(
+    @Paginate() query: PaginateQuery,
+  ): Promise<Paginated<GameImport>> {
+    return paginate(query, this.gameImportRepository, {
+      paginationType: PaginationType.TAKE_AND_SKIP,
+      defaultLimit: 100,
+      maxLimit: -1,
+      nullSort: "last",
+      loadEagerRelations: false,
+      defaultSortBy: [["id", "DESC"]],
+      sortableColumns: ["id", "created_at", "source_path", "size", "state"],
+      searchableColumns: ["source_path", "target_path"],
+      filterableColumns: {
+        id: true,
+        created_at: true,
+        state: true,
+      },
+    });
+  }
+}
@@ -0,0 +1,135 @@
+import { BadRequestException } from "@nestjs/common";
+import { EventEmitter } from "events";
+import { mkdtemp, outputFile, remove } from "fs-extra";
+import { test } from "node-7z";
+import { tmpdir } from "os";
+import path from "path";
+import { Repository } from "typeorm";
+import configuration from "../../configuration";
+import { FilesService } from "./files.service";
+import { GameImport } from "./game-import.entity";
+import { GameImportsService } from "./game-imports.service";
+import { GameImportState } from "./models/game-import-state.enum";
+
+jest.mock("../../configuration", () => ({
+  __esModule: true,
+  default: {
+    VOLUMES: {},
+    GAMES: { INCOMING_TEST_ARCHIVES: false, DEFAULT_ARCHIVE_PASSWORD: "x" },
+    TESTING: {},
+  },
+}));
+
+jest.mock("node-7z", () => ({ test: jest.fn() }));
+
+jest.mock("./files.service", () => ({
+  FilesService: jest.fn(),
+}));
+
+describe("GameImportsService", () => {
+  let service: GameImportsService;
+  let gameImportRepository: jest.Mocked<Repository<GameImport>>;
+  let filesService: jest.Mocked<FilesService>;
+  let incoming: string;
+  let sourcePath: string;
+
+  beforeEach(async () => {
+    incoming = await mkdtemp(path.join(tmpdir(), "gamevault-incoming-"));
+    sourcePath = path.join(incoming, "Some.Game.v1.2.zip");
+    await outputFile(sourcePath, "game");
+    (configuration.GAMES as any).INCOMING_TEST_ARCHIVES = false;
+
+    gameImportRepository = {
+      save: jest.fn(async (gameImport) => gameImport),
+    } as any;
+    filesService = {
+      validateUploadFilename: jest.fn((filename) => filename),
+      getImportFilename: jest.fn(() => "Some Game (v1.2).zip"),
+      prepareUploadTarget: jest.fn(async (filename) =>
+        path.join("/files", filename),
+      ),
+      importFile: jest.fn(async (_sourcePath, filename) => ({
+        path: path.join("/files", filename),
+      })),
+    } as any;
+
+    service = new GameImportsService(gameImportRepository, filesService);
+  });
+
+  afterEach(async () => {
+    await remove(incoming);
+    jest.clearAllMocks();
+  });
+
+  const mockTestResult = (error?: Error) =>
+    (test as jest.Mock).mockImplementation(() => {
+      const stream = new EventEmitter();
+      process.nextTick(() =>
+        error ? stream.emit("error", error) : stream.emit("end"),
+      );
+      return stream;
+    });
+
+  it("should move incoming files into the library under their templated name", async () => {
+    const gameImport = await service.import(sourcePath);
+
+    expect(filesService.importFile).toHaveBeenCalledWith(
+      sourcePath,
+      "Some Game (v1.2).zip",
+    );
+    expect(gameImport).toEqual(
+      expect.objectContaining({
+        source_path: sourcePath,
+        target_path: path.join("/files", "Some Game (v1.2).zip"),
+        size: BigInt(4),
+        state: GameImportState.IMPORTED,
+      }),
+    );
+    expect(gameImportRepository.save).toHaveBeenCalledWith(gameImport);
+    expect(test).not.toHaveBeenCalled();
+  });
+
+  it("should reject files with unsupported formats", async () => {
+    filesService.validateUploadFilename.mockImplementation(() => {
+      throw new BadRequestException('Unsupported file format ".txt".');
+    });
+
+    const gameImport = await service.import(sourcePath);
+
+    expect(filesService.importFile).not.toHaveBeenCalled();
+    expect(gameImport.state).toBe(GameImportState.REJECTED);
+    expect(gameImport.error).toBe('Unsupported file format ".txt".');
+    expect(gameImport.target_path).toBeUndefined();
+  });
+
+  it("should reject archives that fail the test extraction", async () => {
+    (configuration.GAMES as any).INCOMING_TEST_ARCHIVES = true;
+    mockTestResult(new Error("Unexpected end of archive"));
+
+    const gameImport = await service.import(sourcePath);
+
+    expect(test).toHaveBeenCalledWith(sourcePath, { password: "x" });
+    expect(filesService.importFile).not.toHaveBeenCalled();
+    expect(gameImport.state).toBe(GameImportState.REJECTED);
+    expect(gameImport.error).toContain("Unexpected end of archive");
+  });
+
+  it("should import archives that pass the test extraction", async () => {
+    (configuration.GAMES as any).INCOMING_TEST_ARCHIVES = true;
+    mockTestResult();
+
+    const gameImport = await service.import(sourcePath);
+
+    expect(test).toHaveBeenCalled();
+    expect(gameImport.state).toBe(GameImportState.IMPORTED);
+  });
+
+  it("should record files that failed to import", async () => {
+    filesService.importFile.mockRejectedValue(new Error("EXDEV"));
+
+    const gameImport = await service.import(sourcePath);
+
+    expect(gameImport.state).toBe(GameImportState.FAILED);
+    expect(gameImport.error).toBe("EXDEV");
+  });
+});
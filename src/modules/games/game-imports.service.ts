@@ -0,0 +1,163 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+} from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { pathExists, stat } from "fs-extra";
+import { toLower } from "lodash";
+import { test } from "node-7z";
+import path from "path";
+import { Repository } from "typeorm";
+import { isMainThread } from "worker_threads";
+
+import configuration from "../../configuration";
+import globals from "../../globals";
+import { FilesService } from "./files.service";
+import { GameImport } from "./game-import.entity";
+import { GameImportState } from "./models/game-import-state.enum";
+
+@Injectable()
+export class GameImportsService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(this.constructor.name);
+  private readonly activeImports = new Set<string>();
+
+  constructor(
+    @InjectRepository(GameImport)
+    private readonly gameImportRepository: Repository<GameImport>,
+    private readonly filesService: FilesService,
+  ) {}
+
+  /**
+   * Watches the incoming directory and imports every file in it once it
+   * stopped changing. Files that are already there are imported on startup.
+   */
+  async onApplicationBootstrap() {
+    const incomingPath = configuration.VOLUMES.INCOMING;
+    // The indexer worker bootstraps the application too, but must not import.
+    if (!incomingPath || configuration.TESTING.MOCK_FILES || !isMainThread) {
+      return;
+    }
+
+    if (!(await pathExists(incomingPath))) {
+      this.logger.warn({
+        message: "Incoming directory does not exist. Skipping watcher.",
+        path: incomingPath,
+      });
+      return;
+    }
+
+    const { watch } = await import("chokidar");
+    watch(incomingPath, {
+      depth: 0,
+      ignored: (filePath) =>
+        filePath !== incomingPath && path.basename(filePath).startsWith("."),
+      ignorePermissionErrors: true,
+      awaitWriteFinish: {
+        stabilityThreshold:
+          configuration.GAMES.INCOMING_STABILITY_THRESHOLD_IN_SECONDS * 1000,
+      },
+      usePolling: configuration.GAMES.INDEX_USE_POLLING,
+    })
+      .on("add", (filePath) =>
+        this.import(filePath).catch((error) =>
+          this.logger.error({
+            message: "Error importing file from incoming directory.",
+            path: filePath,
+            error,
+          }),
+        ),
+      )
+      .on("error", (error) =>
+        this.logger.error({
+          message: "Error in incoming directory watcher.",
+          path: incomingPath,
+          error,
+        }),
+      );
+
+    this.logger.log({
+      message: "Watching incoming directory.",
+      path: incomingPath,
+    });
+  }
+
+  /**
+   * Validates a file from the incoming directory, names it according to the
+   * rename template and moves it into the library, where it is indexed.
+   * Invalid files are rejected and stay in the incoming directory, just like
+   * files that failed to import. Every outcome is recorded.
+   */
+  public async import(sourcePath: string): Promise<GameImport | undefined> {
+    if (this.activeImports.has(sourcePath)) {
+      return undefined;
+    }
+
+    this.activeImports.add(sourcePath);
+    const gameImport = new GameImport();
+    gameImport.source_path = sourcePath;
+    try {
+      gameImport.size = BigInt((await stat(sourcePath)).size);
+
+      const filename = this.filesService.validateUploadFilename(
+        path.basename(sourcePath),
+      );
+      const targetFilename = this.filesService.getImportFilename(filename);
+      await this.filesService.prepareUploadTarget(targetFilename);
+
+      if (
+        configuration.GAMES.INCOMING_TEST_ARCHIVES &&
+        globals.ARCHIVE_FORMATS.includes(toLower(path.extname(filename)))
+      ) {
+        await this.testArchive(sourcePath);
+      }
+
+      const { path: targetPath } = await this.filesService.importFile(
+        sourcePath,
+        targetFilename,
+      );
+      gameImport.target_path = targetPath;
+      gameImport.state = GameImportState.IMPORTED;
+      this.logger.log({
+        message: "Imported game file from incoming directory.",
+        source_path: sourcePath,
+        target_path: targetPath,
+      });
+    } catch (error) {
+      gameImport.state =
+        error instanceof BadRequestException
+          ? GameImportState.REJECTED
+          : GameImportState.FAILED;
+      gameImport.error = (error as Error).message;
+      this.logger.warn({
+        message: `Game file from incoming directory was ${toLower(gameImport.state)}.`,
+        source_path: sourcePath,
+        error,
+      });
+    } finally {
+      this.activeImports.delete(sourcePath);
+    }
+
+    return this.gameImportRepository.save(gameImport);
+  }
+
+  /** Test-extracts an archive. Throws if it is corrupt or incomplete. */
+  private async testArchive(archivePath: string): Promise<void> {
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const testStream = test(archivePath, {
+          password: configuration.GAMES.DEFAULT_ARCHIVE_PASSWORD, // ANY Password is needed so it doesn't hang up
+        });
+        testStream.on("data", () => undefined);
+        testStream.on("error", (error) => reject(error));
+        testStream.on("end", () => resolve());
+      });
+    } catch (error) {
+      throw new BadRequestException(
+        `The archive failed the test extraction: ${(error as Error).message}`,
+        { cause: error },
+      );
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Column, Entity, JoinColumn, OneToOne } from "typeorm";
+
+import { DatabaseEntity } from "../database/database.entity";
+import { GamevaultGame } from "./gamevault-game.entity";
+
+/**
+ * Checksums of the download of a game, so clients can verify a download and
+ * repair single chunks of it instead of downloading it again.
+ */
+@Entity()
+export class GameManifest extends DatabaseEntity {
+  @OneToOne(() => GamevaultGame, { onDelete: "CASCADE" })
+  @JoinColumn()
+  game?: GamevaultGame;
+
+  @Column()
+  @ApiProperty({
+    description:
+      "ETag of the download the manifest describes. Compare it with the ETag of your download to make sure both describe the same file.",
+    example: '"3e8-18f3a2b4c00"',
+  })
+  etag: string;
+
+  @Column({
+    type: "bigint",
+    transformer: {
+      to: (value) => value,
+      from: (value) => {
+        if (value) return BigInt(value).toString();
+        return value;
+      },
+    },
+  })
+  @ApiProperty({
+    description: "size of the download in bytes",
+    example: "1234567890",
+    type: () => String,
+  })
+  size: bigint;
+
+  @Column()
+  @ApiProperty({
+    description: "SHA-256 hash of the entire download as hex string",
+    example: "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08",
+  })
+  hash: string;
+
+  @Column()
+  @ApiProperty({
+    description:
+      "size of the chunks in bytes. The last chunk may be smaller than this.",
+    example: 16777216,
+  })
+  chunk_size: number;
+
+  @Column({ type: "simple-json" })
+  @ApiProperty({
+    description:
+      "SHA-256 hashes of the chunks of the download as hex strings, in order",
+    example: [
+      "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08",
+    ],
+    type: () => String,
+    isArray: true,
+  })
+  chunk_hashes: string[];
+}
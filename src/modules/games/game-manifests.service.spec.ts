@@ -0,0 +1,155 @@
+import { createHash } from "crypto";
+import { pathExists } from "fs-extra";
+import { Readable } from "stream";
+import { Repository } from "typeorm";
+import { FilesService } from "./files.service";
+import { GameManifest } from "./game-manifest.entity";
+import { GameManifestsService } from "./game-manifests.service";
+import { GamesService } from "./games.service";
+import { DownloadSource } from "./models/download-source.model";
+
+jest.mock("../../configuration", () => ({
+  __esModule: true,
+  default: { TESTING: { MOCK_FILES: false } },
+}));
+
+jest.mock("../../logging", () => ({
+  logGamevaultGame: jest.fn((g) => ({ id: g?.id, path: g?.file_path })),
+}));
+
+jest.mock("fs-extra", () => ({ pathExists: jest.fn() }));
+
+jest.mock("./files.service", () => ({
+  FilesService: jest.fn(),
+}));
+
+jest.mock("./games.service", () => ({
+  GamesService: jest.fn(),
+}));
+
+describe("GameManifestsService", () => {
+  let service: GameManifestsService;
+  let gameManifestRepository: jest.Mocked<Repository<GameManifest>>;
+  let gamesService: jest.Mocked<GamesService>;
+  let filesService: jest.Mocked<FilesService>;
+
+  const sha256 = (value: string) =>
+    createHash("sha256").update(value).digest("hex");
+
+  const createSource = (etag: string, pieces: string[]): DownloadSource => ({
+    isFolderGame: false,
+    isArchive: true,
+    size: pieces.join("").length,
+    lastModified: new Date(0),
+    etag,
+    createReadStream: () =>
+      Readable.from(pieces.map((piece) => Buffer.from(piece))),
+  });
+
+  const flushQueue = async () => {
+    for (let i = 0; i < 20; i++) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  };
+
+  beforeEach(() => {
+    (pathExists as jest.Mock).mockResolvedValue(true);
+
+    gameManifestRepository = {
+      findOneBy: jest.fn().mockResolvedValue(null),
+      create: jest.fn((manifest) =>
+        Object.assign(new GameManifest(), manifest),
+      ),
+      save: jest.fn(async (manifest) => manifest),
+    } as any;
+
+    gamesService = {
+      findOneByGameIdOrFail: jest.fn(async (id) => ({
+        id,
+        file_path: `/files/Game ${id}.zip`,
+      })),
+    } as any;
+
+    filesService = {
+      getDownloadSource: jest
+        .fn()
+        .mockResolvedValue(createSource('"a-1"', ["abc", "defgh", "ij"])),
+    } as any;
+
+    service = new GameManifestsService(
+      gameManifestRepository,
+      gamesService,
+      filesService,
+    );
+    (service as any).chunkSize = 4;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should hash the entire download and each of its chunks", async () => {
+    await expect(
+      service.calculateHashes(createSource('"a-1"', ["abc", "defgh", "ij"])),
+    ).resolves.toEqual({
+      hash: sha256("abcdefghij"),
+      chunk_hashes: [sha256("abcd"), sha256("efgh"), sha256("ij")],
+    });
+    await expect(
+      service.calculateHashes(createSource('"0-1"', [])),
+    ).resolves.toEqual({ hash: sha256(""), chunk_hashes: [] });
+  });
+
+  it("should return the cached manifest if the download is unchanged", async () => {
+    const manifest = Object.assign(new GameManifest(), { etag: '"a-1"' });
+    gameManifestRepository.findOneBy.mockResolvedValue(manifest);
+
+    await expect(service.findByGameId(1, 16)).resolves.toBe(manifest);
+    expect(gamesService.findOneByGameIdOrFail).toHaveBeenCalledWith(1, {
+      loadDeletedEntities: false,
+      filterByAge: 16,
+    });
+    expect(gameManifestRepository.save).not.toHaveBeenCalled();
+  });
+
+  it("should generate the manifest in the background if it is outdated", async () => {
+    gameManifestRepository.findOneBy.mockResolvedValue(
+      Object.assign(new GameManifest(), { id: 3, etag: '"b-1"' }),
+    );
+
+    await expect(service.findByGameId(1)).resolves.toBeUndefined();
+    await flushQueue();
+
+    expect(gameManifestRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 3,
+        etag: '"a-1"',
+        size: BigInt(10),
+        hash: sha256("abcdefghij"),
+        chunk_size: 4,
+        chunk_hashes: [sha256("abcd"), sha256("efgh"), sha256("ij")],
+      }),
+    );
+  });
+
+  it("should discard the manifest if the file changed while hashing it", async () => {
+    filesService.getDownloadSource
+      .mockResolvedValueOnce(createSource('"a-1"', ["abcdefghij"]))
+      .mockResolvedValueOnce(createSource('"a-1"', ["abcdefghij"]))
+      .mockResolvedValueOnce(createSource('"a-2"', ["abcdefghik"]));
+
+    await expect(service.findByGameId(1)).resolves.toBeUndefined();
+    await flushQueue();
+
+    expect(gameManifestRepository.save).not.toHaveBeenCalled();
+  });
+
+  it("should throw if the game file is missing", async () => {
+    (pathExists as jest.Mock).mockResolvedValue(false);
+
+    await expect(service.findByGameId(1)).rejects.toThrow(
+      'The game file "/files/Game 1.zip" could not be found.',
+    );
+    expect(filesService.getDownloadSource).not.toHaveBeenCalled();
+  });
+});
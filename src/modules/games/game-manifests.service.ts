@@ -0,0 +1,189 @@
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { createHash } from "crypto";
+import { pathExists } from "fs-extra";
+import { Repository } from "typeorm";
+
+import configuration from "../../configuration";
+import { logGamevaultGame } from "../../logging";
+import { FilesService } from "./files.service";
+import { GameManifest } from "./game-manifest.entity";
+import { GamesService } from "./games.service";
+import { DownloadSource } from "./models/download-source.model";
+
+/**
+ * Generates checksum manifests of game downloads in the background. Manifests
+ * are generated when they are first requested and cached until the download
+ * of the game changes.
+ */
+@Injectable()
+export class GameManifestsService {
+  private readonly logger = new Logger(this.constructor.name);
+  private readonly chunkSize = 16 * 1024 * 1024;
+  private readonly manifestJobs = new Set<number>();
+  private isProcessingQueue = false;
+
+  constructor(
+    @InjectRepository(GameManifest)
+    private readonly gameManifestRepository: Repository<GameManifest>,
+    private readonly gamesService: GamesService,
+    private readonly filesService: FilesService,
+  ) {}
+
+  /**
+   * Returns the manifest of the current download of a game. If it has not
+   * been generated yet or is outdated, it is enqueued for generation and
+   * undefined is returned.
+   */
+  public async findByGameId(
+    gameId: number,
+    filterByAge?: number,
+  ): Promise<GameManifest | undefined> {
+    const game = await this.gamesService.findOneByGameIdOrFail(gameId, {
+      loadDeletedEntities: false,
+      filterByAge,
+    });
+    if (configuration.TESTING.MOCK_FILES) {
+      throw new NotFoundException(
+        "Manifests are not available as TESTING_MOCK_FILES is set to true.",
+      );
+    }
+    if (!(await pathExists(game.file_path))) {
+      throw new NotFoundException(
+        `The game file "${game.file_path}" could not be found.`,
+      );
+    }
+
+    const source = await this.filesService.getDownloadSource(game.file_path);
+    const manifest = await this.gameManifestRepository.findOneBy({
+      game: { id: game.id },
+    });
+    if (manifest?.etag === source.etag) {
+      return manifest;
+    }
+
+    this.addManifestJob(game.id);
+    return undefined;
+  }
+
+  /**
+   * Enqueues the generation of the manifest of a game.
+   * Manifests are generated sequentially in the background.
+   */
+  public addManifestJob(gameId: number): void {
+    if (this.manifestJobs.has(gameId)) {
+      this.logger.debug({
+        message: "Skipping manifest job as it is already enqueued.",
+        game: { id: gameId },
+      });
+      return;
+    }
+
+    this.manifestJobs.add(gameId);
+    this.processQueue();
+  }
+
+  /**
+   * Calculates the SHA-256 hash of a download and of each of its chunks as
+   * hex strings in a single pass.
+   */
+  public async calculateHashes(
+    source: DownloadSource,
+  ): Promise<{ hash: string; chunk_hashes: string[] }> {
+    const hash = createHash("sha256");
+    const chunkHashes: string[] = [];
+    let chunkHash = createHash("sha256");
+    let chunkLength = 0;
+
+    const stream =
+      source.size > 0 ? source.createReadStream(0, source.size - 1) : [];
+    for await (const data of stream) {
+      const buffer = data as Buffer;
+      hash.update(buffer);
+      let offset = 0;
+      while (offset < buffer.length) {
+        const length = Math.min(
+          buffer.length - offset,
+          this.chunkSize - chunkLength,
+        );
+        chunkHash.update(buffer.subarray(offset, offset + length));
+        chunkLength += length;
+        offset += length;
+        if (chunkLength === this.chunkSize) {
+          chunkHashes.push(chunkHash.digest("hex"));
+          chunkHash = createHash("sha256");
+          chunkLength = 0;
+        }
+      }
+    }
+    if (chunkLength > 0) {
+      chunkHashes.push(chunkHash.digest("hex"));
+    }
+
+    return { hash: hash.digest("hex"), chunk_hashes: chunkHashes };
+  }
+
+  /**
+   * Processes the queue sequentially
+   */
+  private async processQueue(): Promise<void> {
+    if (this.isProcessingQueue) return;
+    this.isProcessingQueue = true;
+
+    while (this.manifestJobs.size > 0) {
+      const gameId = this.manifestJobs.values().next().value;
+      try {
+        await this.generateManifest(gameId);
+      } catch (error) {
+        this.logger.warn({
+          message: "Error generating manifest of game.",
+          game: { id: gameId },
+          error,
+        });
+      } finally {
+        this.manifestJobs.delete(gameId);
+      }
+    }
+
+    this.isProcessingQueue = false;
+  }
+
+  private async generateManifest(gameId: number): Promise<void> {
+    const game = await this.gamesService.findOneByGameIdOrFail(gameId, {
+      loadDeletedEntities: false,
+      loadRelations: false,
+    });
+    const source = await this.filesService.getDownloadSource(game.file_path);
+    const manifest =
+      (await this.gameManifestRepository.findOneBy({
+        game: { id: game.id },
+      })) ?? this.gameManifestRepository.create({ game: { id: game.id } });
+    if (manifest.etag === source.etag) {
+      return;
+    }
+
+    const hashes = await this.calculateHashes(source);
+
+    // Discard the manifest if the file has been altered while hashing it.
+    const { etag } = await this.filesService.getDownloadSource(game.file_path);
+    if (etag !== source.etag) {
+      this.logger.debug({
+        message: "Game file changed while generating manifest. Discarding it.",
+        game: logGamevaultGame(game),
+      });
+      return;
+    }
+
+    manifest.etag = source.etag;
+    manifest.size = BigInt(source.size);
+    manifest.hash = hashes.hash;
+    manifest.chunk_size = this.chunkSize;
+    manifest.chunk_hashes = hashes.chunk_hashes;
+    await this.gameManifestRepository.save(manifest);
+    this.logger.log({
+      message: "Generated manifest of game.",
+      game: logGamevaultGame(game),
+      chunks: hashes.chunk_hashes.length,
+    });
+  }
+}
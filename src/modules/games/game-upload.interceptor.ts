@@ -0,0 +1,27 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { FileInterceptor } from "@nestjs/platform-express";
+import { diskStorage } from "multer";
+
+import { UploadsService } from "./uploads.service";
+
+/**
+ * Receives the "file" field of multipart game uploads into the staging area
+ * of the upload library. The staging area is only created once a file is
+ * uploaded, so servers with read-only libraries still start.
+ */
+@Injectable()
+export class GameUploadInterceptor extends FileInterceptor("file") {
+  // The injection token is explicit, as FileInterceptor declares its own.
+  constructor(@Inject(UploadsService) uploadsService: UploadsService) {
+    super({
+      storage: diskStorage({
+        destination: (_request, _file, callback) => {
+          uploadsService.prepareStagingDirectory().then(
+            (directory) => callback(null, directory),
+            (error: Error) => callback(error, undefined),
+          );
+        },
+      }),
+    });
+  }
+}
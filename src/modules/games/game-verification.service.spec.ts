@@ -0,0 +1,146 @@
+import { BadRequestException } from "@nestjs/common";
+import { EventEmitter } from "events";
+import { pathExists } from "fs-extra";
+import { test } from "node-7z";
+import configuration from "../../configuration";
+import { GameVerificationService } from "./game-verification.service";
+import { GamesService } from "./games.service";
+
+jest.mock("../../configuration", () => ({
+  __esModule: true,
+  default: {
+    GAMES: {
+      VERIFICATION_ENABLED: true,
+      VERIFICATION_INTERVAL_IN_DAYS: 30,
+      VERIFICATION_BATCH_SIZE: 2,
+      DEFAULT_ARCHIVE_PASSWORD: "x",
+    },
+    TESTING: { MOCK_FILES: false },
+  },
+}));
+
+jest.mock("../../globals", () => ({
+  __esModule: true,
+  default: { ARCHIVE_FORMATS: [".zip", ".7z"] },
+}));
+
+jest.mock("../../logging", () => ({
+  logGamevaultGame: jest.fn((g) => ({ id: g?.id, path: g?.file_path })),
+}));
+
+jest.mock("fs-extra", () => ({ pathExists: jest.fn() }));
+
+jest.mock("node-7z", () => ({ test: jest.fn() }));
+
+jest.mock("./games.service", () => ({
+  GamesService: jest.fn(),
+}));
+
+describe("GameVerificationService", () => {
+  let service: GameVerificationService;
+  let gamesService: jest.Mocked<GamesService>;
+
+  beforeEach(() => {
+    (configuration.GAMES as any).VERIFICATION_ENABLED = true;
+    (pathExists as jest.Mock).mockResolvedValue(true);
+
+    gamesService = {
+      findOneByGameIdOrFail: jest.fn(async (id) => ({
+        id,
+        file_path: `/files/Game ${id}.zip`,
+      })),
+      findUnverified: jest.fn(),
+      findArchivePassword: jest.fn().mockResolvedValue(null),
+      updateVerification: jest.fn(),
+    } as any;
+
+    service = new GameVerificationService(gamesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const mockTestResult = (error?: Error) =>
+    (test as jest.Mock).mockImplementation(() => {
+      const stream = new EventEmitter();
+      process.nextTick(() =>
+        error ? stream.emit("error", error) : stream.emit("end"),
+      );
+      return stream;
+    });
+
+  it("should record archives that pass the test", async () => {
+    mockTestResult();
+
+    await service.verify(1);
+
+    expect(test).toHaveBeenCalledWith("/files/Game 1.zip", { password: "x" });
+    expect(gamesService.updateVerification).toHaveBeenCalledWith(1, undefined);
+  });
+
+  it("should record the error output of archives that fail the test", async () => {
+    mockTestResult(new Error("ERROR: CRC Failed : Game/data.pak"));
+    gamesService.findArchivePassword.mockResolvedValue("Hunter2");
+
+    await service.verify(1);
+
+    expect(test).toHaveBeenCalledWith("/files/Game 1.zip", {
+      password: "Hunter2",
+    });
+    expect(gamesService.updateVerification).toHaveBeenCalledWith(
+      1,
+      "ERROR: CRC Failed : Game/data.pak",
+    );
+  });
+
+  it("should not verify files that are no archives", async () => {
+    gamesService.findOneByGameIdOrFail.mockResolvedValue({
+      id: 1,
+      file_path: "/files/Game.exe",
+    } as any);
+
+    await expect(service.verify(1)).rejects.toThrow(BadRequestException);
+    expect(test).not.toHaveBeenCalled();
+  });
+
+  it("should record archives that are missing as failed", async () => {
+    (pathExists as jest.Mock).mockResolvedValue(false);
+
+    await service.verify(1);
+
+    expect(test).not.toHaveBeenCalled();
+    expect(gamesService.updateVerification).toHaveBeenCalledWith(
+      1,
+      'The game file "/files/Game 1.zip" could not be found.',
+    );
+  });
+
+  it("should verify the archives that are due, at most one batch per run", async () => {
+    mockTestResult();
+    gamesService.findUnverified.mockResolvedValue([
+      { id: 2, file_path: "/files/Game 2.zip" },
+      { id: 3, file_path: "/files/Game 3.7z" },
+    ] as any);
+
+    await service.verifyArchives();
+
+    const [verifiedBefore, take] = gamesService.findUnverified.mock.calls[0];
+    expect(Date.now() - verifiedBefore.getTime()).toBeGreaterThanOrEqual(
+      30 * 24 * 60 * 60 * 1000,
+    );
+    expect(take).toBe(2);
+    expect(gamesService.updateVerification.mock.calls).toEqual([
+      [2, undefined],
+      [3, undefined],
+    ]);
+  });
+
+  it("should not verify archives if verification is disabled", async () => {
+    (configuration.GAMES as any).VERIFICATION_ENABLED = false;
+
+    await service.verifyArchives();
+
+    expect(gamesService.findUnverified).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+import { BadRequestException, Injectable, Logger } from "@nestjs/common";
+import { Interval } from "@nestjs/schedule";
+import { pathExists } from "fs-extra";
+import { toLower } from "lodash";
+import ms from "ms";
+import { test } from "node-7z";
+import path from "path";
+
+import configuration from "../../configuration";
+import globals from "../../globals";
+import { logGamevaultGame } from "../../logging";
+import { GamesService } from "./games.service";
+import { GamevaultGame } from "./gamevault-game.entity";
+
+/**
+ * Tests game archives in the background, so corrupt uploads and bit-rot are
+ * found before an installation fails halfway. Archives are tested one at a
+ * time, and unchanged archives are only tested again once the verification
+ * interval has passed.
+ */
+@Injectable()
+export class GameVerificationService {
+  private readonly logger = new Logger(this.constructor.name);
+  private isVerifying = false;
+
+  constructor(private readonly gamesService: GamesService) {}
+
+  /**
+   * Tests the archives of the games that are due, at most
+   * GAMES_VERIFICATION_BATCH_SIZE per run.
+   */
+  @Interval("verifyArchives", ms("1h"))
+  public async verifyArchives(): Promise<void> {
+    if (
+      !configuration.GAMES.VERIFICATION_ENABLED ||
+      configuration.TESTING.MOCK_FILES ||
+      this.isVerifying
+    ) {
+      return;
+    }
+
+    this.isVerifying = true;
+    try {
+      const verifiedBefore = new Date(
+        Date.now() -
+          configuration.GAMES.VERIFICATION_INTERVAL_IN_DAYS *
+            24 *
+            60 *
+            60 *
+            1000,
+      );
+      const games = await this.gamesService.findUnverified(
+        verifiedBefore,
+        configuration.GAMES.VERIFICATION_BATCH_SIZE,
+      );
+      for (const game of games) {
+        try {
+          await this.verify(game.id);
+        } catch (error) {
+          this.logger.warn({
+            message: "Error verifying game archive.",
+            game: logGamevaultGame(game),
+            error,
+          });
+        }
+      }
+    } finally {
+      this.isVerifying = false;
+    }
+  }
+
+  /** Tests the archive of a game and records the result on the game. */
+  public async verify(gameId: number): Promise<GamevaultGame> {
+    const game = await this.gamesService.findOneByGameIdOrFail(gameId, {
+      loadDeletedEntities: false,
+    });
+    if (!this.isArchive(game.file_path)) {
+      throw new BadRequestException(
+        `The file of game ${game.id} is no archive and can't be verified.`,
+      );
+    }
+    let error: string | undefined;
+    if (!(await pathExists(game.file_path))) {
+      // Recorded as failure, so missing files don't hold up the other games
+      error = `The game file "${game.file_path}" could not be found.`;
+    } else {
+      try {
+        await this.testArchive(
+          game.file_path,
+          await this.gamesService.findArchivePassword(game.file_path),
+        );
+      } catch (testError) {
+        error = (testError as Error).message;
+      }
+    }
+    await this.gamesService.updateVerification(game.id, error);
+
+    if (error) {
+      this.logger.warn({
+        message: "Game archive failed the integrity test.",
+        game: logGamevaultGame(game),
+        error,
+      });
+    } else {
+      this.logger.log({
+        message: "Game archive passed the integrity test.",
+        game: logGamevaultGame(game),
+      });
+    }
+    return this.gamesService.findOneByGameIdOrFail(gameId, {
+      loadDeletedEntities: false,
+      loadRelations: true,
+    });
+  }
+
+  private isArchive(filePath: string): boolean {
+    return globals.ARCHIVE_FORMATS.includes(toLower(path.extname(filePath)));
+  }
+
+  /** Test-extracts an archive. Throws if it is corrupt or incomplete. */
+  private async testArchive(
+    archivePath: string,
+    password?: string,
+  ): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const testStream = test(archivePath, {
+        password: password || configuration.GAMES.DEFAULT_ARCHIVE_PASSWORD, // ANY Password is needed so it doesn't hang up
+      });
+      testStream.on("data", () => undefined);
+      testStream.on("error", (error) => reject(error));
+      testStream.on("end", () => resolve());
+    });
+  }
+}
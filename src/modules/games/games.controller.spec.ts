@@ -5,9 +5,13 @@ import { GamevaultUser } from "../users/gamevault-user.entity";
 import { Role } from "../users/models/role.enum";
 import { UsersService } from "../users/users.service";
 import { FilesService } from "./files.service";
+import { GameManifest } from "./game-manifest.entity";
+import { GameManifestsService } from "./game-manifests.service";
+import { GameVerificationService } from "./game-verification.service";
 import { GamesController } from "./games.controller";
 import { GamesService } from "./games.service";
 import { GamevaultGame } from "./gamevault-game.entity";
+import { IndexJobTrigger } from "./models/index-job-trigger.enum";
 
 describe("GamesController", () => {
   let controller: GamesController;
@@ -17,6 +21,8 @@ describe("GamesController", () => {
   let progressRepository: jest.Mocked<Repository<Progress>>;
   let usersService: jest.Mocked<UsersService>;
   let otpService: jest.Mocked<OtpService>;
+  let gameVerificationService: jest.Mocked<GameVerificationService>;
+  let gameManifestsService: jest.Mocked<GameManifestsService>;
 
   const createMockUser = (
     overrides: Partial<GamevaultUser> = {},
@@ -44,14 +50,23 @@ describe("GamesController", () => {
     gamesService = {
       findOneByGameIdOrFail: jest.fn(),
       findRandom: jest.fn(),
+      findVersionOrFail: jest.fn(),
+      findAddonOrFail: jest.fn(),
+      findArchivePassword: jest.fn(),
       update: jest.fn(),
     } as any;
 
     filesService = {
       indexAllFiles: jest.fn(),
       download: jest.fn(),
+      getContents: jest.fn(),
+      parseFilename: jest.fn(),
       deleteGameFile: jest.fn(),
       upload: jest.fn(),
+      confirmPendingDeletions: jest.fn(),
+      discardPendingDeletions: jest.fn(),
+      renameGameFiles: jest.fn(),
+      reanalyzeFile: jest.fn(),
     } as any;
 
     gamesRepository = {
@@ -71,6 +86,14 @@ describe("GamesController", () => {
       create: jest.fn().mockReturnValue("mock-otp"),
     } as any;
 
+    gameVerificationService = {
+      verify: jest.fn(),
+    } as any;
+
+    gameManifestsService = {
+      findByGameId: jest.fn(),
+    } as any;
+
     controller = new GamesController(
       gamesService,
       filesService,
@@ -78,6 +101,8 @@ describe("GamesController", () => {
       progressRepository,
       usersService,
       otpService,
+      gameVerificationService,
+      gameManifestsService,
     );
   });
 
@@ -85,7 +110,32 @@ describe("GamesController", () => {
     it("should trigger file reindexing", async () => {
       filesService.indexAllFiles.mockResolvedValue(undefined);
       await controller.putFilesReindex();
-      expect(filesService.indexAllFiles).toHaveBeenCalled();
+      expect(filesService.indexAllFiles).toHaveBeenCalledWith(
+        IndexJobTrigger.MANUAL,
+      );
+    });
+  });
+
+  describe("pending deletions", () => {
+    it("should confirm the pending deletions", async () => {
+      const games = [{ id: 3 }] as any;
+      filesService.confirmPendingDeletions.mockResolvedValue(games);
+      expect(await controller.postGamePendingDeletionsConfirm()).toBe(games);
+    });
+
+    it("should discard the pending deletions", async () => {
+      await controller.postGamePendingDeletionsDiscard();
+      expect(filesService.discardPendingDeletions).toHaveBeenCalled();
+    });
+  });
+
+  describe("postGamesRename", () => {
+    it("should preview renaming the whole library by default", async () => {
+      await controller.postGamesRename({ template: "{title}.{ext}" });
+      expect(filesService.renameGameFiles).toHaveBeenCalledWith(
+        "{title}.{ext}",
+        true,
+      );
     });
   });
 
@@ -112,6 +162,23 @@ describe("GamesController", () => {
     });
   });
 
+  describe("postGameParse", () => {
+    it("should dry-run the parsing of a filename", async () => {
+      const parsed = { title: "Some Game", early_access: false };
+      filesService.parseFilename.mockReturnValue(parsed);
+
+      const result = await controller.postGameParse({
+        filename: "Some Game.zip",
+        is_folder_game: false,
+      });
+      expect(result).toBe(parsed);
+      expect(filesService.parseFilename).toHaveBeenCalledWith(
+        "Some Game.zip",
+        false,
+      );
+    });
+  });
+
   describe("getGameRandom", () => {
     it("should return a random game", async () => {
       const mockGame = createMockGame();
@@ -150,6 +217,65 @@ describe("GamesController", () => {
     });
   });
 
+  describe("postGameVerify", () => {
+    it("should verify the archive of a game", async () => {
+      const verifiedGame = createMockGame();
+      gameVerificationService.verify.mockResolvedValue(verifiedGame);
+
+      const result = await controller.postGameVerify({ game_id: 1 });
+
+      expect(gameVerificationService.verify).toHaveBeenCalledWith(1);
+      expect(result).toBe(verifiedGame);
+    });
+  });
+
+  describe("getGameContents", () => {
+    it("should return the file tree of a game", async () => {
+      const contents = { size: 10, file_count: 1, entries: [] };
+      filesService.getContents.mockResolvedValue(contents);
+      usersService.findUserAgeByUsername.mockResolvedValue(16);
+
+      const result = await controller.getGameContents(
+        { user: createMockUser() },
+        { game_id: 5 },
+      );
+      expect(result).toBe(contents);
+      expect(filesService.getContents).toHaveBeenCalledWith(5, 16);
+    });
+  });
+
+  describe("getGameManifest", () => {
+    it("should return the manifest of the download of a game", async () => {
+      const manifest = new GameManifest();
+      const mockResponse = { status: jest.fn(), setHeader: jest.fn() } as any;
+      gameManifestsService.findByGameId.mockResolvedValue(manifest);
+      usersService.findUserAgeByUsername.mockResolvedValue(16);
+
+      const result = await controller.getGameManifest(
+        { user: createMockUser() },
+        { game_id: 5 },
+        mockResponse,
+      );
+      expect(result).toBe(manifest);
+      expect(gameManifestsService.findByGameId).toHaveBeenCalledWith(5, 16);
+      expect(mockResponse.status).not.toHaveBeenCalled();
+    });
+
+    it("should accept the request while the manifest is being generated", async () => {
+      const mockResponse = { status: jest.fn(), setHeader: jest.fn() } as any;
+      gameManifestsService.findByGameId.mockResolvedValue(undefined);
+
+      const result = await controller.getGameManifest(
+        { user: createMockUser() },
+        { game_id: 5 },
+        mockResponse,
+      );
+      expect(result).toBeUndefined();
+      expect(mockResponse.status).toHaveBeenCalledWith(202);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith("Retry-After", 30);
+    });
+  });
+
   describe("getGameDownload", () => {
     it("should download a game and set OTP header", async () => {
       const mockUser = createMockUser();
@@ -162,6 +288,7 @@ describe("GamesController", () => {
         mockResponse,
         "1024",
         "bytes=0-999",
+        '"3e8-1"',
       );
 
       expect(otpService.create).toHaveBeenCalledWith("testuser", 42, 1024);
@@ -172,10 +299,93 @@ describe("GamesController", () => {
         1024,
         "bytes=0-999",
         undefined,
+        '"3e8-1"',
       );
     });
   });
 
+  describe("getGameVersionDownload", () => {
+    it("should download a version of a game", async () => {
+      const mockUser = createMockUser();
+      const mockResponse = { setHeader: jest.fn() } as any;
+      gamesService.findVersionOrFail.mockResolvedValue({ id: 43 } as any);
+      filesService.download.mockResolvedValue({} as any);
+
+      await controller.getGameVersionDownload(
+        { user: mockUser },
+        { game_id: 42, version_id: 43 },
+        mockResponse,
+      );
+
+      expect(gamesService.findVersionOrFail).toHaveBeenCalledWith(
+        42,
+        43,
+        undefined,
+      );
+      expect(otpService.create).toHaveBeenCalledWith("testuser", 43, NaN);
+      expect(filesService.download).toHaveBeenCalledWith(
+        mockResponse,
+        43,
+        NaN,
+        undefined,
+        undefined,
+        undefined,
+      );
+    });
+  });
+
+  describe("getGameAddonDownload", () => {
+    it("should download an add-on of a game", async () => {
+      const mockUser = createMockUser();
+      const mockResponse = { setHeader: jest.fn() } as any;
+      gamesService.findAddonOrFail.mockResolvedValue({ id: 44 } as any);
+      filesService.download.mockResolvedValue({} as any);
+
+      await controller.getGameAddonDownload(
+        { user: mockUser },
+        { game_id: 42, addon_id: 44 },
+        mockResponse,
+      );
+
+      expect(gamesService.findAddonOrFail).toHaveBeenCalledWith(
+        42,
+        44,
+        undefined,
+      );
+      expect(otpService.create).toHaveBeenCalledWith("testuser", 44, NaN);
+      expect(filesService.download).toHaveBeenCalledWith(
+        mockResponse,
+        44,
+        NaN,
+        undefined,
+        undefined,
+        undefined,
+      );
+    });
+  });
+
+  describe("getGameArchivePassword", () => {
+    it("should return the archive password of games the user can download", async () => {
+      usersService.findUserAgeByUsername.mockResolvedValue(16);
+      gamesService.findOneByGameIdOrFail.mockResolvedValue(createMockGame());
+      gamesService.findArchivePassword.mockResolvedValue("Hunter2");
+
+      const result = await controller.getGameArchivePassword(
+        { user: createMockUser() },
+        { game_id: 1 },
+      );
+
+      expect(gamesService.findOneByGameIdOrFail).toHaveBeenCalledWith(1, {
+        loadDeletedEntities: false,
+        filterByAge: 16,
+      });
+      expect(gamesService.findArchivePassword).toHaveBeenCalledWith(
+        "/games/test-game.zip",
+      );
+      expect(result).toEqual({ archive_password: "Hunter2" });
+    });
+  });
+
   describe("putGameUpdate", () => {
     it("should update game details", async () => {
       const updatedGame = createMockGame({ title: "Updated Game" });
@@ -188,6 +398,21 @@ describe("GamesController", () => {
       expect(gamesService.update).toHaveBeenCalledWith(1, {
         title: "Updated Game",
       });
+      expect(filesService.reanalyzeFile).not.toHaveBeenCalled();
+    });
+
+    it("should analyze the game again after its archive password changed", async () => {
+      const analyzedGame = createMockGame({ title: "Analyzed Game" });
+      gamesService.update.mockResolvedValue(createMockGame());
+      gamesService.findOneByGameIdOrFail.mockResolvedValue(analyzedGame);
+
+      const result = await controller.putGameUpdate(
+        { game_id: 1 },
+        { archive_password: "Hunter2" },
+      );
+
+      expect(filesService.reanalyzeFile).toHaveBeenCalledWith(1);
+      expect(result).toBe(analyzedGame);
     });
   });
 });
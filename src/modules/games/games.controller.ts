@@ -5,6 +5,7 @@ import {
   Get,
   Header,
   Headers,
+  HttpStatus,
   Logger,
   MaxFileSizeValidator,
   Param,
@@ -18,6 +19,7 @@ import {
   UseInterceptors,
 } from "@nestjs/common";
 import {
+  ApiAcceptedResponse,
   ApiBearerAuth,
   ApiBody,
   ApiConsumes,
@@ -37,9 +39,8 @@ import {
   PaginationType,
   paginate,
 } from "nestjs-paginate";
-import { In, Not, Repository } from "typeorm";
+import { In, IsNull, Not, Repository } from "typeorm";
 
-import { FileInterceptor } from "@nestjs/platform-express";
 import bytes from "bytes";
 import { isArray } from "lodash";
 import { FilterSuffix } from "nestjs-paginate/lib/filter";
@@ -55,9 +56,25 @@ import { GamevaultUser } from "../users/gamevault-user.entity";
 import { Role } from "../users/models/role.enum";
 import { UsersService } from "../users/users.service";
 import { FilesService } from "./files.service";
+import { GameManifest } from "./game-manifest.entity";
+import { GameManifestsService } from "./game-manifests.service";
+import { GameUploadInterceptor } from "./game-upload.interceptor";
+import { GameVerificationService } from "./game-verification.service";
 import { GamesService } from "./games.service";
 import { GamevaultGame } from "./gamevault-game.entity";
+import { IndexJob } from "./index-job.entity";
+import { DuplicateGroup } from "./models/duplicate-group.model";
+import { GameAddonIdDto } from "./models/game-addon-id.dto";
+import { GameArchivePassword } from "./models/game-archive-password.model";
+import { GameContents } from "./models/game-contents.model";
+import { GameFileRename } from "./models/game-file-rename.model";
 import { GameIdDto } from "./models/game-id.dto";
+import { GameVerificationReport } from "./models/game-verification-report.model";
+import { GameVersionIdDto } from "./models/game-version-id.dto";
+import { IndexJobTrigger } from "./models/index-job-trigger.enum";
+import { ParseFilenameDto } from "./models/parse-filename.dto";
+import { ParsedFilename } from "./models/parsed-filename.model";
+import { RenameGameFilesDto } from "./models/rename-game-files.dto";
 import { UpdateGameDto } from "./models/update-game.dto";
 
 @ApiBearerAuth()
@@ -76,6 +93,8 @@ export class GamesController {
     private readonly progressRepository: Repository<Progress>,
     private readonly usersService: UsersService,
     private readonly otpService: OtpService,
+    private readonly gameVerificationService: GameVerificationService,
+    private readonly gameManifestsService: GameManifestsService,
   ) {}
 
   @Put("reindex")
@@ -83,10 +102,51 @@ export class GamesController {
     summary: "manually triggers an index of all games",
     operationId: "putFilesReindex",
   })
-  @ApiOkResponse({ type: () => GamevaultGame, isArray: true })
+  @ApiOkResponse({ type: () => IndexJob })
   @MinimumRole(Role.ADMIN)
   async putFilesReindex() {
-    return this.filesService.indexAllFiles();
+    return this.filesService.indexAllFiles(IndexJobTrigger.MANUAL);
+  }
+
+  /** Lists games whose files are missing and that are pending deletion. */
+  @Get("pending-deletions")
+  @ApiOperation({
+    summary: "get a list of games whose files are missing",
+    description:
+      "Games whose files are missing are soft-deleted once the deletion grace period has passed. If more than the deletion threshold of the library is missing at once, the deletion is held and the server status is set to DEGRADED until an admin confirms or discards it. Only administrators can use this endpoint.",
+    operationId: "getGamePendingDeletions",
+  })
+  @ApiOkResponse({ type: () => GamevaultGame, isArray: true })
+  @MinimumRole(Role.ADMIN)
+  async getGamePendingDeletions(): Promise<GamevaultGame[]> {
+    return this.gamesService.findMissing();
+  }
+
+  /** Soft-deletes all games whose files are missing right away. */
+  @Post("pending-deletions/confirm")
+  @ApiOperation({
+    summary: "confirm the pending deletions of games whose files are missing",
+    description:
+      "Soft-deletes all games whose files are missing without waiting for the grace period, including held deletions, and returns them. Games whose files are available again are kept. Only administrators can use this endpoint.",
+    operationId: "postGamePendingDeletionsConfirm",
+  })
+  @ApiOkResponse({ type: () => GamevaultGame, isArray: true })
+  @MinimumRole(Role.ADMIN)
+  async postGamePendingDeletionsConfirm(): Promise<GamevaultGame[]> {
+    return this.filesService.confirmPendingDeletions();
+  }
+
+  /** Keeps all games whose files are missing. */
+  @Post("pending-deletions/discard")
+  @ApiOperation({
+    summary: "discard the pending deletions of games whose files are missing",
+    description:
+      "Keeps all games whose files are missing, including held deletions. If their files are still missing on the next index, their grace period starts over. Only administrators can use this endpoint.",
+    operationId: "postGamePendingDeletionsDiscard",
+  })
+  @MinimumRole(Role.ADMIN)
+  async postGamePendingDeletionsDiscard(): Promise<void> {
+    return this.filesService.discardPendingDeletions();
   }
 
   /** Deletes a game file from disk. Admins only. */
@@ -94,7 +154,7 @@ export class GamesController {
   @ApiOperation({
     summary: "deletes a game file from disk",
     description:
-      "Permanently deletes the physical game file from the filesystem. The file indexer will automatically detect the missing file and soft-delete the game from the database. Only administrators can use this endpoint. The server must have write permissions on the files volume.",
+      "Permanently deletes the physical game file from the filesystem and soft-deletes the game from the database. Only administrators can use this endpoint. The server must have write permissions on the files volume.",
     operationId: "deleteGame",
   })
   @MinimumRole(Role.ADMIN)
@@ -107,7 +167,7 @@ export class GamesController {
   @Post()
   @ApiOperation({
     summary: "upload a game file to the server",
-    description: `Upload a game file directly to the game library. Only administrators can use this endpoint. The file must have a supported game file format. The server must have write permissions on the files volume.`,
+    description: `Upload a game file directly to the game library. Only administrators can use this endpoint. The file must have a supported game file format. The server must have write permissions on the files volume. For large files, use the resumable upload endpoints under /games/uploads instead.`,
     operationId: "postGameUpload",
   })
   @ApiConsumes("multipart/form-data")
@@ -132,7 +192,7 @@ export class GamesController {
       },
     },
   })
-  @UseInterceptors(FileInterceptor("file"))
+  @UseInterceptors(GameUploadInterceptor)
   @MinimumRole(Role.ADMIN)
   @DisableApiIf(configuration.SERVER.DEMO_MODE_ENABLED)
   async postGameUpload(
@@ -151,6 +211,37 @@ export class GamesController {
     return this.filesService.upload(file);
   }
 
+  /** Shows how a filename would be parsed by the indexer. Admins only. */
+  @Post("parse")
+  @ApiOperation({
+    summary: "dry-run the parsing of a game filename",
+    description:
+      "Parses the given filename the same way the indexer does, without indexing anything. The configured parsing profiles (GAMES_PARSING_PROFILES) are tried in order, falling back to the built-in naming convention for fields the matching profile does not capture. Only administrators can use this endpoint.",
+    operationId: "postGameParse",
+  })
+  @ApiOkResponse({ type: () => ParsedFilename })
+  @MinimumRole(Role.ADMIN)
+  async postGameParse(@Body() dto: ParseFilenameDto): Promise<ParsedFilename> {
+    return this.filesService.parseFilename(dto.filename, dto.is_folder_game);
+  }
+
+  /** Renames the files of all games according to a template. Admins only. */
+  @Post("rename")
+  @ApiOperation({
+    summary: "rename the files of all games according to a template",
+    description:
+      "Renames or moves the files of all games within their libraries according to a filename template, using the effective metadata of the games. By default this is a dry run that only previews the new paths. Lists the games whose paths change, including those that can't be renamed and why. Only administrators can use this endpoint.",
+    operationId: "postGamesRename",
+  })
+  @ApiOkResponse({ type: () => GameFileRename, isArray: true })
+  @MinimumRole(Role.ADMIN)
+  @DisableApiIf(configuration.SERVER.DEMO_MODE_ENABLED)
+  async postGamesRename(
+    @Body() dto: RenameGameFilesDto,
+  ): Promise<GameFileRename[]> {
+    return this.filesService.renameGameFiles(dto.template, dto.dry_run ?? true);
+  }
+
   /** Get paginated games list based on the given query parameters. */
   @Get()
   @PaginateQueryOptions()
@@ -252,7 +343,12 @@ export class GamesController {
 
     return paginate(query, this.gamesRepository, {
       paginationType: PaginationType.TAKE_AND_SKIP,
-      where: unplayedWhereCondition,
+      // Previous versions and add-ons are only listed with their game
+      where: {
+        ...unplayedWhereCondition,
+        version_of: IsNull(),
+        addon_of: IsNull(),
+      },
       defaultLimit: 100,
       defaultSortBy: [["sort_title", "ASC"]],
       maxLimit: -1,
@@ -286,6 +382,7 @@ export class GamesController {
         id: true,
         title: true,
         file_path: true,
+        library: true,
         created_at: true,
         updated_at: true,
         size: true,
@@ -336,6 +433,34 @@ export class GamesController {
     });
   }
 
+  /** Lists groups of games whose files have byte-identical content. */
+  @Get("duplicates")
+  @ApiOperation({
+    summary: "get a list of byte-identical duplicate game files",
+    description:
+      "Lists groups of games whose files share the same content hash. Hashes are calculated in the background after indexing, so recently added files may not be listed yet. Only administrators can use this endpoint.",
+    operationId: "getGameDuplicates",
+  })
+  @ApiOkResponse({ type: () => DuplicateGroup, isArray: true })
+  @MinimumRole(Role.ADMIN)
+  async getGameDuplicates(): Promise<DuplicateGroup[]> {
+    return this.gamesService.findDuplicates();
+  }
+
+  /** Summarizes the results of the integrity tests of all game archives. */
+  @Get("verifications")
+  @ApiOperation({
+    summary: "get a report of the integrity tests of the game archives",
+    description:
+      "Game archives are test-extracted in the background. The report counts the games whose archive passed or failed its last test and lists the failed ones with their error output. Only administrators can use this endpoint.",
+    operationId: "getGameVerifications",
+  })
+  @ApiOkResponse({ type: () => GameVerificationReport })
+  @MinimumRole(Role.ADMIN)
+  async getGameVerifications(): Promise<GameVerificationReport> {
+    return this.gamesService.findVerificationReport();
+  }
+
   /** Retrieves details for a game with the specified ID. */
   @Get(":game_id")
   @ApiOperation({
@@ -357,6 +482,123 @@ export class GamesController {
     });
   }
 
+  /** Renames the file of a game according to a template. Admins only. */
+  @Post(":game_id/rename")
+  @ApiOperation({
+    summary: "rename the file of a game according to a template",
+    description:
+      "Renames or moves the file of a game within its library according to a filename template, using the effective metadata of the game. Sidecar files are renamed along with it. Only administrators can use this endpoint.",
+    operationId: "postGameRename",
+  })
+  @ApiOkResponse({ type: () => GameFileRename })
+  @MinimumRole(Role.ADMIN)
+  @DisableApiIf(configuration.SERVER.DEMO_MODE_ENABLED)
+  async postGameRename(
+    @Param() params: GameIdDto,
+    @Body() dto: RenameGameFilesDto,
+  ): Promise<GameFileRename> {
+    return this.filesService.renameGameFile(
+      Number(params.game_id),
+      dto.template,
+      dto.dry_run,
+    );
+  }
+
+  /** Tests the archive of a game right away. Admins only. */
+  @Post(":game_id/verify")
+  @ApiOperation({
+    summary: "test the archive of a game for corruption",
+    description:
+      "Test-extracts the archive of a game right away instead of waiting for the next verification run and records the result on the game. Only administrators can use this endpoint.",
+    operationId: "postGameVerify",
+  })
+  @ApiOkResponse({ type: () => GamevaultGame })
+  @MinimumRole(Role.ADMIN)
+  async postGameVerify(@Param() params: GameIdDto): Promise<GamevaultGame> {
+    return this.gameVerificationService.verify(Number(params.game_id));
+  }
+
+  /** Lists the files of a game by its ID. */
+  @Get(":game_id/contents")
+  @ApiOperation({
+    summary: "get the file tree of a game",
+    description:
+      "Lists the files of a game with their uncompressed sizes without downloading it, e.g. to pick the launch or installer executable. Archives are listed using the archive password of the game or the default archive password. Results are cached until the content of the file changes. Only editors and administrators can use this endpoint.",
+    operationId: "getGameContents",
+  })
+  @ApiOkResponse({ type: () => GameContents })
+  @MinimumRole(Role.EDITOR)
+  async getGameContents(
+    @Request() request: { user: GamevaultUser },
+    @Param() params: GameIdDto,
+  ): Promise<GameContents> {
+    return this.filesService.getContents(
+      Number(params.game_id),
+      await this.usersService.findUserAgeByUsername(request.user.username),
+    );
+  }
+
+  /** Get the archive password of a game by its ID. */
+  @Get(":game_id/archive-password")
+  @ApiOperation({
+    summary: "get the archive password of a game",
+    description:
+      "Returns the password to extract the game archive with, so clients can extract it without asking the user. Only users who can download the game can use this endpoint.",
+    operationId: "getGameArchivePassword",
+  })
+  @ApiOkResponse({ type: () => GameArchivePassword })
+  @MinimumRole(Role.USER)
+  async getGameArchivePassword(
+    @Request() request: { user: GamevaultUser },
+    @Param() params: GameIdDto,
+  ): Promise<GameArchivePassword> {
+    const game = await this.gamesService.findOneByGameIdOrFail(
+      Number(params.game_id),
+      {
+        loadDeletedEntities: false,
+        filterByAge: await this.usersService.findUserAgeByUsername(
+          request.user.username,
+        ),
+      },
+    );
+    return {
+      archive_password: await this.gamesService.findArchivePassword(
+        game.file_path,
+      ),
+    };
+  }
+
+  /** Get the checksum manifest of the download of a game by its ID. */
+  @Get(":game_id/manifest")
+  @ApiOperation({
+    summary: "get the checksum manifest of the download of a game",
+    description:
+      "Returns the SHA-256 hash of the download of a game and of each of its chunks, so clients can verify a download and repair single chunks of a resumed download using the Range header instead of starting over. Manifests are generated in the background when they are first requested and cached until the file of the game changes. While a manifest is being generated, 202 Accepted is returned with a Retry-After header telling clients when to ask again. Compare the etag of the manifest with the ETag of the download to make sure both describe the same file.",
+    operationId: "getGameManifest",
+  })
+  @ApiOkResponse({ type: () => GameManifest })
+  @ApiAcceptedResponse({
+    description:
+      "The manifest is being generated. Ask again after the number of seconds in the Retry-After header.",
+  })
+  @MinimumRole(Role.USER)
+  async getGameManifest(
+    @Request() request: { user: GamevaultUser },
+    @Param() params: GameIdDto,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<GameManifest | undefined> {
+    const manifest = await this.gameManifestsService.findByGameId(
+      Number(params.game_id),
+      await this.usersService.findUserAgeByUsername(request.user.username),
+    );
+    if (!manifest) {
+      response.status(HttpStatus.ACCEPTED);
+      // Clients poll until the manifest has been generated
+      response.setHeader("Retry-After", 30);
+    }
+    return manifest;
+  }
+
   /** Download a game by its ID. */
   @Get(":game_id/download")
   @ApiHeader({
@@ -370,11 +612,11 @@ export class GamesController {
     name: "Range",
     required: false,
     description:
-      "This header lets you control the range of bytes to download. If the header is not present or not valid the entire file will be downloaded.",
+      "This header lets you control the range of bytes to download. If the header is not present or not valid the entire file will be downloaded. Satisfiable ranges are answered with 206 Partial Content and a Content-Range header, multiple ranges as multipart/byteranges. If none of the ranges can be satisfied, 416 Range Not Satisfiable is returned.",
     examples: {
       "bytes=0-1023": {
         description: "Download the first 1024 bytes",
-        value: "bytes=-1023",
+        value: "bytes=0-1023",
       },
       "bytes=1024-2047": {
         description: "Download the bytes 1024 through 2047",
@@ -384,8 +626,23 @@ export class GamesController {
         description: "Download the bytes 1024 through the end of the file",
         value: "bytes=1024-",
       },
+      "bytes=-1024": {
+        description: "Download the last 1024 bytes",
+        value: "bytes=-1024",
+      },
+      "bytes=0-1023,4096-5119": {
+        description: "Download multiple ranges as multipart/byteranges",
+        value: "bytes=0-1023,4096-5119",
+      },
     },
   })
+  @ApiHeader({
+    name: "If-Range",
+    required: false,
+    description:
+      "This header lets you make the Range header conditional. Pass the ETag or Last-Modified value of a previous response to only receive the requested range if the file has not changed since. Otherwise the entire file will be downloaded.",
+    example: '"3e8-18f3a2b4c00"',
+  })
   @ApiOperation({
     summary: "download a game",
     operationId: "getGameDownload",
@@ -399,6 +656,7 @@ export class GamesController {
     @Res({ passthrough: true }) response: Response,
     @Headers("X-Download-Speed-Limit") speedlimit?: string,
     @Headers("Range") range?: string,
+    @Headers("If-Range") ifRange?: string,
   ): Promise<StreamableFile> {
     response.setHeader(
       "X-Otp",
@@ -414,6 +672,151 @@ export class GamesController {
       Number(speedlimit),
       range,
       await this.usersService.findUserAgeByUsername(request.user.username),
+      ifRange,
+    );
+  }
+
+  /** Lists the versions of a game by its ID. */
+  @Get(":game_id/versions")
+  @ApiOperation({
+    summary: "get the versions of a game",
+    description:
+      "Lists the files of a game from newest to oldest version. The first one is the game itself, whose file is the latest version.",
+    operationId: "getGameVersions",
+  })
+  @ApiOkResponse({ type: () => GamevaultGame, isArray: true })
+  @MinimumRole(Role.GUEST)
+  async getGameVersions(
+    @Request() request: { user: GamevaultUser },
+    @Param() params: GameIdDto,
+  ): Promise<GamevaultGame[]> {
+    return this.gamesService.findVersions(
+      Number(params.game_id),
+      await this.usersService.findUserAgeByUsername(request.user.username),
+    );
+  }
+
+  /** Download a specific version of a game. */
+  @Get(":game_id/versions/:version_id/download")
+  @ApiHeader({
+    name: "X-Download-Speed-Limit",
+    required: false,
+    description:
+      "This header lets you set the maximum download speed limit in kibibytes per second (kiB/s) for your request. See getGameDownload.",
+    example: "1024",
+  })
+  @ApiHeader({
+    name: "Range",
+    required: false,
+    description:
+      "This header lets you control the range of bytes to download. See getGameDownload.",
+    example: "bytes=0-1023",
+  })
+  @ApiHeader({
+    name: "If-Range",
+    required: false,
+    description:
+      "This header lets you make the Range header conditional. See getGameDownload.",
+    example: '"3e8-18f3a2b4c00"',
+  })
+  @ApiOperation({
+    summary: "download a version of a game",
+    operationId: "getGameVersionDownload",
+  })
+  @MinimumRole(Role.USER)
+  @ApiOkResponse({ type: () => StreamableFile })
+  @Header("Accept-Ranges", "bytes")
+  async getGameVersionDownload(
+    @Request() request: { user: GamevaultUser },
+    @Param() params: GameVersionIdDto,
+    @Res({ passthrough: true }) response: Response,
+    @Headers("X-Download-Speed-Limit") speedlimit?: string,
+    @Headers("Range") range?: string,
+    @Headers("If-Range") ifRange?: string,
+  ): Promise<StreamableFile> {
+    const version = await this.gamesService.findVersionOrFail(
+      Number(params.game_id),
+      Number(params.version_id),
+      await this.usersService.findUserAgeByUsername(request.user.username),
+    );
+    response.setHeader(
+      "X-Otp",
+      this.otpService.create(
+        request.user.username,
+        version.id,
+        Number(speedlimit),
+      ),
+    );
+    return this.filesService.download(
+      response,
+      version.id,
+      Number(speedlimit),
+      range,
+      undefined,
+      ifRange,
+    );
+  }
+
+  /** Download a DLC, patch, soundtrack or extra of a game. */
+  @Get(":game_id/addons/:addon_id/download")
+  @ApiHeader({
+    name: "X-Download-Speed-Limit",
+    required: false,
+    description:
+      "This header lets you set the maximum download speed limit in kibibytes per second (kiB/s) for your request. See getGameDownload.",
+    example: "1024",
+  })
+  @ApiHeader({
+    name: "Range",
+    required: false,
+    description:
+      "This header lets you control the range of bytes to download. See getGameDownload.",
+    example: "bytes=0-1023",
+  })
+  @ApiHeader({
+    name: "If-Range",
+    required: false,
+    description:
+      "This header lets you make the Range header conditional. See getGameDownload.",
+    example: '"3e8-18f3a2b4c00"',
+  })
+  @ApiOperation({
+    summary: "download an add-on of a game",
+    description:
+      "Downloads a DLC, patch, soundtrack or extra of a game. The add-ons of a game are listed in its details.",
+    operationId: "getGameAddonDownload",
+  })
+  @MinimumRole(Role.USER)
+  @ApiOkResponse({ type: () => StreamableFile })
+  @Header("Accept-Ranges", "bytes")
+  async getGameAddonDownload(
+    @Request() request: { user: GamevaultUser },
+    @Param() params: GameAddonIdDto,
+    @Res({ passthrough: true }) response: Response,
+    @Headers("X-Download-Speed-Limit") speedlimit?: string,
+    @Headers("Range") range?: string,
+    @Headers("If-Range") ifRange?: string,
+  ): Promise<StreamableFile> {
+    const addon = await this.gamesService.findAddonOrFail(
+      Number(params.game_id),
+      Number(params.addon_id),
+      await this.usersService.findUserAgeByUsername(request.user.username),
+    );
+    response.setHeader(
+      "X-Otp",
+      this.otpService.create(
+        request.user.username,
+        addon.id,
+        Number(speedlimit),
+      ),
+    );
+    return this.filesService.download(
+      response,
+      addon.id,
+      Number(speedlimit),
+      range,
+      undefined,
+      ifRange,
     );
   }
 
@@ -428,7 +831,16 @@ export class GamesController {
     @Param() params: GameIdDto,
     @Body() dto: UpdateGameDto,
   ): Promise<GamevaultGame> {
-    return this.gamesService.update(Number(params.game_id), dto);
+    const game = await this.gamesService.update(Number(params.game_id), dto);
+    if (dto.archive_password === undefined || game.deleted_at) {
+      return game;
+    }
+    // The type of the game may only be detectable with the new password
+    await this.filesService.reanalyzeFile(game.id);
+    return this.gamesService.findOneByGameIdOrFail(game.id, {
+      loadDeletedEntities: true,
+      loadRelations: true,
+    });
   }
 
   private redirectLegacyQueries(query: PaginateQuery) {
@@ -6,23 +6,69 @@ import { MetadataModule } from "../metadata/metadata.module";
 import { OtpModule } from "../otp/otp.module";
 import { Progress } from "../progresses/progress.entity";
 import { ProgressModule } from "../progresses/progress.module";
+import { StatusModule } from "../status/status.module";
 import { UsersModule } from "../users/users.module";
+import { FileHashingService } from "./file-hashing.service";
+import { FileState } from "./file-state.entity";
+import { FileStatesService } from "./file-states.service";
 import { FilesService } from "./files.service";
+import { GameImport } from "./game-import.entity";
+import { GameImportsController } from "./game-imports.controller";
+import { GameImportsService } from "./game-imports.service";
+import { GameManifest } from "./game-manifest.entity";
+import { GameManifestsService } from "./game-manifests.service";
+import { GameVerificationService } from "./game-verification.service";
 import { GamesController } from "./games.controller";
 import { GamesService } from "./games.service";
 import { GamevaultGame } from "./gamevault-game.entity";
+import { IndexJobError } from "./index-job-error.entity";
+import { IndexJob } from "./index-job.entity";
+import { IndexJobsController } from "./index-jobs.controller";
+import { IndexJobsService } from "./index-jobs.service";
+import { TrashController } from "./trash.controller";
+import { TrashService } from "./trash.service";
+import { TrashedFile } from "./trashed-file.entity";
+import { UploadsController } from "./uploads.controller";
+import { UploadsService } from "./uploads.service";
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([GamevaultGame, Progress]),
+    TypeOrmModule.forFeature([
+      GamevaultGame,
+      Progress,
+      IndexJob,
+      IndexJobError,
+      FileState,
+      TrashedFile,
+      GameImport,
+      GameManifest,
+    ]),
     MediaModule,
     MetadataModule,
     ProgressModule,
+    StatusModule,
     forwardRef(() => OtpModule),
     forwardRef(() => UsersModule),
   ],
-  controllers: [GamesController],
-  providers: [GamesService, FilesService],
+  controllers: [
+    UploadsController,
+    IndexJobsController,
+    TrashController,
+    GameImportsController,
+    GamesController,
+  ],
+  providers: [
+    GamesService,
+    FilesService,
+    FileHashingService,
+    UploadsService,
+    IndexJobsService,
+    FileStatesService,
+    TrashService,
+    GameImportsService,
+    GameVerificationService,
+    GameManifestsService,
+  ],
   exports: [GamesService, FilesService],
 })
 export class GamesModule {}
@@ -1,14 +1,19 @@
 import {
+  BadRequestException,
   InternalServerErrorException,
   NotFoundException,
 } from "@nestjs/common";
-import { Repository } from "typeorm";
+import { ILike, In, IsNull, LessThanOrEqual, Or, Repository } from "typeorm";
+import * as configuration from "../../configuration";
 import { GameMetadataService } from "../metadata/games/game.metadata.service";
 import { MetadataService } from "../metadata/metadata.service";
+import { InstallStepType } from "../metadata/models/install-step-type.enum";
 import { GamesService } from "./games.service";
 import { GamevaultGame } from "./gamevault-game.entity";
+import { GameAddonType } from "./models/game-addon-type.enum";
 import { GameExistence } from "./models/game-existence.enum";
 import { GameType } from "./models/game-type.enum";
+import { GameVerificationState } from "./models/game-verification-state.enum";
 
 describe("GamesService", () => {
   let service: GamesService;
@@ -38,7 +43,9 @@ describe("GamesService", () => {
       findOneOrFail: jest.fn(),
       findOne: jest.fn(),
       find: jest.fn(),
+      count: jest.fn(),
       save: jest.fn(),
+      update: jest.fn(),
       softRemove: jest.fn(),
       recover: jest.fn(),
       createQueryBuilder: jest.fn(),
@@ -207,6 +214,51 @@ describe("GamesService", () => {
     });
   });
 
+  describe("updateFilePath", () => {
+    beforeEach(() => {
+      gamesRepository.findOneOrFail.mockResolvedValue({
+        id: 1,
+        file_path: "/files/Old.zip",
+      } as any);
+    });
+
+    it("should move the file once the file path has been updated", async () => {
+      const moveFile = jest.fn();
+
+      await service.updateFilePath(1, "/files/New.zip", moveFile);
+
+      expect(gamesRepository.update).toHaveBeenCalledWith(
+        { id: 1 },
+        { file_path: "/files/New.zip" },
+      );
+      expect(gamesRepository.update.mock.invocationCallOrder[0]).toBeLessThan(
+        moveFile.mock.invocationCallOrder[0],
+      );
+    });
+
+    it("should not move the file if the file path can't be updated", async () => {
+      gamesRepository.update.mockRejectedValue(new Error("Database is locked"));
+      const moveFile = jest.fn();
+
+      await expect(
+        service.updateFilePath(1, "/files/New.zip", moveFile),
+      ).rejects.toThrow("Database is locked");
+      expect(moveFile).not.toHaveBeenCalled();
+    });
+
+    it("should revert the file path if the file can't be moved", async () => {
+      const moveFile = jest.fn().mockRejectedValue(new Error("EXDEV"));
+
+      await expect(
+        service.updateFilePath(1, "/files/New.zip", moveFile),
+      ).rejects.toThrow("EXDEV");
+      expect(gamesRepository.update).toHaveBeenLastCalledWith(
+        { id: 1 },
+        { file_path: "/files/Old.zip" },
+      );
+    });
+  });
+
   describe("checkIfExistsInDatabase", () => {
     it("should return DOES_NOT_EXIST when game is new", async () => {
       const game = createMockGame();
@@ -257,6 +309,362 @@ describe("GamesService", () => {
     });
   });
 
+  describe("findDuplicates", () => {
+    it("should return an empty list when there are no duplicates", async () => {
+      gamesRepository.createQueryBuilder.mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        groupBy: jest.fn().mockReturnThis(),
+        having: jest.fn().mockReturnThis(),
+        getRawMany: jest.fn().mockResolvedValue([]),
+      } as any);
+
+      await expect(service.findDuplicates()).resolves.toEqual([]);
+      expect(gamesRepository.find).not.toHaveBeenCalled();
+    });
+
+    it("should group games by their file hash", async () => {
+      gamesRepository.createQueryBuilder.mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        groupBy: jest.fn().mockReturnThis(),
+        having: jest.fn().mockReturnThis(),
+        getRawMany: jest
+          .fn()
+          .mockResolvedValue([{ file_hash: "aaa" }, { file_hash: "bbb" }]),
+      } as any);
+      gamesRepository.find.mockResolvedValue([
+        createMockGame({ id: 1, file_hash: "aaa" }),
+        createMockGame({ id: 2, file_hash: "aaa" }),
+        createMockGame({ id: 3, file_hash: "bbb", size: 5n }),
+        createMockGame({ id: 4, file_hash: "bbb", size: 5n }),
+      ]);
+
+      const groups = await service.findDuplicates();
+
+      expect(groups).toHaveLength(2);
+      expect(groups[0].file_hash).toBe("aaa");
+      expect(groups[0].games.map((game) => game.id)).toEqual([1, 2]);
+      expect(groups[1].size).toBe(5n);
+      expect(groups[1].games.map((game) => game.id)).toEqual([3, 4]);
+    });
+  });
+
+  describe("versions", () => {
+    it("should compare version tags numerically", () => {
+      expect(service.compareVersions("v1.10", "v1.9")).toBeGreaterThan(0);
+      expect(service.compareVersions("1.2", "V1.2")).toBe(0);
+      expect(service.compareVersions("v1.2", "v1.2.1")).toBeLessThan(0);
+    });
+
+    it("should list the game first, followed by its previous versions from newest to oldest", async () => {
+      gamesRepository.findOneOrFail.mockResolvedValue(
+        createMockGame({ id: 1, version: "v2.0" }),
+      );
+      gamesRepository.find.mockResolvedValue([
+        createMockGame({ id: 2, version: "v1.9" }),
+        createMockGame({ id: 3, version: "v1.10" }),
+      ]);
+
+      const versions = await service.findVersions(1);
+
+      expect(versions.map((version) => version.id)).toEqual([1, 3, 2]);
+      expect(gamesRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { version_of: { id: 1 } } }),
+      );
+    });
+
+    it("should throw NotFoundException for versions of other games", async () => {
+      gamesRepository.findOneOrFail.mockResolvedValue(createMockGame());
+      gamesRepository.find.mockResolvedValue([]);
+
+      await expect(service.findVersionOrFail(1, 5)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe("update", () => {
+    it("should reject invalid install scripts before updating anything", async () => {
+      gamesRepository.findOneOrFail.mockResolvedValue(createMockGame());
+
+      await expect(
+        service.update(1, {
+          mapping_requests: [{ provider_slug: "igdb" }],
+          user_metadata: {
+            install_script: {
+              version: 1,
+              steps: [{ type: InstallStepType.RUN, executable: "../x.exe" }],
+            },
+          },
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(metadataService.unmap).not.toHaveBeenCalled();
+      expect(gameMetadataService.save).not.toHaveBeenCalled();
+    });
+
+    it("should store install scripts without unknown properties", async () => {
+      gamesRepository.findOneOrFail.mockResolvedValue(createMockGame());
+      gameMetadataService.save.mockImplementation(async (metadata) => metadata);
+      gamesRepository.save.mockImplementation(async (game) => game as any);
+
+      await service.update(1, {
+        user_metadata: {
+          install_script: {
+            version: 1,
+            steps: [
+              {
+                type: InstallStepType.DELETE,
+                path: "Crack",
+                command: "rm -rf /",
+              },
+            ],
+            author: "someone",
+          } as any,
+        },
+      });
+
+      expect(
+        JSON.parse(
+          JSON.stringify(
+            gameMetadataService.save.mock.calls[0][0].install_script,
+          ),
+        ),
+      ).toEqual({
+        version: 1,
+        steps: [{ type: InstallStepType.DELETE, path: "Crack" }],
+      });
+    });
+
+    it("should remove install scripts set to null", async () => {
+      gamesRepository.findOneOrFail.mockResolvedValue({
+        ...createMockGame(),
+        user_metadata: {
+          install_script: {
+            version: 1,
+            steps: [{ type: InstallStepType.DELETE, path: "Crack" }],
+          },
+        },
+      } as any);
+      gameMetadataService.save.mockImplementation(async (metadata) => metadata);
+      gamesRepository.save.mockImplementation(async (game) => game as any);
+
+      await service.update(1, { user_metadata: { install_script: null } });
+
+      expect(
+        gameMetadataService.save.mock.calls[0][0].install_script,
+      ).toBeNull();
+    });
+
+    it("should set and remove archive passwords", async () => {
+      gamesRepository.findOneOrFail.mockResolvedValue(createMockGame());
+
+      await service.update(1, { archive_password: "Hunter2" });
+      await service.update(1, { archive_password: null });
+      await service.update(1, {});
+
+      expect(gamesRepository.update).toHaveBeenCalledTimes(2);
+      expect(gamesRepository.update).toHaveBeenNthCalledWith(
+        1,
+        { id: 1 },
+        { archive_password: "Hunter2" },
+      );
+      expect(gamesRepository.update).toHaveBeenNthCalledWith(
+        2,
+        { id: 1 },
+        { archive_password: null },
+      );
+    });
+
+    it("should refuse to store archive passwords if AUTH_SEED is random", async () => {
+      jest.spyOn(configuration, "isAuthSeedRandom").mockReturnValueOnce(true);
+      gamesRepository.findOneOrFail.mockResolvedValue(createMockGame());
+
+      await expect(
+        service.update(1, { archive_password: "Hunter2" }),
+      ).rejects.toThrow(BadRequestException);
+      await service.update(1, { archive_password: null });
+
+      expect(gamesRepository.update).toHaveBeenCalledTimes(1);
+      expect(gamesRepository.update).toHaveBeenCalledWith(
+        { id: 1 },
+        { archive_password: null },
+      );
+    });
+  });
+
+  describe("verification", () => {
+    it("should record passed and failed integrity tests", async () => {
+      await service.updateVerification(1);
+      await service.updateVerification(2, "ERROR: Data Error : Game/data.pak");
+
+      expect(gamesRepository.update).toHaveBeenNthCalledWith(
+        1,
+        { id: 1 },
+        expect.objectContaining({
+          verification_state: GameVerificationState.PASSED,
+          verification_error: null,
+        }),
+      );
+      expect(gamesRepository.update).toHaveBeenNthCalledWith(
+        2,
+        { id: 2 },
+        expect.objectContaining({
+          verification_state: GameVerificationState.FAILED,
+          verification_error: "ERROR: Data Error : Game/data.pak",
+        }),
+      );
+    });
+  });
+
+  describe("findVerificationReport", () => {
+    it("should only count archives", async () => {
+      gamesRepository.count.mockResolvedValue(0);
+      gamesRepository.find.mockResolvedValue([]);
+
+      await service.findVerificationReport();
+
+      const untestedWhere = gamesRepository.count.mock.calls[2][0].where;
+      expect(untestedWhere).toContainEqual({
+        file_path: ILike("%.zip"),
+        verification_state: IsNull(),
+      });
+      expect(untestedWhere).not.toContainEqual(
+        expect.objectContaining({ file_path: ILike("%.exe") }),
+      );
+    });
+  });
+
+  describe("findUnverified", () => {
+    it("should only find archives that are due, at most the given number", async () => {
+      const verifiedBefore = new Date("2026-01-01T00:00:00.000Z");
+      gamesRepository.find.mockResolvedValue([]);
+
+      await service.findUnverified(verifiedBefore, 10);
+
+      const options = gamesRepository.find.mock.calls[0][0];
+      expect(options.take).toBe(10);
+      expect(options.where).toContainEqual({
+        file_path: ILike("%.zip"),
+        verified_at: Or(IsNull(), LessThanOrEqual(verifiedBefore)),
+      });
+      expect(options.where).not.toContainEqual(
+        expect.objectContaining({ file_path: ILike("%.exe") }),
+      );
+    });
+  });
+
+  describe("findArchivePassword", () => {
+    it("should explicitly select the archive password", async () => {
+      gamesRepository.findOne.mockResolvedValue(
+        createMockGame({ archive_password: "Hunter2" }),
+      );
+
+      await expect(
+        service.findArchivePassword("/files/Test Game (2023).zip"),
+      ).resolves.toBe("Hunter2");
+      expect(gamesRepository.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { file_path: "/files/Test Game (2023).zip" },
+          select: ["id", "archive_password"],
+        }),
+      );
+    });
+
+    it("should return null if the archive password can't be decrypted", async () => {
+      gamesRepository.findOne.mockRejectedValue(
+        new Error("Unsupported state or unable to authenticate data"),
+      );
+
+      await expect(
+        service.findArchivePassword("/files/Test Game (2023).zip"),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe("add-ons", () => {
+    it("should link add-ons to the game with the longest matching title", async () => {
+      gamesRepository.findOne.mockResolvedValue(
+        createMockGame({ id: 5, title: "The Witcher 3 - Blood and Wine" }),
+      );
+      gamesRepository.find.mockResolvedValue([
+        createMockGame({ id: 1, title: "The Witcher" }),
+        createMockGame({ id: 2, title: "The Witcher 3" }),
+        createMockGame({ id: 3, title: "The Witcher 3 Soundtrack" }),
+      ]);
+
+      await service.linkAddon(5, GameAddonType.DLC);
+
+      expect(gamesRepository.update).toHaveBeenCalledWith(
+        { id: 5 },
+        { addon_type: GameAddonType.DLC, addon_of: { id: 2 } },
+      );
+    });
+
+    it("should link add-ons to the base game named by their sidecar file", async () => {
+      gamesRepository.findOne.mockResolvedValue(
+        createMockGame({ id: 5, title: "Original Soundtrack" }),
+      );
+      gamesRepository.find.mockResolvedValue([
+        createMockGame({ id: 1, title: "Some Game" }),
+        createMockGame({ id: 2, title: "Other Game" }),
+      ]);
+
+      await service.linkAddon(5, GameAddonType.SOUNDTRACK, "other game");
+
+      expect(gamesRepository.update).toHaveBeenCalledWith(
+        { id: 5 },
+        { addon_type: GameAddonType.SOUNDTRACK, addon_of: { id: 2 } },
+      );
+    });
+
+    it("should let new games adopt add-ons waiting for a base game", async () => {
+      gamesRepository.findOne.mockResolvedValue(
+        createMockGame({ id: 1, title: "The Witcher 3" }),
+      );
+      gamesRepository.find.mockResolvedValue([
+        createMockGame({ id: 5, title: "Witcher 3 - Hearts of Stone" }),
+        createMockGame({ id: 6, title: "Other Game - Season Pass" }),
+      ]);
+
+      await service.linkAddon(1);
+
+      expect(gamesRepository.update).toHaveBeenCalledWith(
+        { id: In([5]) },
+        { addon_of: { id: 1 } },
+      );
+    });
+
+    it("should not let editors mark a game as add-on of itself", async () => {
+      gamesRepository.findOneOrFail.mockResolvedValue(
+        createMockGame({ addons: [] }),
+      );
+
+      await expect(
+        service.update(1, {
+          addon: { type: GameAddonType.PATCH, base_game_id: 1 },
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(gamesRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("should let editors unmark add-ons", async () => {
+      gamesRepository.findOneOrFail.mockResolvedValue(
+        createMockGame({
+          addon_type: GameAddonType.DLC,
+          addon_of: createMockGame({ id: 2 }),
+        }),
+      );
+
+      await service.update(1, { addon: null });
+
+      expect(gamesRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ addon_type: null, addon_of: null }),
+      );
+      expect(metadataService.merge).toHaveBeenCalledWith(1);
+    });
+  });
+
   describe("findRandom", () => {
     it("should return a random game", async () => {
       const mockGame = createMockGame();
@@ -1,4 +1,5 @@
 import {
+  BadRequestException,
   forwardRef,
   Inject,
   Injectable,
@@ -11,15 +12,23 @@ import {
   FindManyOptions,
   FindOneOptions,
   FindOptionsSelect,
+  ILike,
+  In,
   IsNull,
   LessThanOrEqual,
+  Not,
   Or,
   Repository,
 } from "typeorm";
 
-import { isEmpty, kebabCase, toLower } from "lodash";
-import { FindOptions } from "../../globals";
+import { isEmpty, kebabCase, maxBy, toLower } from "lodash";
+import { isAuthSeedRandom } from "../../configuration";
+import globals, { FindOptions } from "../../globals";
 import { logGamevaultGame } from "../../logging";
+import {
+  getInstallScriptErrors,
+  toInstallScript,
+} from "../../validators/install-script.validator";
 import { DeveloperMetadata } from "../metadata/developers/developer.metadata.entity";
 import { GameMetadata } from "../metadata/games/game.metadata.entity";
 import { GameMetadataService } from "../metadata/games/game.metadata.service";
@@ -28,7 +37,12 @@ import { MetadataService } from "../metadata/metadata.service";
 import { PublisherMetadata } from "../metadata/publishers/publisher.metadata.entity";
 import { TagMetadata } from "../metadata/tags/tag.metadata.entity";
 import { GamevaultGame } from "./gamevault-game.entity";
+import { DuplicateGroup } from "./models/duplicate-group.model";
+import { GameAddonType } from "./models/game-addon-type.enum";
 import { GameExistence } from "./models/game-existence.enum";
+import { GameVerificationReport } from "./models/game-verification-report.model";
+import { GameVerificationState } from "./models/game-verification-state.enum";
+import { UpdateGameAddonDto } from "./models/update-game-addon.dto";
 import { UpdateGameDto } from "./models/update-game.dto";
 
 @Injectable()
@@ -41,6 +55,9 @@ export class GamesService {
     "metadata",
     "provider_metadata",
     "user_metadata",
+    "file_metadata",
+    "sidecar_metadata",
+    "addons",
   ];
 
   constructor(
@@ -145,6 +162,8 @@ export class GamesService {
       relationLoadStrategy: "query",
       loadEagerRelations: false,
       select: ["id"],
+      // Previous versions and add-ons are only listed with their game
+      where: { version_of: IsNull(), addon_of: IsNull() },
     };
 
     if (options.loadDeletedEntities) {
@@ -154,6 +173,8 @@ export class GamesService {
     if (options.filterByAge) {
       findParameters.relations = ["metadata"];
       findParameters.where = {
+        version_of: IsNull(),
+        addon_of: IsNull(),
         metadata: {
           age_rating: Or(LessThanOrEqual(options.filterByAge), IsNull()),
         },
@@ -194,6 +215,21 @@ export class GamesService {
       loadRelations: true,
     });
 
+    // Nested DTOs aren't validated, so the install script is validated here
+    if (dto.user_metadata?.install_script != null) {
+      const errors = getInstallScriptErrors(dto.user_metadata.install_script);
+      if (errors.length) {
+        throw new BadRequestException(errors);
+      }
+    }
+
+    // Passwords encrypted with a random seed can't be decrypted after a restart
+    if (dto.archive_password && isAuthSeedRandom()) {
+      throw new BadRequestException(
+        "Archive passwords can only be stored if AUTH_SEED is set.",
+      );
+    }
+
     if (dto.mapping_requests != null) {
       for (const request of dto.mapping_requests) {
         this.logger.log({
@@ -214,6 +250,23 @@ export class GamesService {
       }
     }
 
+    if (dto.addon !== undefined) {
+      await this.updateAddon(game, dto.addon);
+    }
+
+    if (dto.archive_password !== undefined) {
+      await this.gamesRepository.update(
+        { id },
+        { archive_password: dto.archive_password },
+      );
+      this.logger.log({
+        message: dto.archive_password
+          ? "Archive password of the game updated"
+          : "Archive password of the game removed",
+        game: logGamevaultGame(game),
+      });
+    }
+
     if (dto.user_metadata) {
       this.logger.debug({
         message: "Updating User Metadata",
@@ -314,6 +367,13 @@ export class GamesService {
           dto.user_metadata.uninstaller_executable;
       }
 
+      // Null removes the install script
+      if (dto.user_metadata.install_script !== undefined) {
+        updatedUserMetadata.install_script =
+          dto.user_metadata.install_script &&
+          toInstallScript(dto.user_metadata.install_script);
+      }
+
       if (dto.user_metadata.url_screenshots != null) {
         updatedUserMetadata.url_screenshots = dto.user_metadata.url_screenshots;
       }
@@ -410,28 +470,37 @@ export class GamesService {
     const indexingSelect: FindOptionsSelect<GamevaultGame> = {
       id: true,
       file_path: true,
+      library: true,
       title: true,
       release_date: true,
       size: true,
       version: true,
+      edition: true,
       early_access: true,
+      file_hash: true,
       deleted_at: true,
+      version_of: { id: true },
     };
 
+    // The query strategy can't load self-referencing relations like version_of
     const foundGame =
       (await this.gamesRepository.findOne({
-        relationLoadStrategy: "query",
+        relationLoadStrategy: "join",
         where: { file_path: game.file_path },
+        relations: { version_of: true },
         loadEagerRelations: false,
         select: indexingSelect,
         withDeleted: true,
       })) ??
       (await this.gamesRepository.findOne({
-        relationLoadStrategy: "query",
+        relationLoadStrategy: "join",
         where: {
           title: game.title,
           release_date: game.release_date,
+          version_of: IsNull(),
+          addon_type: game.addon_type ?? IsNull(),
         },
+        relations: { version_of: true },
         loadEagerRelations: false,
         select: indexingSelect,
         withDeleted: true,
@@ -461,6 +530,9 @@ export class GamesService {
     if (foundGame.version != game.version) {
       differences.push(`version: ${foundGame.version} -> ${game.version}`);
     }
+    if (foundGame.edition != game.edition) {
+      differences.push(`edition: ${foundGame.edition} -> ${game.edition}`);
+    }
     if (foundGame.size.toString() != game.size.toString()) {
       differences.push(`size: ${foundGame.size} -> ${game.size}`);
     }
@@ -484,6 +556,447 @@ export class GamesService {
     return [GameExistence.EXISTS, foundGame];
   }
 
+  /**
+   * Finds all games (including soft-deleted ones) with a known content hash
+   * and the given file size. Used to re-link moved or renamed files.
+   */
+  public async findHashedBySize(size: bigint): Promise<GamevaultGame[]> {
+    return this.gamesRepository.find({
+      relationLoadStrategy: "query",
+      where: { size, file_hash: Not(IsNull()) },
+      loadEagerRelations: false,
+      select: { id: true, file_path: true, file_hash: true, deleted_at: true },
+      withDeleted: true,
+    });
+  }
+
+  /**
+   * Finds all versions of a game: the game itself, whose file is the latest
+   * version, followed by its previous versions from newest to oldest.
+   */
+  public async findVersions(
+    id: number,
+    filterByAge?: number,
+  ): Promise<GamevaultGame[]> {
+    const game = await this.findOneByGameIdOrFail(id, {
+      loadDeletedEntities: false,
+      filterByAge,
+    });
+    const previousVersions = await this.gamesRepository.find({
+      relationLoadStrategy: "query",
+      where: { version_of: { id } },
+      loadEagerRelations: false,
+    });
+    return [
+      game,
+      ...previousVersions.sort((a, b) =>
+        this.compareVersions(b.version, a.version),
+      ),
+    ];
+  }
+
+  /** Finds a version of a game. Fails if the file is no version of the game. */
+  public async findVersionOrFail(
+    id: number,
+    versionId: number,
+    filterByAge?: number,
+  ): Promise<GamevaultGame> {
+    const version = (await this.findVersions(id, filterByAge)).find(
+      (version) => version.id === versionId,
+    );
+    if (!version) {
+      throw new NotFoundException(
+        `Version with id ${versionId} of game with id ${id} was not found on the server.`,
+      );
+    }
+    return version;
+  }
+
+  /**
+   * Compares two version tags numerically, e.g. "v1.10" is newer than "v1.9".
+   * Returns a negative number if a is older than b, a positive number if it
+   * is newer and 0 if both are equal.
+   */
+  public compareVersions(a?: string, b?: string): number {
+    const normalize = (version?: string) =>
+      toLower(version ?? "").replace(/^v/, "");
+    return normalize(a).localeCompare(normalize(b), undefined, {
+      numeric: true,
+    });
+  }
+
+  /**
+   * Permanently removes a previous version of a game, e.g. after its file
+   * became the game's file.
+   */
+  public async removeVersion(id: number): Promise<void> {
+    await this.gamesRepository.delete({ id });
+  }
+
+  /**
+   * Marks a game as an add-on of a base game or unmarks it. Without a given
+   * base game, it is looked up by the title of the add-on.
+   */
+  private async updateAddon(
+    game: GamevaultGame,
+    addon: UpdateGameAddonDto | null,
+  ): Promise<void> {
+    if (!addon) {
+      game.addon_type = null;
+      game.addon_of = null;
+    } else {
+      if (game.addons?.length) {
+        throw new BadRequestException(
+          `Game with id ${game.id} has add-ons and can't be an add-on itself.`,
+        );
+      }
+      if (addon.base_game_id === game.id) {
+        throw new BadRequestException(
+          `Game with id ${game.id} can't be an add-on of itself.`,
+        );
+      }
+      const baseGame =
+        addon.base_game_id != null
+          ? await this.gamesRepository.findOne({
+              relationLoadStrategy: "join",
+              where: { id: addon.base_game_id },
+              relations: { version_of: true },
+              loadEagerRelations: false,
+            })
+          : await this.findBaseGame(game);
+      if (addon.base_game_id != null && !baseGame) {
+        throw new NotFoundException(
+          `Game with id ${addon.base_game_id} was not found on the server.`,
+        );
+      }
+      if (baseGame?.version_of || baseGame?.addon_type) {
+        throw new BadRequestException(
+          `Game with id ${baseGame.id} is a previous version or an add-on and can't be a base game.`,
+        );
+      }
+      game.addon_type = addon.type;
+      game.addon_of = baseGame ?? null;
+    }
+
+    await this.save(game);
+    this.logger.log({
+      message: addon ? "Marked game as add-on." : "Unmarked game as add-on.",
+      game: logGamevaultGame(game),
+      addon_type: game.addon_type,
+      base_game_id: game.addon_of?.id,
+    });
+  }
+
+  /**
+   * Links a game that its file or sidecar file marks as an add-on to its base
+   * game. The base game is looked up by the title the sidecar file names or
+   * by the title of the add-on. Add-ons without a base game stay in the
+   * library, until a game with a matching title adopts them.
+   */
+  public async linkAddon(
+    id: number,
+    addonType?: GameAddonType,
+    baseGameTitle?: string,
+  ): Promise<void> {
+    const game = await this.gamesRepository.findOne({
+      relationLoadStrategy: "join",
+      where: { id },
+      relations: { addon_of: true },
+      loadEagerRelations: false,
+      select: {
+        id: true,
+        title: true,
+        addon_type: true,
+        addon_of: { id: true },
+      },
+    });
+    if (!game) {
+      return;
+    }
+    const type = addonType ?? game.addon_type;
+    if (!type) {
+      await this.adoptAddons(game);
+      return;
+    }
+    if (game.addon_of && game.addon_type === type) {
+      return;
+    }
+
+    const baseGame =
+      game.addon_of ?? (await this.findBaseGame(game, baseGameTitle));
+    await this.gamesRepository.update(
+      { id },
+      { addon_type: type, addon_of: baseGame ? { id: baseGame.id } : null },
+    );
+    this.logger.debug({
+      message: baseGame
+        ? "Linked add-on to its base game."
+        : "No base game found for add-on.",
+      game: logGamevaultGame(game),
+      addon_type: type,
+      base_game_id: baseGame?.id,
+    });
+  }
+
+  /** Links the add-ons waiting for a base game with the title of a game. */
+  private async adoptAddons(game: GamevaultGame): Promise<void> {
+    const waitingAddons = await this.gamesRepository.find({
+      relationLoadStrategy: "query",
+      where: {
+        id: Not(game.id),
+        addon_type: Not(IsNull()),
+        addon_of: IsNull(),
+      },
+      loadEagerRelations: false,
+      select: { id: true, title: true },
+    });
+    const addonIds = waitingAddons
+      .filter((addon) => this.isBaseGameTitle(game.title, addon.title))
+      .map((addon) => addon.id);
+    if (addonIds.length === 0) {
+      return;
+    }
+
+    await this.gamesRepository.update(
+      { id: In(addonIds) },
+      { addon_of: { id: game.id } },
+    );
+    this.logger.debug({
+      message: "Linked waiting add-ons to their base game.",
+      game: logGamevaultGame(game),
+      addon_ids: addonIds,
+    });
+  }
+
+  /**
+   * Finds the base game of an add-on: the game with the given title or
+   * otherwise the game with the longest title the add-on's title starts
+   * with. Previous versions and add-ons are no base games.
+   */
+  private async findBaseGame(
+    addon: GamevaultGame,
+    baseGameTitle?: string,
+  ): Promise<GamevaultGame | undefined> {
+    const candidates = await this.gamesRepository.find({
+      relationLoadStrategy: "query",
+      where: { id: Not(addon.id), version_of: IsNull(), addon_type: IsNull() },
+      loadEagerRelations: false,
+      select: { id: true, title: true },
+    });
+    return maxBy(
+      candidates.filter((candidate) =>
+        baseGameTitle
+          ? this.generateSortTitle(candidate.title ?? "") ===
+            this.generateSortTitle(baseGameTitle)
+          : this.isBaseGameTitle(candidate.title, addon.title),
+      ),
+      (candidate) => candidate.title.length,
+    );
+  }
+
+  /**
+   * Checks if the title of an add-on is or starts with the title of a game,
+   * e.g. "The Witcher 3 - Blood and Wine" with "The Witcher 3".
+   */
+  private isBaseGameTitle(title?: string, addonTitle?: string): boolean {
+    const baseSortTitle = this.generateSortTitle(title ?? "");
+    const addonSortTitle = this.generateSortTitle(addonTitle ?? "");
+    return (
+      !!baseSortTitle &&
+      (addonSortTitle === baseSortTitle ||
+        addonSortTitle.startsWith(`${baseSortTitle} `))
+    );
+  }
+
+  /** Finds an add-on of a game. Fails if the file is no add-on of the game. */
+  public async findAddonOrFail(
+    id: number,
+    addonId: number,
+    filterByAge?: number,
+  ): Promise<GamevaultGame> {
+    await this.findOneByGameIdOrFail(id, {
+      loadDeletedEntities: false,
+      filterByAge,
+    });
+    const addon = await this.gamesRepository.findOne({
+      relationLoadStrategy: "query",
+      where: { id: addonId, addon_of: { id } },
+      loadEagerRelations: false,
+    });
+    if (!addon) {
+      throw new NotFoundException(
+        `Add-on with id ${addonId} of game with id ${id} was not found on the server.`,
+      );
+    }
+    return addon;
+  }
+
+  /**
+   * Finds the archive password of a game file. Returns null if it has none or
+   * it can't be decrypted, e.g. because AUTH_SEED has changed.
+   */
+  public async findArchivePassword(filePath: string): Promise<string | null> {
+    try {
+      const game = await this.gamesRepository.findOne({
+        where: { file_path: filePath },
+        select: ["id", "archive_password"],
+        withDeleted: true,
+        loadEagerRelations: false,
+      });
+      return game?.archive_password ?? null;
+    } catch (error) {
+      this.logger.warn({
+        message:
+          "Failed to decrypt the archive password of a game. Has AUTH_SEED changed?",
+        path: filePath,
+        error,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Finds the games whose archives have not been tested for integrity since
+   * the given date, starting with the ones that have never been tested.
+   */
+  public async findUnverified(
+    verifiedBefore: Date,
+    take: number,
+  ): Promise<GamevaultGame[]> {
+    return this.gamesRepository.find({
+      where: globals.ARCHIVE_FORMATS.map((format) => ({
+        file_path: ILike(`%${format}`),
+        verified_at: Or(IsNull(), LessThanOrEqual(verifiedBefore)),
+      })),
+      order: { verified_at: { direction: "ASC", nulls: "FIRST" }, id: "ASC" },
+      select: ["id", "file_path", "verified_at"],
+      loadEagerRelations: false,
+      take,
+    });
+  }
+
+  /** Stores the result of an integrity test of a game file. */
+  public async updateVerification(id: number, error?: string): Promise<void> {
+    await this.gamesRepository.update(
+      { id },
+      {
+        verification_state: error
+          ? GameVerificationState.FAILED
+          : GameVerificationState.PASSED,
+        verified_at: new Date(),
+        verification_error: error ?? null,
+      },
+    );
+  }
+
+  /**
+   * Summarizes the results of the integrity tests of all game files. Only
+   * archives are counted, as no other files are tested.
+   */
+  public async findVerificationReport(): Promise<GameVerificationReport> {
+    const countByState = (state: GameVerificationState | null) =>
+      this.gamesRepository.count({
+        where: globals.ARCHIVE_FORMATS.map((format) => ({
+          file_path: ILike(`%${format}`),
+          verification_state: state ?? IsNull(),
+        })),
+      });
+    return {
+      passed: await countByState(GameVerificationState.PASSED),
+      failed: await countByState(GameVerificationState.FAILED),
+      untested: await countByState(null),
+      failed_games: await this.gamesRepository.find({
+        relationLoadStrategy: "query",
+        where: { verification_state: GameVerificationState.FAILED },
+        order: { verified_at: "DESC" },
+      }),
+    };
+  }
+
+  /** Stores the content hash of a game file. */
+  public async updateFileHash(id: number, fileHash: string): Promise<void> {
+    await this.gamesRepository.update({ id }, { file_hash: fileHash });
+  }
+
+  /** Stores the name of the library a game file is stored in. */
+  public async updateLibrary(id: number, library: string): Promise<void> {
+    await this.gamesRepository.update({ id }, { library });
+  }
+
+  /**
+   * Updates the file path of a game and moves its file. The file is only moved
+   * once the file path has been updated, which is reverted if the move fails.
+   */
+  public async updateFilePath(
+    id: number,
+    filePath: string,
+    moveFile: () => Promise<void>,
+  ): Promise<void> {
+    const game = await this.gamesRepository.findOneOrFail({
+      where: { id },
+      select: ["id", "file_path"],
+      withDeleted: true,
+      loadEagerRelations: false,
+    });
+    await this.gamesRepository.update({ id }, { file_path: filePath });
+    try {
+      await moveFile();
+    } catch (error) {
+      await this.gamesRepository.update({ id }, { file_path: game.file_path });
+      throw error;
+    }
+  }
+
+  /** Stores the date a game file was first found missing. */
+  public async updateMissingSince(
+    id: number,
+    missingSince: Date | null,
+  ): Promise<void> {
+    await this.gamesRepository.update({ id }, { missing_since: missingSince });
+  }
+
+  /** Finds all games whose files are missing, oldest first. */
+  public async findMissing(): Promise<GamevaultGame[]> {
+    return this.gamesRepository.find({
+      where: { missing_since: Not(IsNull()) },
+      order: { missing_since: "ASC" },
+    });
+  }
+
+  /** Finds all groups of games whose files have byte-identical content. */
+  public async findDuplicates(): Promise<DuplicateGroup[]> {
+    const duplicateHashes = await this.gamesRepository
+      .createQueryBuilder("game")
+      .select("game.file_hash", "file_hash")
+      .where("game.file_hash IS NOT NULL")
+      .groupBy("game.file_hash")
+      .having("COUNT(game.id) > 1")
+      .getRawMany<{ file_hash: string }>();
+
+    if (duplicateHashes.length === 0) {
+      return [];
+    }
+
+    const games = await this.gamesRepository.find({
+      relationLoadStrategy: "query",
+      where: { file_hash: In(duplicateHashes.map((row) => row.file_hash)) },
+      loadEagerRelations: false,
+      order: { file_hash: "ASC", id: "ASC" },
+    });
+
+    const groups = new Map<string, DuplicateGroup>();
+    for (const game of games) {
+      const group = groups.get(game.file_hash) ?? {
+        file_hash: game.file_hash,
+        size: game.size,
+        games: [],
+      };
+      group.games.push(game);
+      groups.set(game.file_hash, group);
+    }
+    return Array.from(groups.values());
+  }
+
   public generateSortTitle(title: string): string {
     // List of leading articles to be removed
     const articles: string[] = ["the", "a", "an"];
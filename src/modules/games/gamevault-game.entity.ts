@@ -7,15 +7,19 @@ import {
   JoinColumn,
   JoinTable,
   ManyToMany,
+  ManyToOne,
   OneToMany,
   OneToOne,
 } from "typeorm";
 
 import { DatabaseEntity } from "../database/database.entity";
+import { encryptionTransformer } from "../database/encryption.transformer";
 import { GameMetadata } from "../metadata/games/game.metadata.entity";
 import { Progress } from "../progresses/progress.entity";
 import { GamevaultUser } from "../users/gamevault-user.entity";
+import { GameAddonType } from "./models/game-addon-type.enum";
 import { GameType } from "./models/game-type.enum";
+import { GameVerificationState } from "./models/game-verification-state.enum";
 
 @Entity()
 export class GamevaultGame extends DatabaseEntity {
@@ -46,6 +50,63 @@ export class GamevaultGame extends DatabaseEntity {
   })
   size?: bigint;
 
+  @Index()
+  @Column({ nullable: true })
+  @ApiPropertyOptional({
+    description: "name of the game library the game file is stored in",
+    example: "default",
+  })
+  library?: string;
+
+  @Column({ nullable: true })
+  @ApiPropertyOptional({
+    description:
+      "date the game file was first found missing (null while it exists). The game is soft-deleted once the file has been missing for the deletion grace period.",
+    example: "2021-01-01T00:00:00.000Z",
+  })
+  missing_since?: Date;
+
+  @Index()
+  @Column({ nullable: true })
+  @ApiPropertyOptional({
+    description:
+      "SHA-256 hash of the game file content, calculated in the background after indexing",
+    example: "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08",
+  })
+  file_hash?: string;
+
+  @Column({ type: "simple-enum", enum: GameVerificationState, nullable: true })
+  @ApiPropertyOptional({
+    description:
+      "result of the last integrity test of the game archive (null if it has not been tested yet). Games whose archive failed the test are likely corrupt.",
+    type: "string",
+    enum: GameVerificationState,
+    example: GameVerificationState.PASSED,
+  })
+  verification_state?: GameVerificationState;
+
+  @Column({ nullable: true })
+  @ApiPropertyOptional({
+    description: "date the game archive was last tested",
+    example: "2021-01-01T00:00:00.000Z",
+  })
+  verified_at?: Date;
+
+  @Column({ nullable: true })
+  @ApiPropertyOptional({
+    description: "error output of the last integrity test if it failed",
+    example: "ERROR: CRC Failed : Game/data.pak",
+  })
+  verification_error?: string;
+
+  // Only loaded explicitly, see GamesService.findArchivePassword
+  @Column({
+    select: false,
+    nullable: true,
+    transformer: encryptionTransformer,
+  })
+  archive_password?: string;
+
   @Column({ nullable: true })
   @ApiPropertyOptional({
     description: "title of the game (extracted from the filename')",
@@ -68,6 +129,14 @@ export class GamevaultGame extends DatabaseEntity {
   })
   version?: string;
 
+  @Column({ nullable: true })
+  @ApiPropertyOptional({
+    description:
+      "edition of the game (extracted from the filename by a parsing profile)",
+    example: "Definitive Edition",
+  })
+  edition?: string;
+
   @Index()
   @Column({ nullable: true })
   @ApiPropertyOptional({
@@ -109,6 +178,56 @@ export class GamevaultGame extends DatabaseEntity {
   })
   type: GameType;
 
+  @Index()
+  @ManyToOne(() => GamevaultGame, (game) => game.versions, {
+    nullable: true,
+    onDelete: "CASCADE",
+  })
+  @ApiPropertyOptional({
+    description:
+      "game this file is a previous version of (null for the latest version, which is the game itself)",
+    type: () => GamevaultGame,
+  })
+  version_of?: GamevaultGame;
+
+  @OneToMany(() => GamevaultGame, (game) => game.version_of)
+  @ApiPropertyOptional({
+    description: "previous versions of the game",
+    type: () => GamevaultGame,
+    isArray: true,
+  })
+  versions?: GamevaultGame[];
+
+  @Column({ type: "simple-enum", enum: GameAddonType, nullable: true })
+  @ApiPropertyOptional({
+    description:
+      "type of the add-on if the file is a DLC, patch, soundtrack or extra of another game",
+    type: "string",
+    enum: GameAddonType,
+    example: GameAddonType.DLC,
+  })
+  addon_type?: GameAddonType;
+
+  @Index()
+  @ManyToOne(() => GamevaultGame, (game) => game.addons, {
+    nullable: true,
+    onDelete: "SET NULL",
+  })
+  @ApiPropertyOptional({
+    description:
+      "base game this add-on belongs to (null if the file is no add-on or no base game has been found)",
+    type: () => GamevaultGame,
+  })
+  addon_of?: GamevaultGame;
+
+  @OneToMany(() => GamevaultGame, (game) => game.addon_of)
+  @ApiPropertyOptional({
+    description: "DLCs, patches, soundtracks and extras of the game",
+    type: () => GamevaultGame,
+    isArray: true,
+  })
+  addons?: GamevaultGame[];
+
   @JoinTable({
     name: "gamevault_game_provider_metadata_game_metadata",
     joinColumn: {
@@ -141,6 +260,34 @@ export class GamevaultGame extends DatabaseEntity {
   })
   user_metadata?: GameMetadata;
 
+  @OneToOne(() => GameMetadata, {
+    nullable: true,
+    cascade: true,
+    onDelete: "SET NULL",
+    orphanedRowAction: "delete",
+  })
+  @JoinColumn()
+  @ApiPropertyOptional({
+    description:
+      "metadata derived from the game file, e.g. suggested executables",
+    type: () => GameMetadata,
+  })
+  file_metadata?: GameMetadata;
+
+  @OneToOne(() => GameMetadata, {
+    nullable: true,
+    cascade: true,
+    onDelete: "SET NULL",
+    orphanedRowAction: "delete",
+  })
+  @JoinColumn()
+  @ApiPropertyOptional({
+    description:
+      "metadata read from a sidecar file next to the game file, e.g. 'Game (2020).gamevault.yaml'",
+    type: () => GameMetadata,
+  })
+  sidecar_metadata?: GameMetadata;
+
   @OneToOne(() => GameMetadata, {
     eager: true,
     nullable: true,
@@ -0,0 +1,83 @@
+import { mkdtemp, outputFile, remove } from "fs-extra";
+import { tmpdir } from "os";
+import path from "path";
+import { IgnoreFile } from "./ignore-file";
+
+describe("IgnoreFile", () => {
+  const ignoreFile = IgnoreFile.parse(
+    "/files",
+    [
+      "# Comments and blank lines are skipped",
+      "",
+      "*.part",
+      "!keep.part",
+      "_incoming/",
+      "*/Extras/*",
+      "/Demo?.zip",
+      "**/Bonus/**",
+      "[Tt]emp",
+      "\\#literal",
+    ].join("\n"),
+  );
+
+  it("should match names at any depth", () => {
+    expect(ignoreFile.matches("/files/Game.zip.part")).toBe(true);
+    expect(ignoreFile.matches("/files/Sub/Game.zip.part")).toBe(true);
+    expect(ignoreFile.matches("/files/Sub/temp")).toBe(true);
+    expect(ignoreFile.matches("/files/Temp")).toBe(true);
+    expect(ignoreFile.matches("/files/#literal")).toBe(true);
+    expect(ignoreFile.matches("/files/Game.zip")).toBeUndefined();
+  });
+
+  it("should re-include paths matching negated rules", () => {
+    expect(ignoreFile.matches("/files/Sub/keep.part")).toBe(false);
+  });
+
+  it("should only match directories with rules ending in a slash", () => {
+    expect(ignoreFile.matches("/files/Sub/_incoming", true)).toBe(true);
+    expect(ignoreFile.matches("/files/Sub/_incoming")).toBeUndefined();
+  });
+
+  it("should anchor rules containing slashes to their directory", () => {
+    expect(ignoreFile.matches("/files/Game/Extras/OST.zip")).toBe(true);
+    expect(ignoreFile.matches("/files/A/Game/Extras/OST.zip")).toBeUndefined();
+    expect(ignoreFile.matches("/files/Demo1.zip")).toBe(true);
+    expect(ignoreFile.matches("/files/Sub/Demo1.zip")).toBeUndefined();
+    expect(ignoreFile.matches("/files/Demo10.zip")).toBeUndefined();
+  });
+
+  it("should match any number of directories with double asterisks", () => {
+    expect(ignoreFile.matches("/files/Bonus/Art.zip")).toBe(true);
+    expect(ignoreFile.matches("/files/A/B/Bonus/C/Art.zip")).toBe(true);
+  });
+
+  it("should not match paths outside of its directory", () => {
+    expect(ignoreFile.matches("/other/Game.zip.part")).toBeUndefined();
+    expect(ignoreFile.matches("/files")).toBeUndefined();
+  });
+
+  describe("readSync", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(path.join(tmpdir(), "gamevault-ignore-"));
+    });
+
+    afterEach(async () => {
+      await remove(directory);
+    });
+
+    it("should read the ignore file of a directory", async () => {
+      await outputFile(path.join(directory, ".gamevaultignore"), "*.part\r\n");
+
+      const file = IgnoreFile.readSync(directory);
+
+      expect(file.directory).toBe(directory);
+      expect(file.matches(path.join(directory, "Game.part"))).toBe(true);
+    });
+
+    it("should return undefined for directories without ignore file", () => {
+      expect(IgnoreFile.readSync(directory)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { readFileSync } from "fs-extra";
+import path from "path";
+
+interface IgnoreRule {
+  /** Matches paths relative to the directory of the ignore file. */
+  regex: RegExp;
+  /** Whether the rule re-includes paths that a previous rule ignored. */
+  negated: boolean;
+  /** Whether the rule only applies to directories. */
+  directoryOnly: boolean;
+}
+
+/**
+ * A `.gamevaultignore` file with gitignore-style rules that keep files and
+ * folders out of the library. Rules are relative to the directory the file
+ * lies in and support `*`, `**`, `?`, character classes, negation with `!`,
+ * trailing slashes for directories and anchoring with leading slashes.
+ */
+export class IgnoreFile {
+  public static readonly filename = ".gamevaultignore";
+
+  private constructor(
+    /** Directory the ignore file lies in. */
+    public readonly directory: string,
+    private readonly rules: IgnoreRule[],
+  ) {}
+
+  /** Checks if the given path is named like an ignore file. */
+  public static isIgnoreFilePath(filePath: string): boolean {
+    return path.basename(filePath) === IgnoreFile.filename;
+  }
+
+  /**
+   * Reads the ignore file of a directory. Returns undefined if the directory
+   * has no ignore file. This is synchronous, as it is used by the file
+   * filters of the file scanner and watcher.
+   */
+  public static readSync(directory: string): IgnoreFile | undefined {
+    let content: string;
+    try {
+      content = readFileSync(
+        path.join(directory, IgnoreFile.filename),
+        "utf-8",
+      );
+    } catch (error) {
+      if (
+        ["ENOENT", "ENOTDIR"].includes((error as NodeJS.ErrnoException).code)
+      ) {
+        return undefined;
+      }
+      throw error;
+    }
+    return IgnoreFile.parse(directory, content);
+  }
+
+  /** Parses the content of an ignore file lying in the given directory. */
+  public static parse(directory: string, content: string): IgnoreFile {
+    return new IgnoreFile(
+      directory,
+      content
+        .split(/\r?\n/)
+        .map((line) => IgnoreFile.parseRule(line))
+        .filter(Boolean),
+    );
+  }
+
+  /**
+   * Matches a path against the rules. The last matching rule wins. Returns
+   * true if the path is ignored, false if it is re-included by a negated
+   * rule and undefined if no rule matches it.
+   */
+  public matches(filePath: string, isDirectory = false): boolean | undefined {
+    const relativePath = path.relative(this.directory, filePath);
+    if (
+      !relativePath ||
+      relativePath.split(path.sep)[0] === ".." ||
+      path.isAbsolute(relativePath)
+    ) {
+      return undefined;
+    }
+
+    const normalizedPath = relativePath.split(path.sep).join("/");
+    let result: boolean | undefined;
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.regex.test(normalizedPath)) {
+        result = !rule.negated;
+      }
+    }
+    return result;
+  }
+
+  private static parseRule(line: string): IgnoreRule | undefined {
+    // Trailing whitespace is ignored unless it is escaped
+    let pattern = line.endsWith("\\ ") ? line : line.trimEnd();
+    if (!pattern || pattern.startsWith("#")) {
+      return undefined;
+    }
+
+    const negated = pattern.startsWith("!");
+    if (negated || pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+      pattern = pattern.slice(1);
+    }
+
+    const directoryOnly = pattern.endsWith("/");
+    pattern = pattern.replace(/\/+$/, "");
+    // Patterns with a slash are relative to the ignore file's directory
+    const anchored = pattern.includes("/");
+    pattern = pattern.replace(/^\/+/, "");
+    if (!pattern) {
+      return undefined;
+    }
+
+    const source = IgnoreFile.toRegexSource(pattern);
+    return {
+      regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+      negated,
+      directoryOnly,
+    };
+  }
+
+  private static toRegexSource(pattern: string): string {
+    let source = "";
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (char === "*" && pattern[i + 1] === "*") {
+        const atSegmentStart = i === 0 || pattern[i - 1] === "/";
+        if (atSegmentStart && pattern[i + 2] === "/") {
+          // "**/" matches zero or more directories
+          source += "(?:.*/)?";
+          i += 2;
+          continue;
+        }
+        if (atSegmentStart && i + 2 === pattern.length) {
+          // A trailing "/**" matches everything inside
+          source += ".*";
+          i += 1;
+          continue;
+        }
+        source += "[^/]*";
+        i += 1;
+        continue;
+      }
+      if (char === "*") {
+        source += "[^/]*";
+      } else if (char === "?") {
+        source += "[^/]";
+      } else if (char === "[" && pattern.indexOf("]", i + 2) !== -1) {
+        const end = pattern.indexOf("]", i + 2);
+        const characters = pattern.slice(i + 1, end);
+        source += `[${characters.replace(/^!/, "^").replace(/[\\\]]/g, "\\$&")}]`;
+        i = end;
+      } else if (char === "\\" && i + 1 < pattern.length) {
+        source += IgnoreFile.escapeRegex(pattern[++i]);
+      } else {
+        source += IgnoreFile.escapeRegex(char);
+      }
+    }
+    return source;
+  }
+
+  private static escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+  }
+}
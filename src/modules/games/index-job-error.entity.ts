@@ -0,0 +1,31 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Column, Entity, Index, ManyToOne } from "typeorm";
+
+import { DatabaseEntity } from "../database/database.entity";
+import { IndexJob } from "./index-job.entity";
+
+@Entity()
+export class IndexJobError extends DatabaseEntity {
+  @Index()
+  @ManyToOne(() => IndexJob, (job) => job.errors, { onDelete: "CASCADE" })
+  @ApiPropertyOptional({
+    description: "index run the error occurred in",
+    type: () => IndexJob,
+  })
+  job?: IndexJob;
+
+  @Index()
+  @Column()
+  @ApiProperty({
+    description: "path of the file that failed to index",
+    example: "/files/Super Mario Bros. (1985).zip",
+  })
+  path: string;
+
+  @Column()
+  @ApiProperty({
+    description: "error message",
+    example: "Can't open as archive",
+  })
+  message: string;
+}
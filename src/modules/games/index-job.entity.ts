@@ -0,0 +1,116 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Column, Entity, OneToMany } from "typeorm";
+
+import { DatabaseEntity } from "../database/database.entity";
+import { IndexJobError } from "./index-job-error.entity";
+import { IndexJobState } from "./models/index-job-state.enum";
+import { IndexJobTrigger } from "./models/index-job-trigger.enum";
+
+@Entity()
+export class IndexJob extends DatabaseEntity {
+  @Column({ type: "simple-enum", enum: IndexJobTrigger })
+  @ApiProperty({
+    description: "what triggered the index run",
+    type: "string",
+    enum: IndexJobTrigger,
+    example: IndexJobTrigger.SCHEDULED,
+  })
+  trigger: IndexJobTrigger;
+
+  @Column({
+    type: "simple-enum",
+    enum: IndexJobState,
+    default: IndexJobState.RUNNING,
+  })
+  @ApiProperty({
+    description: "state of the index run",
+    type: "string",
+    enum: IndexJobState,
+    example: IndexJobState.FINISHED,
+  })
+  state: IndexJobState;
+
+  @Column({ default: false })
+  @ApiProperty({
+    description:
+      "whether the index run only indexed files that changed since they were last indexed",
+    example: true,
+  })
+  incremental: boolean = false;
+
+  @Column()
+  @ApiProperty({
+    description: "date the index run started",
+    example: "2021-01-01T00:00:00.000Z",
+  })
+  started_at: Date;
+
+  @Column({ nullable: true })
+  @ApiPropertyOptional({
+    description: "date the index run ended (null while it is running)",
+    example: "2021-01-01T00:05:00.000Z",
+  })
+  finished_at?: Date;
+
+  @Column({ default: 0 })
+  @ApiProperty({
+    description: "number of game files found in the libraries",
+    example: 1200,
+  })
+  files_seen: number = 0;
+
+  @Column({ default: 0 })
+  @ApiProperty({
+    description:
+      "number of unchanged files skipped by an incremental index run",
+    example: 1190,
+  })
+  skipped: number = 0;
+
+  @Column({ default: 0 })
+  @ApiProperty({ description: "number of games added", example: 3 })
+  added: number = 0;
+
+  @Column({ default: 0 })
+  @ApiProperty({
+    description: "number of games whose file information was updated",
+    example: 1,
+  })
+  updated: number = 0;
+
+  @Column({ default: 0 })
+  @ApiProperty({
+    description: "number of soft-deleted games that were restored",
+    example: 0,
+  })
+  restored: number = 0;
+
+  @Column({ default: 0 })
+  @ApiProperty({
+    description: "number of games that were soft-deleted",
+    example: 2,
+  })
+  deleted: number = 0;
+
+  @Column({ default: 0 })
+  @ApiProperty({
+    description: "number of files that failed to index",
+    example: 1,
+  })
+  failed: number = 0;
+
+  @Column({ nullable: true })
+  @ApiPropertyOptional({
+    description: "error that aborted the index run",
+    example: "Connection terminated unexpectedly",
+  })
+  error?: string;
+
+  @OneToMany(() => IndexJobError, (error) => error.job)
+  @ApiPropertyOptional({
+    description: "errors of files that failed to index",
+    type: () => IndexJobError,
+    isArray: true,
+  })
+  errors?: IndexJobError[];
+}
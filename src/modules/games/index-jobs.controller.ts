@@ -0,0 +1,148 @@
+import { Controller, Get, MessageEvent, Param, Sse } from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiSecurity,
+  ApiTags,
+} from "@nestjs/swagger";
+import { InjectRepository } from "@nestjs/typeorm";
+import {
+  Paginate,
+  PaginateQuery,
+  Paginated,
+  PaginationType,
+  paginate,
+} from "nestjs-paginate";
+import { Observable } from "rxjs";
+import { map } from "rxjs/operators";
+import { Repository } from "typeorm";
+
+import { MinimumRole } from "../../decorators/minimum-role.decorator";
+import { PaginateQueryOptions } from "../../decorators/pagination.decorator";
+import { ApiOkResponsePaginated } from "../../globals";
+import { Role } from "../users/models/role.enum";
+import { IndexJobError } from "./index-job-error.entity";
+import { IndexJob } from "./index-job.entity";
+import { IndexJobsService } from "./index-jobs.service";
+import { IndexJobIdDto } from "./models/index-job-id.dto";
+import { IndexProgress } from "./models/index-progress.model";
+
+/** History of index runs and the files that failed to index in them. */
+@ApiBearerAuth()
+@ApiTags("game")
+@Controller("games/index-jobs")
+@ApiSecurity("apikey")
+export class IndexJobsController {
+  constructor(
+    private readonly indexJobsService: IndexJobsService,
+    @InjectRepository(IndexJob)
+    private readonly indexJobRepository: Repository<IndexJob>,
+    @InjectRepository(IndexJobError)
+    private readonly indexJobErrorRepository: Repository<IndexJobError>,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: "get a list of index runs",
+    description:
+      "by default the list is sorted by the most recent index run. Only administrators can use this endpoint.",
+    operationId: "getIndexJobs",
+  })
+  @MinimumRole(Role.ADMIN)
+  @ApiOkResponsePaginated(IndexJob)
+  @PaginateQueryOptions()
+  async getIndexJobs(
+    @Paginate() query: PaginateQuery,
+  ): Promise<Paginated<IndexJob>> {
+    return paginate(query, this.indexJobRepository, {
+      paginationType: PaginationType.TAKE_AND_SKIP,
+      defaultLimit: 100,
+      maxLimit: -1,
+      nullSort: "last",
+      loadEagerRelations: false,
+      defaultSortBy: [["id", "DESC"]],
+      sortableColumns: [
+        "id",
+        "created_at",
+        "started_at",
+        "finished_at",
+        "trigger",
+        "state",
+        "files_seen",
+        "failed",
+      ],
+      filterableColumns: {
+        id: true,
+        created_at: true,
+        started_at: true,
+        trigger: true,
+        state: true,
+        failed: true,
+      },
+    });
+  }
+
+  @Get("errors")
+  @ApiOperation({
+    summary: "get a list of files that failed to index",
+    description:
+      "by default the list is sorted by the most recent error. Search by path to find out why a specific file was not indexed. Only administrators can use this endpoint.",
+    operationId: "getIndexJobErrors",
+  })
+  @MinimumRole(Role.ADMIN)
+  @ApiOkResponsePaginated(IndexJobError)
+  @PaginateQueryOptions()
+  async getIndexJobErrors(
+    @Paginate() query: PaginateQuery,
+  ): Promise<Paginated<IndexJobError>> {
+    return paginate(query, this.indexJobErrorRepository, {
+      paginationType: PaginationType.TAKE_AND_SKIP,
+      defaultLimit: 100,
+      maxLimit: -1,
+      nullSort: "last",
+      loadEagerRelations: false,
+      relations: ["job"],
+      defaultSortBy: [["id", "DESC"]],
+      sortableColumns: ["id", "created_at", "path"],
+      searchableColumns: ["path", "message"],
+      filterableColumns: {
+        id: true,
+        created_at: true,
+        path: true,
+        "job.id": true,
+      },
+    });
+  }
+
+  @Sse("progress")
+  @ApiOperation({
+    summary: "streams the progress of index runs",
+    description:
+      "Server-Sent Events stream reporting the phase, processed and total counts and current file of the running index run, including runs of the indexer worker, as well as the size of the metadata queue. An event is sent whenever the progress changed, at most once per second. Only administrators can use this endpoint.",
+    operationId: "getIndexJobProgress",
+  })
+  @ApiOkResponse({ type: () => IndexProgress })
+  @MinimumRole(Role.ADMIN)
+  getIndexJobProgress(): Observable<MessageEvent> {
+    return this.indexJobsService
+      .watchProgress()
+      .pipe(map((progress) => ({ data: progress })));
+  }
+
+  @Get(":index_job_id")
+  @ApiOperation({
+    summary: "get details of an index run including its errors",
+    description: "Only administrators can use this endpoint.",
+    operationId: "getIndexJobByIndexJobId",
+  })
+  @MinimumRole(Role.ADMIN)
+  @ApiOkResponse({ type: () => IndexJob })
+  async getIndexJobByIndexJobId(
+    @Param() params: IndexJobIdDto,
+  ): Promise<IndexJob> {
+    return this.indexJobsService.findOneByIndexJobIdOrFail(
+      Number(params.index_job_id),
+    );
+  }
+}
@@ -0,0 +1,171 @@
+import { NotFoundException } from "@nestjs/common";
+import { firstValueFrom } from "rxjs";
+import { take, toArray } from "rxjs/operators";
+import { In, Repository } from "typeorm";
+import { IndexJobError } from "./index-job-error.entity";
+import { IndexJob } from "./index-job.entity";
+import { IndexJobsService } from "./index-jobs.service";
+import { IndexJobState } from "./models/index-job-state.enum";
+import { IndexJobTrigger } from "./models/index-job-trigger.enum";
+import { IndexPhase } from "./models/index-phase.enum";
+
+jest.mock("../../configuration", () => ({
+  __esModule: true,
+  default: {
+    GAMES: { INDEX_JOB_HISTORY_SIZE: 2 },
+  },
+}));
+
+jest.mock("../metadata/metadata.service", () => ({
+  MetadataService: class {},
+}));
+
+describe("IndexJobsService", () => {
+  let service: IndexJobsService;
+  let indexJobRepository: jest.Mocked<Repository<IndexJob>>;
+  let indexJobErrorRepository: jest.Mocked<Repository<IndexJobError>>;
+  let metadataService: { queueSize: number };
+
+  beforeEach(() => {
+    indexJobRepository = {
+      save: jest.fn(async (job) => job),
+      find: jest.fn().mockResolvedValue([]),
+      findOneOrFail: jest.fn(),
+      delete: jest.fn(),
+    } as any;
+    indexJobErrorRepository = {
+      save: jest.fn(),
+    } as any;
+
+    metadataService = { queueSize: 0 } as any;
+
+    service = new IndexJobsService(
+      indexJobRepository,
+      indexJobErrorRepository,
+      metadataService as any,
+    );
+  });
+
+  it("should record the start of an index run", async () => {
+    const job = await service.start(IndexJobTrigger.SCHEDULED, true);
+
+    expect(indexJobRepository.save).toHaveBeenCalledWith(job);
+    expect(job).toEqual(
+      expect.objectContaining({
+        trigger: IndexJobTrigger.SCHEDULED,
+        incremental: true,
+        state: IndexJobState.RUNNING,
+        started_at: expect.any(Date),
+        added: 0,
+        failed: 0,
+      }),
+    );
+  });
+
+  it("should record errors of files that failed to index", async () => {
+    const job = Object.assign(new IndexJob(), { id: 4 });
+
+    await service.addError(
+      job,
+      "/files/Broken.zip",
+      new Error("Can't open as archive"),
+    );
+
+    expect(job.failed).toBe(1);
+    expect(indexJobErrorRepository.save).toHaveBeenCalledWith({
+      job: { id: 4 },
+      path: "/files/Broken.zip",
+      message: "Can't open as archive",
+    });
+  });
+
+  it("should not throw if an error can't be recorded", async () => {
+    indexJobErrorRepository.save.mockRejectedValue(new Error("Disk full"));
+
+    await expect(
+      service.addError(new IndexJob(), "/files/Broken.zip", "broken"),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should record the end of an index run and remove outdated ones", async () => {
+    indexJobRepository.find.mockResolvedValue([{ id: 1 }] as IndexJob[]);
+    const job = Object.assign(new IndexJob(), { id: 3 });
+
+    await service.finish(job);
+
+    expect(job.state).toBe(IndexJobState.FINISHED);
+    expect(job.finished_at).toEqual(expect.any(Date));
+    expect(job.error).toBeNull();
+    expect(indexJobRepository.find).toHaveBeenCalledWith(
+      expect.objectContaining({ order: { id: "DESC" }, skip: 2 }),
+    );
+    expect(indexJobRepository.delete).toHaveBeenCalledWith({ id: In([1]) });
+  });
+
+  it("should record index runs that failed", async () => {
+    const job = new IndexJob();
+
+    await service.finish(job, new Error("Database unavailable"));
+
+    expect(job.state).toBe(IndexJobState.FAILED);
+    expect(job.error).toBe("Database unavailable");
+    expect(indexJobRepository.delete).not.toHaveBeenCalled();
+  });
+
+  it("should throw if an index job does not exist", async () => {
+    indexJobRepository.findOneOrFail.mockRejectedValue(new Error("Not found"));
+
+    await expect(service.findOneByIndexJobIdOrFail(9)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  describe("progress", () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should report the progress of the running index run", () => {
+      metadataService.queueSize = 7;
+      service.reportProgress({
+        phase: IndexPhase.INDEXING,
+        job_id: 3,
+        total: 10,
+      });
+      service.reportProgress({ processed: 4, current_file: "/files/A.zip" });
+
+      expect(service.getProgress()).toEqual({
+        phase: IndexPhase.INDEXING,
+        job_id: 3,
+        processed: 4,
+        total: 10,
+        current_file: "/files/A.zip",
+        metadata_queue_size: 7,
+      });
+
+      service.resetProgress();
+      expect(service.getProgress()).toEqual({
+        phase: IndexPhase.IDLE,
+        processed: 0,
+        total: 0,
+        metadata_queue_size: 7,
+      });
+    });
+
+    it("should only emit the progress when it changed", async () => {
+      jest.useFakeTimers();
+      const events = firstValueFrom(
+        service.watchProgress().pipe(take(2), toArray()),
+      );
+
+      jest.advanceTimersByTime(1000);
+      service.reportProgress({ phase: IndexPhase.READING_FILES });
+      jest.advanceTimersByTime(1000);
+
+      expect((await events).map((progress) => progress.phase)).toEqual([
+        IndexPhase.IDLE,
+        IndexPhase.READING_FILES,
+      ]);
+    });
+  });
+});
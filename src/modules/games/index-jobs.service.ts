@@ -0,0 +1,169 @@
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { isEqual } from "lodash";
+import { Observable, interval } from "rxjs";
+import { distinctUntilChanged, map, startWith } from "rxjs/operators";
+import { In, Repository } from "typeorm";
+
+import configuration from "../../configuration";
+import { MetadataService } from "../metadata/metadata.service";
+import { IndexJobError } from "./index-job-error.entity";
+import { IndexJob } from "./index-job.entity";
+import { IndexJobState } from "./models/index-job-state.enum";
+import { IndexJobTrigger } from "./models/index-job-trigger.enum";
+import { IndexPhase } from "./models/index-phase.enum";
+import { IndexProgress } from "./models/index-progress.model";
+
+type IndexRunProgress = Omit<IndexProgress, "metadata_queue_size">;
+
+/**
+ * Persists the history of index runs and the errors of files that failed to
+ * index, so admins don't have to search the logs for them. Also tracks the
+ * progress of the running index run.
+ */
+@Injectable()
+export class IndexJobsService {
+  private readonly logger = new Logger(this.constructor.name);
+  private progress: IndexRunProgress = IndexJobsService.idleProgress();
+
+  constructor(
+    @InjectRepository(IndexJob)
+    private readonly indexJobRepository: Repository<IndexJob>,
+    @InjectRepository(IndexJobError)
+    private readonly indexJobErrorRepository: Repository<IndexJobError>,
+    private readonly metadataService: MetadataService,
+  ) {}
+
+  /** Returns the progress of the running index run. */
+  public getProgress(): IndexProgress {
+    return {
+      ...this.progress,
+      metadata_queue_size: this.metadataService.queueSize,
+    };
+  }
+
+  /**
+   * Emits the progress of index runs every second, as long as it changed
+   * since the last emission.
+   */
+  public watchProgress(): Observable<IndexProgress> {
+    return interval(1000).pipe(
+      startWith(0),
+      map(() => this.getProgress()),
+      distinctUntilChanged(isEqual),
+    );
+  }
+
+  /**
+   * Updates the progress of the running index run. Also used to forward the
+   * progress of the indexer worker thread.
+   */
+  public reportProgress(update: Partial<IndexRunProgress>): void {
+    this.progress = { ...this.progress, ...update };
+  }
+
+  /** Resets the progress once an index run is over. */
+  public resetProgress(): void {
+    this.progress = IndexJobsService.idleProgress();
+  }
+
+  public async findOneByIndexJobIdOrFail(id: number): Promise<IndexJob> {
+    try {
+      return await this.indexJobRepository.findOneOrFail({
+        where: { id },
+        relations: ["errors"],
+        order: { errors: { id: "ASC" } },
+      });
+    } catch (error) {
+      throw new NotFoundException(
+        `Index job with id ${id} was not found on the server.`,
+        { cause: error },
+      );
+    }
+  }
+
+  /** Returns the most recent index run that indexed all files. */
+  public async findLastFullIndexJob(): Promise<IndexJob | null> {
+    return this.indexJobRepository.findOne({
+      where: { incremental: false, state: IndexJobState.FINISHED },
+      order: { id: "DESC" },
+    });
+  }
+
+  /** Records the start of an index run. */
+  public async start(
+    trigger: IndexJobTrigger,
+    incremental = false,
+  ): Promise<IndexJob> {
+    const job = new IndexJob();
+    job.trigger = trigger;
+    job.incremental = incremental;
+    job.state = IndexJobState.RUNNING;
+    job.started_at = new Date();
+    return this.indexJobRepository.save(job);
+  }
+
+  /**
+   * Records an error of a file that failed to index. Failing to record it
+   * must not abort the index run, so it is only logged then.
+   */
+  public async addError(
+    job: IndexJob,
+    path: string,
+    error: unknown,
+  ): Promise<void> {
+    job.failed++;
+    try {
+      await this.indexJobErrorRepository.save({
+        job: { id: job.id } as IndexJob,
+        path,
+        message: this.getErrorMessage(error),
+      });
+    } catch (saveError) {
+      this.logger.warn({
+        message: "Failed to record index error.",
+        job: job.id,
+        path,
+        error: saveError,
+      });
+    }
+  }
+
+  /**
+   * Records the end of an index run with its counters and removes the
+   * oldest index runs beyond the configured history size.
+   */
+  public async finish(job: IndexJob, error?: unknown): Promise<IndexJob> {
+    job.state = error ? IndexJobState.FAILED : IndexJobState.FINISHED;
+    job.finished_at = new Date();
+    job.error = error ? this.getErrorMessage(error) : null;
+    const savedJob = await this.indexJobRepository.save(job);
+    await this.pruneHistory();
+    return savedJob;
+  }
+
+  private async pruneHistory(): Promise<void> {
+    const outdatedJobs = await this.indexJobRepository.find({
+      select: ["id"],
+      order: { id: "DESC" },
+      skip: Math.max(configuration.GAMES.INDEX_JOB_HISTORY_SIZE, 1),
+    });
+    if (outdatedJobs.length) {
+      await this.indexJobRepository.delete({
+        id: In(outdatedJobs.map((outdatedJob) => outdatedJob.id)),
+      });
+      this.logger.debug({
+        message: "Removed outdated index jobs.",
+        count: outdatedJobs.length,
+      });
+    }
+  }
+
+  private getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private static idleProgress(): IndexRunProgress {
+    return { phase: IndexPhase.IDLE, processed: 0, total: 0 };
+  }
+}
@@ -0,0 +1,10 @@
+import { Readable } from "stream";
+
+export interface DownloadSource {
+  isFolderGame: boolean;
+  isArchive: boolean;
+  size: number;
+  lastModified: Date;
+  etag: string;
+  createReadStream: (start: number, end: number) => Readable;
+}
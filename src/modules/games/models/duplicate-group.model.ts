@@ -0,0 +1,25 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { GamevaultGame } from "../gamevault-game.entity";
+
+export class DuplicateGroup {
+  @ApiProperty({
+    description: "SHA-256 hash shared by all files of this group",
+    example: "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08",
+  })
+  file_hash: string;
+
+  @ApiProperty({
+    description: "size of each file of this group in bytes",
+    example: "1234567890",
+    type: () => String,
+  })
+  size: bigint;
+
+  @ApiProperty({
+    description: "games whose files have byte-identical content",
+    type: () => GamevaultGame,
+    isArray: true,
+  })
+  games: GamevaultGame[];
+}
@@ -1,4 +1,8 @@
 export interface File {
   path: string;
   size: bigint;
+  /** Modification time in milliseconds, the newest one for folder games. */
+  mtime?: number;
+  /** Inode number of the file or folder. */
+  inode?: number;
 }
@@ -0,0 +1,6 @@
+export enum GameAddonType {
+  DLC = "DLC",
+  PATCH = "PATCH",
+  SOUNDTRACK = "SOUNDTRACK",
+  EXTRA = "EXTRA",
+}
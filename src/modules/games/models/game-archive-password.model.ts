@@ -0,0 +1,11 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+
+export class GameArchivePassword {
+  @ApiPropertyOptional({
+    description:
+      "password to extract the game archive with (null if the game has no archive password, so the default archive password applies)",
+    example: "Hunter2",
+    nullable: true,
+  })
+  archive_password: string | null;
+}
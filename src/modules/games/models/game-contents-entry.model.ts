@@ -0,0 +1,38 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class GameContentsEntry {
+  @ApiProperty({
+    description: "name of the file or directory",
+    example: "Game.exe",
+  })
+  name: string;
+
+  @ApiProperty({
+    description:
+      "path of the file or directory inside the game, using forward slashes",
+    example: "bin/Game.exe",
+  })
+  path: string;
+
+  @ApiProperty({
+    description: "whether the entry is a file or a directory",
+    enum: ["file", "directory"],
+    example: "file",
+  })
+  type: "file" | "directory";
+
+  @ApiProperty({
+    description:
+      "uncompressed size of the file or of all files in the directory in bytes",
+    example: 1048576,
+  })
+  size: number;
+
+  @ApiProperty({
+    description: "entries inside the directory",
+    type: () => GameContentsEntry,
+    isArray: true,
+    required: false,
+  })
+  children?: GameContentsEntry[];
+}
@@ -0,0 +1,24 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { GameContentsEntry } from "./game-contents-entry.model";
+
+export class GameContents {
+  @ApiProperty({
+    description: "total uncompressed size of all files in bytes",
+    example: 1073741824,
+  })
+  size: number;
+
+  @ApiProperty({
+    description: "number of files",
+    example: 42,
+  })
+  file_count: number;
+
+  @ApiProperty({
+    description: "top-level entries of the file tree",
+    type: () => GameContentsEntry,
+    isArray: true,
+  })
+  entries: GameContentsEntry[];
+}
@@ -0,0 +1,32 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+
+export class GameFileRename {
+  @ApiProperty({ description: "id of the game", example: 1 })
+  game_id: number;
+
+  @ApiProperty({
+    description: "current path of the game file",
+    example: "/files/some_game_v1.2.zip",
+  })
+  old_path: string;
+
+  @ApiPropertyOptional({
+    description:
+      "path of the game file according to the template. Not set if it couldn't be rendered.",
+    example: "/files/Some Game (2020) (v1.2) (W_P).zip",
+  })
+  new_path?: string;
+
+  @ApiProperty({
+    description:
+      "whether the game file has been renamed. Always false for dry runs.",
+    example: true,
+  })
+  renamed: boolean;
+
+  @ApiPropertyOptional({
+    description: "reason the game file can't be renamed",
+    example: 'A file already exists at "/files/Some Game (2020).zip".',
+  })
+  error?: string;
+}
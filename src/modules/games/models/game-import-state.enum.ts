@@ -0,0 +1,5 @@
+export enum GameImportState {
+  IMPORTED = "IMPORTED",
+  REJECTED = "REJECTED",
+  FAILED = "FAILED",
+}
@@ -0,0 +1,31 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { GamevaultGame } from "../gamevault-game.entity";
+
+export class GameVerificationReport {
+  @ApiProperty({
+    description: "number of games whose archive passed its last test",
+    example: 40,
+  })
+  passed: number;
+
+  @ApiProperty({
+    description: "number of games whose archive failed its last test",
+    example: 2,
+  })
+  failed: number;
+
+  @ApiProperty({
+    description:
+      "number of games whose archive has not been tested yet, e.g. because it has changed since its last test. Games that are no archives are not counted.",
+    example: 5,
+  })
+  untested: number;
+
+  @ApiProperty({
+    description: "games whose archive failed its last test, latest first",
+    type: () => GamevaultGame,
+    isArray: true,
+  })
+  failed_games: GamevaultGame[];
+}
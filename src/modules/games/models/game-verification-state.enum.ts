@@ -0,0 +1,4 @@
+export enum GameVerificationState {
+  PASSED = "PASSED",
+  FAILED = "FAILED",
+}
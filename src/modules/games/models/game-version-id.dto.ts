@@ -0,0 +1,11 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsNotEmpty, IsNumberString } from "class-validator";
+
+import { GameIdDto } from "./game-id.dto";
+
+export class GameVersionIdDto extends GameIdDto {
+  @IsNumberString()
+  @IsNotEmpty()
+  @ApiProperty({ example: "2", description: "id of the version of the game" })
+  version_id: number;
+}
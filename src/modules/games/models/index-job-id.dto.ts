@@ -0,0 +1,9 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsNotEmpty, IsNumberString } from "class-validator";
+
+export class IndexJobIdDto {
+  @IsNumberString()
+  @IsNotEmpty()
+  @ApiProperty({ example: "1", description: "id of the index job" })
+  index_job_id: number;
+}
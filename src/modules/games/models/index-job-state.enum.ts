@@ -0,0 +1,5 @@
+export enum IndexJobState {
+  RUNNING = "RUNNING",
+  FINISHED = "FINISHED",
+  FAILED = "FAILED",
+}
@@ -0,0 +1,6 @@
+export enum IndexJobTrigger {
+  STARTUP = "STARTUP",
+  SCHEDULED = "SCHEDULED",
+  MANUAL = "MANUAL",
+  WATCHER = "WATCHER",
+}
@@ -0,0 +1,6 @@
+export enum IndexPhase {
+  IDLE = "IDLE",
+  READING_FILES = "READING_FILES",
+  INDEXING = "INDEXING",
+  INTEGRITY_CHECK = "INTEGRITY_CHECK",
+}
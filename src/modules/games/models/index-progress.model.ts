@@ -0,0 +1,58 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+
+import { IndexJobTrigger } from "./index-job-trigger.enum";
+import { IndexPhase } from "./index-phase.enum";
+
+export class IndexProgress {
+  @ApiProperty({
+    description: "current phase of the index run",
+    type: "string",
+    enum: IndexPhase,
+    example: IndexPhase.INDEXING,
+  })
+  phase: IndexPhase;
+
+  @ApiPropertyOptional({
+    description: "id of the running index job",
+    example: 12,
+  })
+  job_id?: number;
+
+  @ApiPropertyOptional({
+    description: "what triggered the running index run",
+    type: "string",
+    enum: IndexJobTrigger,
+    example: IndexJobTrigger.MANUAL,
+  })
+  trigger?: IndexJobTrigger;
+
+  @ApiPropertyOptional({
+    description: "date the running index run started",
+    example: "2021-01-01T00:00:00.000Z",
+  })
+  started_at?: Date;
+
+  @ApiProperty({
+    description: "number of files processed in the current phase",
+    example: 420,
+  })
+  processed: number;
+
+  @ApiProperty({
+    description: "total number of files to process in the current phase",
+    example: 1200,
+  })
+  total: number;
+
+  @ApiPropertyOptional({
+    description: "file that is being indexed",
+    example: "/files/Super Mario Bros. (1985).zip",
+  })
+  current_file?: string;
+
+  @ApiProperty({
+    description: "number of games waiting for their metadata to be updated",
+    example: 35,
+  })
+  metadata_queue_size: number;
+}
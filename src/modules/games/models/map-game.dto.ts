@@ -17,7 +17,7 @@ export class MapGameDto {
   })
   @IsNotIn(globals.RESERVED_PROVIDER_SLUGS, {
     message:
-      "Invalid slug: The terms 'gamevault' and 'user' are reserved slugs.",
+      "Invalid slug: The terms 'gamevault', 'user', 'file' and 'sidecar' are reserved slugs.",
   })
   @ApiProperty({
     description:
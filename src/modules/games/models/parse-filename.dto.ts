@@ -0,0 +1,21 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from "class-validator";
+
+export class ParseFilenameDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({
+    description: "filename to parse",
+    example: "Some.Game.Definitive.Edition.v1.2.3-GROUP.zip",
+  })
+  filename: string;
+
+  @IsBoolean()
+  @IsOptional()
+  @ApiPropertyOptional({
+    description:
+      "whether the filename is the name of a folder game, which has no file extension",
+    default: false,
+  })
+  is_folder_game?: boolean = false;
+}
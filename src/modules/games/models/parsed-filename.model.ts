@@ -0,0 +1,57 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+
+import { GameAddonType } from "./game-addon-type.enum";
+import { GameType } from "./game-type.enum";
+
+export class ParsedFilename {
+  @ApiPropertyOptional({
+    description:
+      "name of the parsing profile that matched the filename. Not set if the built-in naming convention has been used.",
+    example: "scene",
+  })
+  profile?: string;
+
+  @ApiProperty({
+    description: "parsed title of the game",
+    example: "Some Game",
+  })
+  title: string;
+
+  @ApiPropertyOptional({
+    description: "parsed version of the game",
+    example: "v1.2.3",
+  })
+  version?: string;
+
+  @ApiPropertyOptional({
+    description: "parsed release year of the game",
+    example: "2013-01-01T00:00:00.000Z",
+  })
+  release_date?: Date;
+
+  @ApiProperty({
+    description: "parsed early access flag of the game",
+    example: false,
+  })
+  early_access: boolean;
+
+  @ApiPropertyOptional({
+    description: "parsed edition of the game",
+    example: "Definitive Edition",
+  })
+  edition?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "game type override parsed from the filename. If not set, the type is detected from the contents of the file.",
+    enum: GameType,
+  })
+  type?: GameType;
+
+  @ApiPropertyOptional({
+    description:
+      "add-on type parsed from the filename (e.g. '(DLC)'). Add-ons are linked to their base game.",
+    enum: GameAddonType,
+  })
+  addon_type?: GameAddonType;
+}
@@ -0,0 +1,22 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from "class-validator";
+
+export class RenameGameFilesDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @ApiPropertyOptional({
+    description:
+      "template for the path of game files relative to their library. Supported placeholders: {title}, {sort_title}, {release_year}, {version}, {edition}, {early_access}, {type}, {type_short} and {ext}. Defaults to GAMES_RENAME_TEMPLATE.",
+    example: "{title} ({release_year}) ({version}) ({type_short}).{ext}",
+  })
+  template?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  @ApiPropertyOptional({
+    description:
+      "whether to only preview the new paths without renaming any files. Defaults to true when renaming the files of the whole library.",
+  })
+  dry_run?: boolean;
+}
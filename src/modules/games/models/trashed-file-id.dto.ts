@@ -0,0 +1,9 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsNotEmpty, IsNumberString } from "class-validator";
+
+export class TrashedFileIdDto {
+  @IsNumberString()
+  @IsNotEmpty()
+  @ApiProperty({ example: "1", description: "id of the trashed file" })
+  trashed_file_id: number;
+}
@@ -0,0 +1,24 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsEnum, IsInt, IsOptional } from "class-validator";
+
+import { GameAddonType } from "./game-addon-type.enum";
+
+export class UpdateGameAddonDto {
+  @IsEnum(GameAddonType)
+  @ApiProperty({
+    description: "type of the add-on",
+    type: "string",
+    enum: GameAddonType,
+    example: GameAddonType.DLC,
+  })
+  type: GameAddonType;
+
+  @IsInt()
+  @IsOptional()
+  @ApiPropertyOptional({
+    description:
+      "id of the base game. If not provided, the base game is looked up by the title of the add-on.",
+    example: 1,
+  })
+  base_game_id?: number;
+}
@@ -1,8 +1,15 @@
 import { ApiPropertyOptional } from "@nestjs/swagger";
-import { IsArray, IsOptional, ValidateNested } from "class-validator";
+import {
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from "class-validator";
 
 import { UpdateGameUserMetadataDto } from "../../metadata/models/user-game-metadata.dto";
 import { MapGameDto } from "./map-game.dto";
+import { UpdateGameAddonDto } from "./update-game-addon.dto";
 
 export class UpdateGameDto {
   @IsArray()
@@ -24,4 +31,25 @@ export class UpdateGameDto {
     type: () => UpdateGameUserMetadataDto,
   })
   user_metadata?: UpdateGameUserMetadataDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @ApiPropertyOptional({
+    description:
+      "Marks the game as a DLC, patch, soundtrack or extra of a base game. Set it to null to unmark the game. If not provided, the game will not be marked or unmarked.",
+    type: () => UpdateGameAddonDto,
+    nullable: true,
+  })
+  addon?: UpdateGameAddonDto | null;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @ApiPropertyOptional({
+    description:
+      "The password of the game archive, used instead of the default archive password to detect the game and returned to users who can download the game. It is stored encrypted. Set it to null to remove it. If not provided, the password will not be changed.",
+    example: "Hunter2",
+    nullable: true,
+  })
+  archive_password?: string | null;
 }
@@ -0,0 +1,12 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsNotEmpty, IsUUID } from "class-validator";
+
+export class UploadIdDto {
+  @IsUUID(4)
+  @IsNotEmpty()
+  @ApiProperty({
+    example: "9b2f6c1e-3a5d-4f0e-8b7a-2c1d9e6f4a3b",
+    description: "id of the upload",
+  })
+  upload_id: string;
+}
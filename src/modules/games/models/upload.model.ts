@@ -0,0 +1,17 @@
+export interface Upload {
+  /** Unique identifier of the upload. */
+  id: string;
+  /** Sanitized filename the game will be stored under in the library. */
+  filename: string;
+  /** Total size of the upload in bytes. */
+  length: number;
+  /**
+   * Optional checksum in the tus format ("<algorithm> <base64 digest>"),
+   * validated once the upload is complete.
+   */
+  checksum?: string;
+  /** ISO8601 date the upload was created. */
+  created_at: string;
+  /** ISO8601 date after which an incomplete upload is discarded. */
+  expires_at: string;
+}
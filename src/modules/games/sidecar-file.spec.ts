@@ -0,0 +1,182 @@
+import { mkdtemp, outputFile, remove } from "fs-extra";
+import { tmpdir } from "os";
+import path from "path";
+import { InstallStepOs } from "../metadata/models/install-step-os.enum";
+import { InstallStepType } from "../metadata/models/install-step-type.enum";
+import { GameAddonType } from "./models/game-addon-type.enum";
+import { SidecarFile } from "./sidecar-file";
+
+describe("SidecarFile", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "gamevault-sidecar-"));
+  });
+
+  afterEach(async () => {
+    await remove(directory);
+  });
+
+  it("should read metadata and provider mappings from YAML sidecar files", async () => {
+    await outputFile(
+      path.join(directory, "Game (2020).gamevault.yaml"),
+      [
+        "Title: Curated Game",
+        "release_date: 2020-05-01",
+        "age_rating: 16",
+        "launch_parameters: -windowed",
+        "installer_executable: setup.exe",
+        "tags: [Co-op, Local Multiplayer]",
+        "providers:",
+        "  IGDB: 1234",
+      ].join("\n"),
+    );
+
+    const sidecar = await SidecarFile.find(
+      path.join(directory, "Game (2020).zip"),
+    );
+
+    expect(sidecar.path).toBe(
+      path.join(directory, "Game (2020).gamevault.yaml"),
+    );
+    expect(sidecar.metadata).toEqual(
+      expect.objectContaining({
+        title: "Curated Game",
+        release_date: new Date("2020-05-01"),
+        age_rating: 16,
+        launch_parameters: "-windowed",
+        installer_executable: "setup.exe",
+        description: null,
+        rating: null,
+        early_access: null,
+        tags: [
+          {
+            provider_slug: "sidecar",
+            provider_data_id: "co-op",
+            name: "Co-op",
+          },
+          {
+            provider_slug: "sidecar",
+            provider_data_id: "local-multiplayer",
+            name: "Local Multiplayer",
+          },
+        ],
+      }),
+    );
+    expect(sidecar.providers).toEqual([
+      { provider_slug: "igdb", provider_data_id: "1234" },
+    ]);
+  });
+
+  it("should read add-on markings", async () => {
+    await outputFile(
+      path.join(directory, "Game Soundtrack.gamevault.yaml"),
+      ["addon_type: soundtrack", "base_game: The Game"].join("\n"),
+    );
+
+    const sidecar = await SidecarFile.find(
+      path.join(directory, "Game Soundtrack.zip"),
+    );
+
+    expect(sidecar.addon_type).toBe(GameAddonType.SOUNDTRACK);
+    expect(sidecar.base_game).toBe("The Game");
+  });
+
+  it("should read install scripts and reject invalid ones", async () => {
+    await outputFile(
+      path.join(directory, "Game.gamevault.yaml"),
+      [
+        "install_script:",
+        "  version: 1",
+        "  steps:",
+        "    - type: RUN",
+        "      os: [WINDOWS]",
+        "      executable: _Redist/vc_redist.x64.exe",
+        "      parameters: /quiet",
+      ].join("\n"),
+    );
+    await outputFile(
+      path.join(directory, "Other Game.gamevault.yaml"),
+      ["install_script:", "  version: 1", "  steps: []"].join("\n"),
+    );
+
+    const sidecar = await SidecarFile.find(path.join(directory, "Game.zip"));
+
+    expect(sidecar.metadata.install_script).toEqual({
+      version: 1,
+      steps: [
+        {
+          type: InstallStepType.RUN,
+          os: [InstallStepOs.WINDOWS],
+          executable: "_Redist/vc_redist.x64.exe",
+          parameters: "/quiet",
+        },
+      ],
+    });
+    await expect(
+      SidecarFile.find(path.join(directory, "Other Game.zip")),
+    ).rejects.toThrow("Invalid install script: steps should not be empty");
+  });
+
+  it("should read Kodi-style NFO files", async () => {
+    await outputFile(
+      path.join(directory, "Some Folder Game.nfo"),
+      [
+        "<?xml version='1.0' encoding='UTF-8'?>",
+        "<game>",
+        "  <title>Tom &amp; Jerry</title>",
+        "  <plot><![CDATA[A <b>classic</b>.]]></plot>",
+        "  <year>1999</year>",
+        "  <genre>Platformer</genre>",
+        '  <uniqueid type="igdb">42</uniqueid>',
+        "</game>",
+      ].join("\n"),
+    );
+
+    const sidecar = await SidecarFile.find(
+      path.join(directory, "Some Folder Game"),
+      true,
+    );
+
+    expect(sidecar.metadata).toEqual(
+      expect.objectContaining({
+        title: "Tom & Jerry",
+        description: "A <b>classic</b>.",
+        release_date: new Date("1999"),
+        genres: [expect.objectContaining({ name: "Platformer" })],
+      }),
+    );
+    expect(sidecar.providers).toEqual([
+      { provider_slug: "igdb", provider_data_id: "42" },
+    ]);
+  });
+
+  it("should ignore release notes of scene releases", async () => {
+    await outputFile(
+      path.join(directory, "Some.Game-GROUP.nfo"),
+      "  ___  ___  \n Some Game (c) GROUP \n",
+    );
+
+    await expect(
+      SidecarFile.find(path.join(directory, "Some.Game-GROUP.zip")),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should reject YAML sidecar files that are no mapping", async () => {
+    await outputFile(path.join(directory, "Game.gamevault.yml"), "- a\n- b\n");
+
+    await expect(
+      SidecarFile.find(path.join(directory, "Game.7z")),
+    ).rejects.toThrow();
+  });
+
+  it("should derive the game name from the path of a sidecar file", () => {
+    expect(SidecarFile.isSidecarPath("/files/Game (2020).GameVault.yaml")).toBe(
+      true,
+    );
+    expect(SidecarFile.isSidecarPath("/files/Game (2020).yaml")).toBe(false);
+    expect(SidecarFile.getGameName("/files/Game (2020).gamevault.yaml")).toBe(
+      "Game (2020)",
+    );
+  });
+});
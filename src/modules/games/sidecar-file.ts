@@ -0,0 +1,285 @@
+import { pathExists, readFile } from "fs-extra";
+import { kebabCase, toLower, toUpper } from "lodash";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+
+import {
+  getInstallScriptErrors,
+  toInstallScript,
+} from "../../validators/install-script.validator";
+import { GameMetadata } from "../metadata/games/game.metadata.entity";
+import { GenreMetadata } from "../metadata/genres/genre.metadata.entity";
+import { InstallScript } from "../metadata/models/install-script.model";
+import { TagMetadata } from "../metadata/tags/tag.metadata.entity";
+import { GameAddonType } from "./models/game-addon-type.enum";
+
+type SidecarValues = Record<string, unknown>;
+
+export interface SidecarProviderMapping {
+  provider_slug: string;
+  provider_data_id: string;
+}
+
+const STRING_FIELDS = [
+  "title",
+  "description",
+  "notes",
+  "launch_parameters",
+  "launch_executable",
+  "installer_parameters",
+  "installer_executable",
+  "uninstaller_parameters",
+  "uninstaller_executable",
+] as const;
+
+const NUMBER_FIELDS = ["age_rating", "average_playtime", "rating"] as const;
+
+/**
+ * A file next to a game that holds curated metadata, e.g.
+ * `Game (2020).gamevault.yaml` next to `Game (2020).zip`. Besides metadata
+ * fields, including an install script, it can map the game to metadata
+ * providers and mark it as an add-on of a base game. Kodi-style `.nfo` files
+ * are supported as well, while plain-text release notes are ignored.
+ */
+export class SidecarFile {
+  /** Extensions of sidecar files in the order they are looked up. */
+  public static readonly extensions = [
+    ".gamevault.yaml",
+    ".gamevault.yml",
+    ".nfo",
+  ];
+
+  private constructor(
+    /** Path of the sidecar file. */
+    public readonly path: string,
+    /** Metadata of the sidecar. Fields it does not set are null. */
+    public readonly metadata: GameMetadata,
+    /** Provider mappings of the sidecar. */
+    public readonly providers: SidecarProviderMapping[],
+    /** Add-on type of the game, if the sidecar marks it as an add-on. */
+    public readonly addon_type?: GameAddonType,
+    /** Title of the base game of the add-on, if the sidecar names it. */
+    public readonly base_game?: string,
+  ) {}
+
+  /** Checks if the given path is named like a sidecar file. */
+  public static isSidecarPath(filePath: string): boolean {
+    return SidecarFile.getExtension(filePath) !== undefined;
+  }
+
+  /** Returns the name of the game file or folder a sidecar file belongs to. */
+  public static getGameName(sidecarPath: string): string {
+    const filename = path.basename(sidecarPath);
+    return filename.slice(
+      0,
+      filename.length - (SidecarFile.getExtension(sidecarPath)?.length ?? 0),
+    );
+  }
+
+  /**
+   * Finds and reads the sidecar file of a game. Returns undefined if the
+   * game has no sidecar file.
+   */
+  public static async find(
+    gamePath: string,
+    isFolderGame = false,
+  ): Promise<SidecarFile | undefined> {
+    const filename = path.basename(gamePath);
+    const name = isFolderGame
+      ? filename
+      : path.basename(filename, path.extname(filename));
+
+    for (const extension of SidecarFile.extensions) {
+      const sidecarPath = path.join(path.dirname(gamePath), name + extension);
+      if (!(await pathExists(sidecarPath))) {
+        continue;
+      }
+      const sidecar = await SidecarFile.fromPath(sidecarPath);
+      if (sidecar) {
+        return sidecar;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Reads a sidecar file. Returns undefined for `.nfo` files that don't
+   * contain metadata. Throws if the file can't be read or parsed.
+   */
+  public static async fromPath(
+    sidecarPath: string,
+  ): Promise<SidecarFile | undefined> {
+    const content = await readFile(sidecarPath, "utf-8");
+    const values =
+      SidecarFile.getExtension(sidecarPath) === ".nfo"
+        ? SidecarFile.parseNfo(content)
+        : SidecarFile.parseYaml(content);
+    if (!values) {
+      return undefined;
+    }
+
+    const isSet = (field: string) =>
+      values[field] != null && String(values[field]).trim() !== "";
+
+    const metadata = new GameMetadata();
+    for (const field of STRING_FIELDS) {
+      metadata[field] = isSet(field) ? String(values[field]).trim() : null;
+    }
+    for (const field of NUMBER_FIELDS) {
+      const number = isSet(field) ? Number(values[field]) : NaN;
+      metadata[field] = isNaN(number) ? null : number;
+    }
+    metadata.early_access = isSet("early_access")
+      ? ["true", "yes", "1"].includes(toLower(String(values.early_access)))
+      : null;
+    metadata.release_date = SidecarFile.parseDate(values.release_date);
+    metadata.install_script = SidecarFile.parseInstallScript(
+      values.install_script,
+    );
+    metadata.url_websites = SidecarFile.parseList(values.url_websites);
+    metadata.tags = SidecarFile.parseList(values.tags).map(
+      (name) =>
+        ({
+          provider_slug: "sidecar",
+          provider_data_id: kebabCase(name),
+          name,
+        }) as TagMetadata,
+    );
+    metadata.genres = SidecarFile.parseList(values.genres).map(
+      (name) =>
+        ({
+          provider_slug: "sidecar",
+          provider_data_id: kebabCase(name),
+          name,
+        }) as GenreMetadata,
+    );
+
+    const providers =
+      values.providers && typeof values.providers === "object"
+        ? Object.entries(values.providers)
+            .filter(([, id]) => id != null && id !== "")
+            .map(([slug, id]) => ({
+              provider_slug: toLower(slug),
+              provider_data_id: String(id),
+            }))
+        : [];
+
+    const addonType = isSet("addon_type")
+      ? Object.values(GameAddonType).find(
+          (type) => type === toUpper(String(values.addon_type).trim()),
+        )
+      : undefined;
+
+    return new SidecarFile(
+      sidecarPath,
+      metadata,
+      providers,
+      addonType,
+      isSet("base_game") ? String(values.base_game).trim() : undefined,
+    );
+  }
+
+  private static getExtension(filePath: string): string | undefined {
+    return SidecarFile.extensions.find((extension) =>
+      toLower(filePath).endsWith(extension),
+    );
+  }
+
+  private static parseYaml(content: string): SidecarValues {
+    const parsed = parseYaml(content) ?? {};
+    if (typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("Sidecar file must contain a YAML mapping.");
+    }
+    return Object.fromEntries(
+      Object.entries(parsed).map(([key, value]) => [toLower(key), value]),
+    );
+  }
+
+  /**
+   * Reads the fields of a Kodi-style `<game>` NFO file. Returns undefined
+   * if the file isn't one, e.g. for release notes of scene releases.
+   */
+  private static parseNfo(content: string): SidecarValues | undefined {
+    if (!/<game[\s>]/i.test(content)) {
+      return undefined;
+    }
+
+    const readAll = (tag: string): string[] =>
+      Array.from(
+        content.matchAll(
+          new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, "gi"),
+        ),
+        (match) => SidecarFile.decodeXml(match[1].trim()),
+      );
+
+    const providers: Record<string, string> = {};
+    for (const match of content.matchAll(
+      /<uniqueid\b[^>]*type="([^"]+)"[^>]*>([\s\S]*?)<\/uniqueid>/gi,
+    )) {
+      providers[match[1]] = SidecarFile.decodeXml(match[2].trim());
+    }
+
+    return {
+      title: readAll("title")[0],
+      description: readAll("plot")[0],
+      notes: readAll("notes")[0],
+      release_date: readAll("releasedate")[0] ?? readAll("year")[0],
+      rating: readAll("rating")[0],
+      age_rating: readAll("agerating")[0],
+      launch_parameters: readAll("launchparameters")[0],
+      launch_executable: readAll("launchexecutable")[0],
+      installer_parameters: readAll("installerparameters")[0],
+      installer_executable: readAll("installerexecutable")[0],
+      uninstaller_parameters: readAll("uninstallerparameters")[0],
+      uninstaller_executable: readAll("uninstallerexecutable")[0],
+      url_websites: readAll("website"),
+      tags: readAll("tag"),
+      genres: readAll("genre"),
+      addon_type: readAll("addontype")[0],
+      base_game: readAll("basegame")[0],
+      providers,
+    };
+  }
+
+  private static decodeXml(value: string): string {
+    return value
+      .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, "&");
+  }
+
+  /** Parses an install script. Throws if it is invalid. */
+  private static parseInstallScript(value: unknown): InstallScript | null {
+    if (value == null) {
+      return null;
+    }
+    const errors = getInstallScriptErrors(value);
+    if (errors.length) {
+      throw new Error(`Invalid install script: ${errors.join("; ")}`);
+    }
+    return toInstallScript(value as object);
+  }
+
+  private static parseDate(value: unknown): Date | null {
+    if (value == null || value === "") {
+      return null;
+    }
+    const date = value instanceof Date ? value : new Date(String(value).trim());
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private static parseList(value: unknown): string[] {
+    const list = Array.isArray(value)
+      ? value
+      : typeof value === "string"
+        ? value.split(",")
+        : [];
+    return list
+      .filter((item) => item != null)
+      .map((item) => String(item).trim())
+      .filter(Boolean);
+  }
+}
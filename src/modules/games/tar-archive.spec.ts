@@ -0,0 +1,149 @@
+import { mkdtemp, outputFile, remove } from "fs-extra";
+import { tmpdir } from "os";
+import path from "path";
+import { Readable } from "stream";
+import { TarArchive } from "./tar-archive";
+
+const readAll = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+/** Minimal tar reader returning the name and data of all entries. */
+const parseTar = (archive: Buffer): { name: string; data: Buffer }[] => {
+  const entries: { name: string; data: Buffer }[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+  while (offset < archive.length) {
+    const header = archive.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    const size = parseInt(header.toString("ascii", 124, 135), 8);
+    const type = header.toString("ascii", 156, 157);
+    const data = archive.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === "L") {
+      longName = data.subarray(0, data.length - 1).toString();
+      continue;
+    }
+    const name =
+      longName ?? header.subarray(0, 100).toString().replace(/\0.*$/, "");
+    longName = undefined;
+    entries.push({ name, data });
+  }
+  return entries;
+};
+
+describe("TarArchive", () => {
+  let directory: string;
+  const longDirectory = "z".repeat(80);
+
+  beforeAll(async () => {
+    directory = path.join(
+      await mkdtemp(path.join(tmpdir(), "gamevault-tar-")),
+      "My Game (2020)",
+    );
+    await outputFile(path.join(directory, "game.exe"), "executable");
+    await outputFile(
+      path.join(directory, "data", "assets.bin"),
+      Buffer.alloc(1500, 1),
+    );
+    await outputFile(
+      path.join(directory, longDirectory, "long-name.txt"),
+      "long",
+    );
+  });
+
+  afterAll(async () => {
+    await remove(path.dirname(directory));
+  });
+
+  it("should calculate the sizes ahead of time", async () => {
+    const archive = await TarArchive.fromPath(directory);
+    const data = await readAll(archive.createReadStream());
+
+    expect(data.length).toBe(archive.size);
+    expect(archive.size % 512).toBe(0);
+    expect(archive.contentSize).toBe(10 + 1500 + 4);
+  });
+
+  it("should contain all files and directories in a deterministic order", async () => {
+    const archive = await TarArchive.fromPath(directory);
+    const entries = parseTar(await readAll(archive.createReadStream()));
+
+    expect(entries.map((entry) => entry.name)).toEqual([
+      "My Game (2020)/",
+      "My Game (2020)/data/",
+      "My Game (2020)/data/assets.bin",
+      "My Game (2020)/game.exe",
+      `My Game (2020)/${longDirectory}/`,
+      `My Game (2020)/${longDirectory}/long-name.txt`,
+    ]);
+    expect(entries[3].data.toString()).toBe("executable");
+    expect(entries[5].data.toString()).toBe("long");
+    expect(archive.listFiles()).toEqual([
+      "My Game (2020)/data/assets.bin",
+      "My Game (2020)/game.exe",
+      `My Game (2020)/${longDirectory}/long-name.txt`,
+    ]);
+  });
+
+  it("should order entries by the bytes of their UTF-8 names", async () => {
+    // UTF-16 code units would order the emoji before the fullwidth letter
+    const unicodeDirectory = await mkdtemp(
+      path.join(tmpdir(), "gamevault-tar-"),
+    );
+    await outputFile(path.join(unicodeDirectory, "\u{1F600}.txt"), "emoji");
+    await outputFile(path.join(unicodeDirectory, "\uFF21.txt"), "letter");
+    try {
+      const archive = await TarArchive.fromPath(unicodeDirectory);
+
+      expect(archive.listFiles()).toEqual([
+        `${path.basename(unicodeDirectory)}/\uFF21.txt`,
+        `${path.basename(unicodeDirectory)}/\u{1F600}.txt`,
+      ]);
+    } finally {
+      await remove(unicodeDirectory);
+    }
+  });
+
+  it("should produce identical archives for identical content", async () => {
+    const first = await readAll(
+      (await TarArchive.fromPath(directory)).createReadStream(),
+    );
+    const second = await readAll(
+      (await TarArchive.fromPath(directory)).createReadStream(),
+    );
+
+    expect(first.equals(second)).toBe(true);
+  });
+
+  it("should stream arbitrary byte ranges", async () => {
+    const archive = await TarArchive.fromPath(directory);
+    const full = await readAll(archive.createReadStream());
+
+    for (const [start, end] of [
+      [0, 0],
+      [100, 1100],
+      [511, 2049],
+      [archive.size - 1030, archive.size - 1],
+    ]) {
+      const range = await readAll(archive.createReadStream(start, end));
+      expect(range.equals(full.subarray(start, end + 1))).toBe(true);
+    }
+  });
+
+  it("should archive single files under their base name", async () => {
+    const archive = await TarArchive.fromPath(path.join(directory, "game.exe"));
+    const entries = parseTar(await readAll(archive.createReadStream()));
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].name).toBe("game.exe");
+    expect(archive.size).toBe(512 + 512 + 1024);
+  });
+});
@@ -0,0 +1,348 @@
+import { Stats, createReadStream, readdir, stat } from "fs-extra";
+import path from "path";
+import { Readable } from "stream";
+
+const BLOCK_SIZE = 512;
+const TRAILER_SIZE = 2 * BLOCK_SIZE;
+const MAX_NAME_LENGTH = 100;
+const MAX_OCTAL_SIZE = 0o77777777777;
+const LONG_NAME = "././@LongLink";
+
+interface TarEntry {
+  /** Path of the entry inside the archive, using forward slashes. */
+  name: string;
+  /** Absolute path of the entry in the file system. */
+  source: string;
+  type: "file" | "directory";
+  size: number;
+  mode: number;
+  mtime: Date;
+  /** Offset of the first header block of the entry inside the archive. */
+  offset: number;
+  /** Length of all header blocks of the entry. */
+  headerLength: number;
+}
+
+/**
+ * A tar archive (GNU format) that is generated on the fly from a file or
+ * directory without writing it to disk. The layout is deterministic, so the
+ * size of the archive is known in advance and any byte range of it can be
+ * streamed independently, which allows resuming downloads.
+ */
+export class TarArchive {
+  /** Total size of the archive in bytes. */
+  public readonly size: number;
+  /** Sum of the sizes of all files in the archive in bytes. */
+  public readonly contentSize: number;
+  /** Most recent modification date of all entries in the archive. */
+  public readonly lastModified: Date;
+
+  private constructor(private readonly entries: TarEntry[]) {
+    let offset = 0;
+    let contentSize = 0;
+    let lastModified = 0;
+    for (const entry of entries) {
+      entry.offset = offset;
+      entry.headerLength = TarArchive.getHeaderLength(entry);
+      offset += entry.headerLength + TarArchive.padToBlock(entry.size);
+      contentSize += entry.size;
+      lastModified = Math.max(lastModified, entry.mtime.getTime());
+    }
+    this.size = offset + TRAILER_SIZE;
+    this.contentSize = contentSize;
+    this.lastModified = new Date(lastModified);
+  }
+
+  /**
+   * Creates an archive of the given file or directory. The archive contains
+   * the file or directory itself under its base name.
+   */
+  public static async fromPath(sourcePath: string): Promise<TarArchive> {
+    const entries: TarEntry[] = [];
+    await TarArchive.collectEntries(
+      sourcePath,
+      path.basename(sourcePath),
+      await stat(sourcePath),
+      entries,
+    );
+    // Byte-wise ordering keeps the layout independent of the file system
+    entries.sort((a, b) =>
+      Buffer.compare(Buffer.from(a.name), Buffer.from(b.name)),
+    );
+    return new TarArchive(entries);
+  }
+
+  /** Lists the paths, types and sizes of all entries inside the archive. */
+  public listEntries(): Pick<TarEntry, "name" | "type" | "size">[] {
+    return this.entries.map(({ name, type, size }) => ({ name, type, size }));
+  }
+
+  /** Lists the paths of all files inside the archive. */
+  public listFiles(): string[] {
+    return this.listEntries()
+      .filter((entry) => entry.type === "file")
+      .map((entry) => entry.name);
+  }
+
+  /**
+   * Streams the archive, optionally limited to the inclusive byte range from
+   * start to end.
+   */
+  public createReadStream(start = 0, end = this.size - 1): Readable {
+    return Readable.from(this.read(start, Math.min(end, this.size - 1)));
+  }
+
+  private async *read(start: number, end: number): AsyncGenerator<Buffer> {
+    for (const entry of this.entries) {
+      const dataStart = entry.offset + entry.headerLength;
+      const dataEnd = dataStart + entry.size;
+      const entryEnd = dataStart + TarArchive.padToBlock(entry.size);
+
+      if (entryEnd <= start) {
+        continue;
+      }
+      if (entry.offset > end) {
+        return;
+      }
+
+      const header = TarArchive.slice(
+        TarArchive.createHeaders(entry),
+        entry.offset,
+        start,
+        end,
+      );
+      if (header) {
+        yield header;
+      }
+
+      if (entry.size > 0 && dataStart <= end && dataEnd > start) {
+        yield* this.readFile(
+          entry,
+          Math.max(start, dataStart) - dataStart,
+          Math.min(end, dataEnd - 1) - dataStart,
+        );
+      }
+
+      const padding = TarArchive.slice(
+        Buffer.alloc(entryEnd - dataEnd),
+        dataEnd,
+        start,
+        end,
+      );
+      if (padding) {
+        yield padding;
+      }
+    }
+
+    const trailer = TarArchive.slice(
+      Buffer.alloc(TRAILER_SIZE),
+      this.size - TRAILER_SIZE,
+      start,
+      end,
+    );
+    if (trailer) {
+      yield trailer;
+    }
+  }
+
+  /** Reads the inclusive range from start to end of an entry's file. */
+  private async *readFile(
+    entry: TarEntry,
+    start: number,
+    end: number,
+  ): AsyncGenerator<Buffer> {
+    let bytesRead = 0;
+    for await (const chunk of createReadStream(entry.source, { start, end })) {
+      bytesRead += chunk.length;
+      yield chunk as Buffer;
+    }
+    if (bytesRead !== end - start + 1) {
+      throw new Error(
+        `File "${entry.source}" has changed while it was being archived.`,
+      );
+    }
+  }
+
+  private static createHeaders(entry: TarEntry): Buffer {
+    const nameBytes = Buffer.from(TarArchive.getHeaderName(entry));
+
+    if (nameBytes.length <= MAX_NAME_LENGTH) {
+      return TarArchive.createHeader(nameBytes, entry, "0");
+    }
+
+    // GNU long name extension: the name is stored in a preceding pseudo-entry
+    const longNameData = Buffer.concat([nameBytes, Buffer.alloc(1)]);
+    return Buffer.concat([
+      TarArchive.createHeader(
+        Buffer.from(LONG_NAME),
+        {
+          ...entry,
+          type: "file",
+          size: longNameData.length,
+          mode: 0o644,
+          mtime: new Date(0),
+        },
+        "L",
+      ),
+      longNameData,
+      Buffer.alloc(
+        TarArchive.padToBlock(longNameData.length) - longNameData.length,
+      ),
+      TarArchive.createHeader(
+        nameBytes.subarray(0, MAX_NAME_LENGTH),
+        entry,
+        "0",
+      ),
+    ]);
+  }
+
+  private static createHeader(
+    name: Buffer,
+    entry: Pick<TarEntry, "type" | "size" | "mode" | "mtime">,
+    fileTypeFlag: string,
+  ): Buffer {
+    const header = Buffer.alloc(BLOCK_SIZE);
+    const typeFlag =
+      fileTypeFlag === "0" && entry.type === "directory" ? "5" : fileTypeFlag;
+
+    name.copy(header, 0, 0, MAX_NAME_LENGTH);
+    TarArchive.writeOctal(header, entry.mode, 100, 8);
+    TarArchive.writeOctal(header, 0, 108, 8); // uid
+    TarArchive.writeOctal(header, 0, 116, 8); // gid
+    TarArchive.writeSize(header, entry.type === "directory" ? 0 : entry.size);
+    TarArchive.writeOctal(
+      header,
+      Math.floor(entry.mtime.getTime() / 1000),
+      136,
+      12,
+    );
+    header.write(typeFlag, 156, "ascii");
+    header.write("ustar  \0", 257, "ascii"); // GNU magic and version
+
+    // The checksum is calculated with the checksum field filled with spaces
+    header.fill(" ", 148, 156);
+    let checksum = 0;
+    for (const byte of header) {
+      checksum += byte;
+    }
+    header.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148, "ascii");
+
+    return header;
+  }
+
+  private static writeOctal(
+    header: Buffer,
+    value: number,
+    offset: number,
+    length: number,
+  ): void {
+    header.write(
+      `${value.toString(8).padStart(length - 1, "0")}\0`,
+      offset,
+      length,
+      "ascii",
+    );
+  }
+
+  /** Writes the size field, using base-256 encoding for files above 8 GiB. */
+  private static writeSize(header: Buffer, size: number): void {
+    if (size <= MAX_OCTAL_SIZE) {
+      TarArchive.writeOctal(header, size, 124, 12);
+      return;
+    }
+    header[124] = 0x80;
+    let value = BigInt(size);
+    for (let i = 135; i > 124; i--) {
+      header[i] = Number(value & 0xffn);
+      value >>= 8n;
+    }
+  }
+
+  private static async collectEntries(
+    source: string,
+    name: string,
+    stats: Stats,
+    entries: TarEntry[],
+  ): Promise<void> {
+    if (stats.isFile()) {
+      entries.push({
+        name,
+        source,
+        type: "file",
+        size: stats.size,
+        mode: stats.mode & 0o777,
+        mtime: stats.mtime,
+        offset: 0,
+        headerLength: 0,
+      });
+      return;
+    }
+
+    if (!stats.isDirectory()) {
+      return;
+    }
+
+    entries.push({
+      name,
+      source,
+      type: "directory",
+      size: 0,
+      mode: stats.mode & 0o777,
+      mtime: stats.mtime,
+      offset: 0,
+      headerLength: 0,
+    });
+
+    for (const dirent of await readdir(source, { withFileTypes: true })) {
+      const childSource = path.join(source, dirent.name);
+      // Symbolic links to directories are not followed to prevent cycles
+      const childStats = dirent.isSymbolicLink()
+        ? await stat(childSource).catch(() => undefined)
+        : await stat(childSource);
+      if (!childStats || (dirent.isSymbolicLink() && !childStats.isFile())) {
+        continue;
+      }
+      await TarArchive.collectEntries(
+        childSource,
+        `${name}/${dirent.name}`,
+        childStats,
+        entries,
+      );
+    }
+  }
+
+  private static getHeaderName(entry: TarEntry): string {
+    return entry.type === "directory" ? `${entry.name}/` : entry.name;
+  }
+
+  private static getHeaderLength(entry: TarEntry): number {
+    const nameLength = Buffer.byteLength(TarArchive.getHeaderName(entry));
+    if (nameLength <= MAX_NAME_LENGTH) {
+      return BLOCK_SIZE;
+    }
+    // Long name header, null-terminated name data and the actual header
+    return 2 * BLOCK_SIZE + TarArchive.padToBlock(nameLength + 1);
+  }
+
+  private static padToBlock(size: number): number {
+    return Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  /**
+   * Returns the part of a buffer located at the given archive offset that
+   * overlaps the inclusive range from start to end.
+   */
+  private static slice(
+    buffer: Buffer,
+    offset: number,
+    start: number,
+    end: number,
+  ): Buffer | undefined {
+    const sliceStart = Math.max(start, offset) - offset;
+    const sliceEnd = Math.min(end + 1, offset + buffer.length) - offset;
+    if (sliceStart >= sliceEnd) {
+      return undefined;
+    }
+    return buffer.subarray(sliceStart, sliceEnd);
+  }
+}
@@ -0,0 +1,123 @@
+import { Controller, Delete, Get, Param, Post } from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiSecurity,
+  ApiTags,
+} from "@nestjs/swagger";
+import { InjectRepository } from "@nestjs/typeorm";
+import {
+  Paginate,
+  PaginateQuery,
+  Paginated,
+  PaginationType,
+  paginate,
+} from "nestjs-paginate";
+import { Repository } from "typeorm";
+
+import configuration from "../../configuration";
+import { DisableApiIf } from "../../decorators/disable-api-if.decorator";
+import { MinimumRole } from "../../decorators/minimum-role.decorator";
+import { PaginateQueryOptions } from "../../decorators/pagination.decorator";
+import { ApiOkResponsePaginated } from "../../globals";
+import { Role } from "../users/models/role.enum";
+import { GamevaultGame } from "./gamevault-game.entity";
+import { TrashedFileIdDto } from "./models/trashed-file-id.dto";
+import { TrashService } from "./trash.service";
+import { TrashedFile } from "./trashed-file.entity";
+
+/** Recycle bin of game files deleted via the API. */
+@ApiBearerAuth()
+@ApiTags("game")
+@Controller("games/trash")
+@ApiSecurity("apikey")
+export class TrashController {
+  constructor(
+    private readonly trashService: TrashService,
+    @InjectRepository(TrashedFile)
+    private readonly trashedFileRepository: Repository<TrashedFile>,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: "get a list of game files in the recycle bin",
+    description:
+      "by default the list is sorted by the most recently deleted file. Only administrators can use this endpoint.",
+    operationId: "getTrashedFiles",
+  })
+  @MinimumRole(Role.ADMIN)
+  @ApiOkResponsePaginated(TrashedFile)
+  @PaginateQueryOptions()
+  async getTrashedFiles(
+    @Paginate() query: PaginateQuery,
+  ): Promise<Paginated<TrashedFile>> {
+    return paginate(query, this.trashedFileRepository, {
+      paginationType: PaginationType.TAKE_AND_SKIP,
+      defaultLimit: 100,
+      maxLimit: -1,
+      nullSort: "last",
+      loadEagerRelations: false,
+      relations: ["game"],
+      withDeleted: true,
+      defaultSortBy: [["id", "DESC"]],
+      sortableColumns: [
+        "id",
+        "created_at",
+        "expires_at",
+        "original_path",
+        "size",
+      ],
+      searchableColumns: ["original_path"],
+      filterableColumns: {
+        id: true,
+        created_at: true,
+        expires_at: true,
+        "game.id": true,
+      },
+    });
+  }
+
+  @Post(":trashed_file_id/restore")
+  @ApiOperation({
+    summary: "restore a game file from the recycle bin",
+    description:
+      "Moves the file back to where it was deleted from and restores its game including its progresses and metadata. Fails if another file exists at that path. Only administrators can use this endpoint.",
+    operationId: "postTrashedFileRestore",
+  })
+  @MinimumRole(Role.ADMIN)
+  @ApiOkResponse({ type: () => GamevaultGame })
+  @DisableApiIf(configuration.SERVER.DEMO_MODE_ENABLED)
+  async postTrashedFileRestore(
+    @Param() params: TrashedFileIdDto,
+  ): Promise<GamevaultGame> {
+    return this.trashService.restore(Number(params.trashed_file_id));
+  }
+
+  @Delete()
+  @ApiOperation({
+    summary: "empty the recycle bin",
+    description:
+      "Permanently deletes all game files in the recycle bin. Only administrators can use this endpoint.",
+    operationId: "deleteTrashedFiles",
+  })
+  @MinimumRole(Role.ADMIN)
+  @DisableApiIf(configuration.SERVER.DEMO_MODE_ENABLED)
+  async deleteTrashedFiles(): Promise<void> {
+    return this.trashService.purgeAll();
+  }
+
+  @Delete(":trashed_file_id")
+  @ApiOperation({
+    summary: "permanently delete a game file from the recycle bin",
+    description: "Only administrators can use this endpoint.",
+    operationId: "deleteTrashedFileByTrashedFileId",
+  })
+  @MinimumRole(Role.ADMIN)
+  @DisableApiIf(configuration.SERVER.DEMO_MODE_ENABLED)
+  async deleteTrashedFileByTrashedFileId(
+    @Param() params: TrashedFileIdDto,
+  ): Promise<void> {
+    return this.trashService.purge(Number(params.trashed_file_id));
+  }
+}
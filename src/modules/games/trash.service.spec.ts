@@ -0,0 +1,126 @@
+import { ConflictException, NotFoundException } from "@nestjs/common";
+import { mkdtemp, outputFile, pathExists, readFile, remove } from "fs-extra";
+import { tmpdir } from "os";
+import path from "path";
+import { Repository } from "typeorm";
+import { GamesService } from "./games.service";
+import { TrashService } from "./trash.service";
+import { TrashedFile } from "./trashed-file.entity";
+
+jest.mock("../../configuration", () => ({
+  __esModule: true,
+  default: {
+    GAMES: { TRASH_RETENTION_IN_DAYS: 30 },
+  },
+}));
+
+jest.mock("./games.service", () => ({
+  GamesService: jest.fn(),
+}));
+
+describe("TrashService", () => {
+  let service: TrashService;
+  let trashedFileRepository: jest.Mocked<Repository<TrashedFile>>;
+  let gamesService: jest.Mocked<GamesService>;
+  let library: string;
+  let gamePath: string;
+
+  beforeEach(async () => {
+    library = await mkdtemp(path.join(tmpdir(), "gamevault-trash-"));
+    gamePath = path.join(library, "Action", "Game (2020).zip");
+    await outputFile(gamePath, "game");
+
+    trashedFileRepository = {
+      findOneOrFail: jest.fn(),
+      find: jest.fn(),
+      save: jest.fn(async (trashedFile) => trashedFile),
+      delete: jest.fn(),
+    } as any;
+    gamesService = {
+      restore: jest.fn(async (id) => ({ id })),
+    } as any;
+
+    service = new TrashService(trashedFileRepository, gamesService);
+  });
+
+  afterEach(async () => {
+    await remove(library);
+  });
+
+  const trashGame = () =>
+    service.trash(
+      { id: 7, file_path: gamePath, size: BigInt(4) } as any,
+      library,
+    );
+
+  it("should move game files to the recycle bin of their library", async () => {
+    const trashedFile = await trashGame();
+
+    expect(await pathExists(gamePath)).toBe(false);
+    expect(await readFile(trashedFile.trash_path, "utf-8")).toBe("game");
+    expect(
+      trashedFile.trash_path.startsWith(
+        path.join(library, ".gamevault", "trash"),
+      ),
+    ).toBe(true);
+    expect(path.basename(trashedFile.trash_path)).toBe("Game (2020).zip");
+    expect(trashedFile).toEqual(
+      expect.objectContaining({
+        game: { id: 7 },
+        original_path: gamePath,
+        size: BigInt(4),
+      }),
+    );
+    expect(trashedFile.expires_at.getTime()).toBeGreaterThan(
+      Date.now() + 29 * 24 * 60 * 60 * 1000,
+    );
+  });
+
+  it("should move game files back if they can't be recorded", async () => {
+    trashedFileRepository.save.mockRejectedValue(new Error("db error"));
+
+    await expect(trashGame()).rejects.toThrow("db error");
+    expect(await readFile(gamePath, "utf-8")).toBe("game");
+  });
+
+  it("should restore trashed files and their games", async () => {
+    const trashedFile = await trashGame();
+    trashedFileRepository.findOneOrFail.mockResolvedValue(trashedFile);
+
+    await expect(service.restore(1)).resolves.toEqual({ id: 7 });
+
+    expect(await readFile(gamePath, "utf-8")).toBe("game");
+    expect(await pathExists(path.dirname(trashedFile.trash_path))).toBe(false);
+    expect(trashedFileRepository.delete).toHaveBeenCalledWith({ id: 1 });
+    expect(gamesService.restore).toHaveBeenCalledWith(7);
+  });
+
+  it("should not overwrite files when restoring", async () => {
+    const trashedFile = await trashGame();
+    trashedFileRepository.findOneOrFail.mockResolvedValue(trashedFile);
+    await outputFile(gamePath, "new game");
+
+    await expect(service.restore(1)).rejects.toThrow(ConflictException);
+    expect(await readFile(gamePath, "utf-8")).toBe("new game");
+    expect(await pathExists(trashedFile.trash_path)).toBe(true);
+  });
+
+  it("should throw if the trashed file does not exist", async () => {
+    trashedFileRepository.findOneOrFail.mockRejectedValue(new Error());
+
+    await expect(service.purge(1)).rejects.toThrow(NotFoundException);
+  });
+
+  it("should purge expired trashed files", async () => {
+    const trashedFile = await trashGame();
+    trashedFileRepository.find.mockResolvedValue([
+      { id: 1, original_path: gamePath } as TrashedFile,
+    ]);
+    trashedFileRepository.findOneOrFail.mockResolvedValue(trashedFile);
+
+    await service.purgeExpired();
+
+    expect(await pathExists(path.dirname(trashedFile.trash_path))).toBe(false);
+    expect(trashedFileRepository.delete).toHaveBeenCalledWith({ id: 1 });
+  });
+});
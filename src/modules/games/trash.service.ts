@@ -0,0 +1,156 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { Interval } from "@nestjs/schedule";
+import { InjectRepository } from "@nestjs/typeorm";
+import { randomUUID } from "crypto";
+import { move, pathExists, remove } from "fs-extra";
+import ms from "ms";
+import path from "path";
+import { LessThanOrEqual, Repository } from "typeorm";
+
+import configuration from "../../configuration";
+import globals from "../../globals";
+import { GamesService } from "./games.service";
+import { GamevaultGame } from "./gamevault-game.entity";
+import { TrashedFile } from "./trashed-file.entity";
+
+/**
+ * Recycle bin for game files deleted via the API. Files are moved to the
+ * internal directory of their library, so they stay on the same volume and
+ * can be restored without copying.
+ */
+@Injectable()
+export class TrashService {
+  private readonly logger = new Logger(this.constructor.name);
+
+  constructor(
+    @InjectRepository(TrashedFile)
+    private readonly trashedFileRepository: Repository<TrashedFile>,
+    private readonly gamesService: GamesService,
+  ) {}
+
+  public async findOneByTrashedFileIdOrFail(id: number): Promise<TrashedFile> {
+    try {
+      return await this.trashedFileRepository.findOneOrFail({
+        where: { id },
+        relations: ["game"],
+        withDeleted: true,
+      });
+    } catch (error) {
+      throw new NotFoundException(
+        `Trashed file with id ${id} was not found on the server.`,
+        { cause: error },
+      );
+    }
+  }
+
+  /** Moves the file of a game to the recycle bin of the given library. */
+  public async trash(
+    game: GamevaultGame,
+    libraryPath: string,
+  ): Promise<TrashedFile> {
+    const trashPath = path.join(
+      libraryPath,
+      globals.INTERNAL_DIRECTORY_NAME,
+      "trash",
+      randomUUID(),
+      path.basename(game.file_path),
+    );
+    await move(game.file_path, trashPath);
+
+    const trashedFile = new TrashedFile();
+    trashedFile.game = { id: game.id } as GamevaultGame;
+    trashedFile.original_path = game.file_path;
+    trashedFile.trash_path = trashPath;
+    trashedFile.size = game.size;
+    trashedFile.expires_at = new Date(
+      Date.now() +
+        configuration.GAMES.TRASH_RETENTION_IN_DAYS * 24 * 60 * 60 * 1000,
+    );
+    try {
+      await this.trashedFileRepository.save(trashedFile);
+    } catch (error) {
+      // Files must not end up in the recycle bin without a way to restore them
+      await move(trashPath, game.file_path);
+      await remove(path.dirname(trashPath));
+      throw error;
+    }
+
+    this.logger.log({
+      message: "Moved game file to recycle bin.",
+      gameId: game.id,
+      path: game.file_path,
+      trash_path: trashPath,
+    });
+    return trashedFile;
+  }
+
+  /**
+   * Moves a trashed file back to where it was deleted from and restores its
+   * game including its progresses and metadata.
+   */
+  public async restore(id: number): Promise<GamevaultGame> {
+    const trashedFile = await this.findOneByTrashedFileIdOrFail(id);
+    if (await pathExists(trashedFile.original_path)) {
+      throw new ConflictException(
+        `A file already exists at "${trashedFile.original_path}". Move it away before restoring the trashed file.`,
+      );
+    }
+
+    await move(trashedFile.trash_path, trashedFile.original_path);
+    await remove(path.dirname(trashedFile.trash_path));
+    await this.trashedFileRepository.delete({ id });
+
+    this.logger.log({
+      message: "Restored game file from recycle bin.",
+      gameId: trashedFile.game.id,
+      path: trashedFile.original_path,
+    });
+    return this.gamesService.restore(trashedFile.game.id);
+  }
+
+  /** Deletes a trashed file permanently. */
+  public async purge(id: number): Promise<void> {
+    const trashedFile = await this.findOneByTrashedFileIdOrFail(id);
+    await remove(path.dirname(trashedFile.trash_path));
+    await this.trashedFileRepository.delete({ id });
+    this.logger.log({
+      message: "Purged game file from recycle bin.",
+      path: trashedFile.original_path,
+      trash_path: trashedFile.trash_path,
+    });
+  }
+
+  /** Deletes all trashed files permanently. */
+  public async purgeAll(): Promise<void> {
+    for (const { id } of await this.trashedFileRepository.find({
+      select: ["id"],
+    })) {
+      await this.purge(id);
+    }
+  }
+
+  /** Deletes trashed files whose retention period is over. */
+  @Interval("purgeExpiredTrash", ms("1h"))
+  public async purgeExpired(): Promise<void> {
+    const expiredFiles = await this.trashedFileRepository.find({
+      select: ["id", "original_path"],
+      where: { expires_at: LessThanOrEqual(new Date()) },
+    });
+    for (const trashedFile of expiredFiles) {
+      try {
+        await this.purge(trashedFile.id);
+      } catch (error) {
+        this.logger.error({
+          message: "Error purging expired game file from recycle bin.",
+          path: trashedFile.original_path,
+          error,
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Column, Entity, Index, ManyToOne } from "typeorm";
+
+import { DatabaseEntity } from "../database/database.entity";
+import { GamevaultGame } from "./gamevault-game.entity";
+
+/**
+ * Game file that was deleted via the API and moved to the recycle bin of its
+ * library. It is purged permanently once its retention period is over.
+ */
+@Entity()
+export class TrashedFile extends DatabaseEntity {
+  @Index()
+  @ManyToOne(() => GamevaultGame, { onDelete: "CASCADE" })
+  @ApiPropertyOptional({
+    description: "soft-deleted game the file belongs to",
+    type: () => GamevaultGame,
+  })
+  game?: GamevaultGame;
+
+  @Index()
+  @Column()
+  @ApiProperty({
+    description: "path the file was deleted from",
+    example: "/files/Action/Grand Theft Auto V (v1.0.0).zip",
+  })
+  original_path: string;
+
+  @Column()
+  @ApiProperty({
+    description: "path of the file in the recycle bin",
+    example:
+      "/files/.gamevault/trash/3b241101-e2bb-4255-8caf-4136c566a962/Grand Theft Auto V (v1.0.0).zip",
+  })
+  trash_path: string;
+
+  @Column({
+    type: "bigint",
+    default: 0,
+    transformer: {
+      to: (value) => value,
+      from: (value) => {
+        if (value) return BigInt(value).toString();
+        return value;
+      },
+    },
+  })
+  @ApiProperty({
+    description: "size of the file in bytes",
+    example: "1234567890",
+    type: () => String,
+  })
+  size: bigint;
+
+  @Index()
+  @Column()
+  @ApiProperty({
+    description: "date the file is purged from the recycle bin automatically",
+    example: "2021-01-31T00:00:00.000Z",
+  })
+  expires_at: Date;
+}
@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Delete,
+  Head,
+  Header,
+  Headers,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  Req,
+  Res,
+} from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiHeader,
+  ApiNoContentResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiSecurity,
+  ApiTags,
+} from "@nestjs/swagger";
+import { Request, Response } from "express";
+
+import configuration from "../../configuration";
+import { DisableApiIf } from "../../decorators/disable-api-if.decorator";
+import { MinimumRole } from "../../decorators/minimum-role.decorator";
+import { Role } from "../users/models/role.enum";
+import { UploadIdDto } from "./models/upload-id.dto";
+import { UploadsService } from "./uploads.service";
+
+/**
+ * Resumable game uploads following the tus protocol (https://tus.io).
+ * Data is staged in the upload library and only indexed once complete.
+ */
+@ApiBearerAuth()
+@ApiTags("game")
+@Controller("games/uploads")
+@ApiSecurity("apikey")
+export class UploadsController {
+  constructor(private readonly uploadsService: UploadsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: "creates a resumable game upload",
+    description:
+      "Creates a resumable upload (tus protocol, creation extension). The Location response header contains the URL to send the data to. Only administrators can use this endpoint.",
+    operationId: "postGameUploadCreate",
+  })
+  @ApiHeader({
+    name: "Upload-Length",
+    required: true,
+    description: "total size of the file in bytes",
+    example: "1073741824",
+  })
+  @ApiHeader({
+    name: "Upload-Metadata",
+    required: true,
+    description:
+      'comma-separated key/base64-value pairs. "filename" is required, "checksum" (e.g. "sha256 <base64 digest>") is optional and validated once the upload is complete.',
+    example: "filename R2FtZSAoMjAyMCkuemlw",
+  })
+  @Header("Tus-Resumable", "1.0.0")
+  @MinimumRole(Role.ADMIN)
+  @DisableApiIf(configuration.SERVER.DEMO_MODE_ENABLED)
+  async postGameUploadCreate(
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+    @Headers("Upload-Length") length: string,
+    @Headers("Upload-Metadata") metadata?: string,
+  ): Promise<void> {
+    const upload = await this.uploadsService.create(Number(length), metadata);
+    response.setHeader(
+      "Location",
+      `${request.originalUrl.split("?")[0].replace(/\/$/, "")}/${upload.id}`,
+    );
+    response.setHeader(
+      "Upload-Expires",
+      new Date(upload.expires_at).toUTCString(),
+    );
+  }
+
+  @Head(":upload_id")
+  @ApiOperation({
+    summary: "returns the current offset of a resumable game upload",
+    operationId: "headGameUpload",
+  })
+  @ApiOkResponse()
+  @Header("Tus-Resumable", "1.0.0")
+  @Header("Cache-Control", "no-store")
+  @MinimumRole(Role.ADMIN)
+  async headGameUpload(
+    @Param() params: UploadIdDto,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<void> {
+    const { upload, offset } = await this.uploadsService.findOneOrFail(
+      params.upload_id,
+    );
+    response.setHeader("Upload-Offset", offset);
+    response.setHeader("Upload-Length", upload.length);
+    response.setHeader(
+      "Upload-Expires",
+      new Date(upload.expires_at).toUTCString(),
+    );
+  }
+
+  @Patch(":upload_id")
+  @HttpCode(204)
+  @ApiOperation({
+    summary: "appends data to a resumable game upload",
+    description:
+      "Appends the request body to the upload. The Upload-Offset header must match the current offset of the upload. Once all bytes have been received, the checksum is validated and the game is moved into the library and indexed.",
+    operationId: "patchGameUpload",
+  })
+  @ApiHeader({
+    name: "Upload-Offset",
+    required: true,
+    description: "offset in bytes the data is appended at",
+    example: "0",
+  })
+  @ApiHeader({
+    name: "Content-Type",
+    required: true,
+    description: 'must be "application/offset+octet-stream"',
+    example: "application/offset+octet-stream",
+  })
+  @ApiNoContentResponse()
+  @Header("Tus-Resumable", "1.0.0")
+  @MinimumRole(Role.ADMIN)
+  @DisableApiIf(configuration.SERVER.DEMO_MODE_ENABLED)
+  async patchGameUpload(
+    @Param() params: UploadIdDto,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+    @Headers("Upload-Offset") offset: string,
+    @Headers("Content-Type") contentType: string,
+  ): Promise<void> {
+    const newOffset = await this.uploadsService.append(
+      params.upload_id,
+      Number(offset),
+      contentType,
+      request,
+    );
+    response.setHeader("Upload-Offset", newOffset);
+  }
+
+  @Delete(":upload_id")
+  @HttpCode(204)
+  @ApiOperation({
+    summary: "terminates a resumable game upload",
+    operationId: "deleteGameUpload",
+  })
+  @ApiNoContentResponse()
+  @Header("Tus-Resumable", "1.0.0")
+  @MinimumRole(Role.ADMIN)
+  async deleteGameUpload(@Param() params: UploadIdDto): Promise<void> {
+    await this.uploadsService.terminate(params.upload_id);
+  }
+}
@@ -0,0 +1,273 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from "@nestjs/common";
+import { createHash } from "crypto";
+import { pathExists, readFile, remove } from "fs-extra";
+import path from "path";
+import { Readable } from "stream";
+import { FilesService } from "./files.service";
+import { UploadsService } from "./uploads.service";
+
+jest.mock("../../configuration", () => ({
+  __esModule: true,
+  default: {
+    VOLUMES: {
+      FILES: "/tmp/test-uploads",
+    },
+    GAMES: {
+      MAX_UPLOAD_SIZE: 1024,
+      UPLOAD_EXPIRATION_IN_HOURS: 24,
+    },
+  },
+}));
+
+jest.mock("../../globals", () => ({
+  __esModule: true,
+  default: {
+    INTERNAL_DIRECTORY_NAME: ".gamevault",
+  },
+}));
+
+jest.mock("./files.service", () => ({
+  FilesService: jest.fn(),
+}));
+
+const stagingDirectory = "/tmp/test-uploads/.gamevault/uploads";
+const encode = (value: string) => Buffer.from(value).toString("base64");
+const octetStream = "application/offset+octet-stream";
+
+describe("UploadsService", () => {
+  let service: UploadsService;
+  let filesService: jest.Mocked<FilesService>;
+
+  beforeEach(() => {
+    filesService = {
+      validateUploadFilename: jest.fn((name: string) => {
+        if (!name) {
+          throw new BadRequestException("invalid filename");
+        }
+        return name;
+      }),
+      prepareUploadTarget: jest.fn().mockResolvedValue("/library/game.zip"),
+      importFile: jest.fn().mockResolvedValue({ path: "/library/game.zip" }),
+      findUploadLibrary: jest
+        .fn()
+        .mockReturnValue({ path: "/tmp/test-uploads" }),
+      getUploadLibraryOrFail: jest
+        .fn()
+        .mockReturnValue({ path: "/tmp/test-uploads" }),
+    } as any;
+
+    service = new UploadsService(filesService);
+  });
+
+  afterEach(async () => {
+    await remove("/tmp/test-uploads");
+  });
+
+  describe("create", () => {
+    it("should reject invalid lengths", async () => {
+      await expect(
+        service.create(NaN, `filename ${encode("game.zip")}`),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.create(0, `filename ${encode("game.zip")}`),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it("should reject uploads exceeding the maximum upload size", async () => {
+      await expect(
+        service.create(2048, `filename ${encode("game.zip")}`),
+      ).rejects.toThrow(PayloadTooLargeException);
+    });
+
+    it("should reject missing filenames", async () => {
+      await expect(service.create(10)).rejects.toThrow(BadRequestException);
+    });
+
+    it("should reject unsupported checksum algorithms", async () => {
+      await expect(
+        service.create(
+          10,
+          `filename ${encode("game.zip")},checksum ${encode("crc32 abc")}`,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it("should create an empty upload", async () => {
+      const upload = await service.create(10, `filename ${encode("game.zip")}`);
+
+      expect(upload.filename).toBe("game.zip");
+      expect(upload.length).toBe(10);
+      expect(filesService.prepareUploadTarget).toHaveBeenCalledWith("game.zip");
+      await expect(service.findOneOrFail(upload.id)).resolves.toEqual({
+        upload,
+        offset: 0,
+      });
+    });
+  });
+
+  describe("append", () => {
+    it("should reject wrong content types", async () => {
+      const upload = await service.create(4, `filename ${encode("game.zip")}`);
+
+      await expect(
+        service.append(
+          upload.id,
+          0,
+          "application/json",
+          Readable.from([Buffer.from("test")]),
+        ),
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+    });
+
+    it("should reject unknown uploads", async () => {
+      await expect(
+        service.append(
+          "unknown",
+          0,
+          octetStream,
+          Readable.from([Buffer.from("test")]),
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it("should reject mismatching offsets", async () => {
+      const upload = await service.create(4, `filename ${encode("game.zip")}`);
+
+      await expect(
+        service.append(
+          upload.id,
+          2,
+          octetStream,
+          Readable.from([Buffer.from("st")]),
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it("should reject data exceeding the declared length", async () => {
+      const upload = await service.create(4, `filename ${encode("game.zip")}`);
+
+      await expect(
+        service.append(
+          upload.id,
+          0,
+          octetStream,
+          Readable.from([Buffer.from("too long")]),
+        ),
+      ).rejects.toThrow(PayloadTooLargeException);
+    });
+
+    it("should resume and finalize uploads", async () => {
+      const upload = await service.create(8, `filename ${encode("game.zip")}`);
+      filesService.importFile.mockImplementation(async (source) => {
+        expect((await readFile(source)).toString()).toBe("testdata");
+        return { path: "/library/game.zip" };
+      });
+
+      await expect(
+        service.append(
+          upload.id,
+          0,
+          octetStream,
+          Readable.from([Buffer.from("test")]),
+        ),
+      ).resolves.toBe(4);
+      expect(filesService.importFile).not.toHaveBeenCalled();
+
+      await expect(
+        service.append(
+          upload.id,
+          4,
+          octetStream,
+          Readable.from([Buffer.from("data")]),
+        ),
+      ).resolves.toBe(8);
+      expect(filesService.importFile).toHaveBeenCalledWith(
+        expect.stringContaining(`${upload.id}.part`),
+        "game.zip",
+      );
+      await expect(service.findOneOrFail(upload.id)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it("should discard uploads with a mismatching checksum", async () => {
+      const digest = createHash("sha256").update("other").digest("base64");
+      const upload = await service.create(
+        4,
+        `filename ${encode("game.zip")},checksum ${encode(`sha256 ${digest}`)}`,
+      );
+
+      await expect(
+        service.append(
+          upload.id,
+          0,
+          octetStream,
+          Readable.from([Buffer.from("test")]),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(filesService.importFile).not.toHaveBeenCalled();
+      await expect(service.findOneOrFail(upload.id)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it("should import uploads with a matching checksum", async () => {
+      const digest = createHash("sha256").update("test").digest("base64");
+      const upload = await service.create(
+        4,
+        `filename ${encode("game.zip")},checksum ${encode(`sha256 ${digest}`)}`,
+      );
+
+      await service.append(
+        upload.id,
+        0,
+        octetStream,
+        Readable.from([Buffer.from("test")]),
+      );
+
+      expect(filesService.importFile).toHaveBeenCalled();
+    });
+  });
+
+  describe("prepareStagingDirectory", () => {
+    it("should create the staging area in the upload library on demand", async () => {
+      expect(await pathExists(stagingDirectory)).toBe(false);
+
+      await expect(service.prepareStagingDirectory()).resolves.toBe(
+        stagingDirectory,
+      );
+      expect(await pathExists(stagingDirectory)).toBe(true);
+    });
+
+    it("should reject uploads if all libraries are read-only", async () => {
+      filesService.getUploadLibraryOrFail.mockImplementation(() => {
+        throw new BadRequestException("read-only");
+      });
+
+      await expect(service.prepareStagingDirectory()).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe("terminate", () => {
+    it("should delete all staged data", async () => {
+      const upload = await service.create(4, `filename ${encode("game.zip")}`);
+
+      await service.terminate(upload.id);
+
+      expect(
+        await pathExists(path.join(stagingDirectory, `${upload.id}.part`)),
+      ).toBe(false);
+      await expect(service.findOneOrFail(upload.id)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
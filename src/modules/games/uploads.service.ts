@@ -0,0 +1,380 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from "@nestjs/common";
+import { Interval } from "@nestjs/schedule";
+import { createHash, randomUUID } from "crypto";
+import {
+  createReadStream,
+  createWriteStream,
+  ensureDir,
+  outputFile,
+  outputJson,
+  pathExists,
+  readJson,
+  readdir,
+  remove,
+  stat,
+} from "fs-extra";
+import ms from "ms";
+import path from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+
+import configuration from "../../configuration";
+import globals from "../../globals";
+import { FilesService } from "./files.service";
+import { Upload } from "./models/upload.model";
+
+@Injectable()
+export class UploadsService {
+  private readonly logger = new Logger(this.constructor.name);
+  private readonly supportedChecksumAlgorithms = [
+    "md5",
+    "sha1",
+    "sha256",
+    "sha512",
+  ];
+  private readonly activeUploads = new Set<string>();
+
+  constructor(private readonly filesService: FilesService) {}
+
+  /**
+   * Creates a new resumable upload. The declared length and the filename are
+   * validated up front, so clients fail fast before sending any data.
+   */
+  public async create(
+    length: number,
+    metadataHeader?: string,
+  ): Promise<Upload> {
+    if (!Number.isSafeInteger(length) || length <= 0) {
+      throw new BadRequestException(
+        "The Upload-Length header must be a positive integer.",
+      );
+    }
+
+    if (length > configuration.GAMES.MAX_UPLOAD_SIZE) {
+      throw new PayloadTooLargeException(
+        `File exceeds maximum allowed upload size of ${configuration.GAMES.MAX_UPLOAD_SIZE} bytes.`,
+      );
+    }
+
+    const metadata = this.parseMetadata(metadataHeader);
+    const filename = this.filesService.validateUploadFilename(
+      metadata.filename,
+    );
+    await this.filesService.prepareUploadTarget(filename);
+
+    const checksum = metadata.checksum;
+    if (checksum) {
+      this.parseChecksum(checksum);
+    }
+
+    const now = Date.now();
+    const upload: Upload = {
+      id: randomUUID(),
+      filename,
+      length,
+      checksum,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(
+        now + configuration.GAMES.UPLOAD_EXPIRATION_IN_HOURS * 60 * 60 * 1000,
+      ).toISOString(),
+    };
+
+    await this.prepareStagingDirectory();
+    await outputJson(this.getInfoPath(upload.id), upload);
+    await outputFile(this.getPartPath(upload.id), "");
+
+    this.logger.log({ message: "Created resumable upload.", upload });
+    return upload;
+  }
+
+  /** Returns an upload and the number of bytes received so far. */
+  public async findOneOrFail(
+    id: string,
+  ): Promise<{ upload: Upload; offset: number }> {
+    const upload = await this.readInfo(id);
+    return { upload, offset: await this.getOffset(id) };
+  }
+
+  /**
+   * Appends a chunk of data to an upload at the given offset. Once all bytes
+   * have been received, the upload is finalized and moved into the library.
+   * Returns the new offset.
+   */
+  public async append(
+    id: string,
+    offset: number,
+    contentType: string,
+    data: Readable,
+  ): Promise<number> {
+    if (contentType !== "application/offset+octet-stream") {
+      throw new UnsupportedMediaTypeException(
+        'The Content-Type header must be "application/offset+octet-stream".',
+      );
+    }
+
+    const upload = await this.readInfo(id);
+
+    if (this.activeUploads.has(id)) {
+      throw new ConflictException(
+        "Another request is currently writing to this upload.",
+      );
+    }
+
+    this.activeUploads.add(id);
+    try {
+      const currentOffset = await this.getOffset(id);
+      if (offset !== currentOffset) {
+        throw new ConflictException(
+          `Upload-Offset ${offset} does not match the current offset ${currentOffset}.`,
+        );
+      }
+
+      let receivedBytes = 0;
+      const lengthGuard = new Transform({
+        transform: (chunk: Buffer, _encoding, callback) => {
+          receivedBytes += chunk.length;
+          if (currentOffset + receivedBytes > upload.length) {
+            callback(
+              new PayloadTooLargeException(
+                `The chunk exceeds the declared Upload-Length of ${upload.length} bytes.`,
+              ),
+            );
+            return;
+          }
+          callback(null, chunk);
+        },
+      });
+
+      try {
+        await pipeline(
+          data,
+          lengthGuard,
+          createWriteStream(this.getPartPath(id), { flags: "a" }),
+        );
+      } catch (error) {
+        if (error instanceof PayloadTooLargeException) {
+          throw error;
+        }
+        // Interrupted transfers are expected, the client resumes with HEAD.
+        this.logger.warn({
+          message: "Upload chunk was interrupted.",
+          upload: { id, filename: upload.filename },
+          error,
+        });
+      }
+
+      const newOffset = await this.getOffset(id);
+      if (newOffset === upload.length) {
+        await this.finalize(upload);
+      }
+      return newOffset;
+    } finally {
+      this.activeUploads.delete(id);
+    }
+  }
+
+  /** Terminates an upload and deletes all of its staged data. */
+  public async terminate(id: string): Promise<void> {
+    await this.readInfo(id);
+    if (this.activeUploads.has(id)) {
+      throw new ConflictException(
+        "Another request is currently writing to this upload.",
+      );
+    }
+    await this.removeUpload(id);
+    this.logger.log({ message: "Terminated resumable upload.", id });
+  }
+
+  /**
+   * Creates the staging area on demand, so read-only libraries are only
+   * rejected once somebody uploads a game. Returns its path.
+   */
+  public async prepareStagingDirectory(): Promise<string> {
+    const stagingDirectory = this.getStagingDirectory();
+    try {
+      await ensureDir(stagingDirectory);
+    } catch (error) {
+      throw new BadRequestException(
+        `The server can't create the upload staging area "${stagingDirectory}". Game upload requires write access.`,
+        { cause: error },
+      );
+    }
+    return stagingDirectory;
+  }
+
+  /** Deletes expired uploads and orphaned files from the staging area. */
+  @Interval("cleanupExpiredUploads", ms("1h"))
+  public async cleanup(): Promise<void> {
+    const library = this.filesService.findUploadLibrary();
+    if (!library) {
+      return;
+    }
+    const stagingDirectory = this.getStagingDirectory(library.path);
+    if (!(await pathExists(stagingDirectory))) {
+      return;
+    }
+
+    const now = Date.now();
+    const expirationMs =
+      configuration.GAMES.UPLOAD_EXPIRATION_IN_HOURS * 60 * 60 * 1000;
+
+    for (const entry of await readdir(stagingDirectory)) {
+      const entryPath = path.join(stagingDirectory, entry);
+      const id = path.basename(entry, path.extname(entry));
+      if (this.activeUploads.has(id)) {
+        continue;
+      }
+
+      try {
+        if (entry.endsWith(".json")) {
+          const upload: Upload = await readJson(entryPath);
+          if (new Date(upload.expires_at).getTime() < now) {
+            await this.removeUpload(id);
+            this.logger.log({
+              message: "Deleted expired upload.",
+              upload: { id, filename: upload.filename },
+            });
+          }
+        } else if (
+          !(await pathExists(this.getInfoPath(id))) &&
+          (await stat(entryPath)).mtimeMs + expirationMs < now
+        ) {
+          // Leftovers of aborted multipart uploads or incomplete creations
+          await remove(entryPath);
+          this.logger.log({
+            message: "Deleted orphaned file from upload staging area.",
+            path: entryPath,
+          });
+        }
+      } catch (error) {
+        this.logger.error({
+          message: "Error cleaning up upload staging area.",
+          path: entryPath,
+          error,
+        });
+      }
+    }
+  }
+
+  /**
+   * Validates the checksum of a completed upload and moves it into the game
+   * library. Indexing happens only after the file has been moved.
+   */
+  private async finalize(upload: Upload): Promise<void> {
+    const partPath = this.getPartPath(upload.id);
+
+    if (upload.checksum) {
+      const { algorithm, digest } = this.parseChecksum(upload.checksum);
+      const actualDigest = await this.calculateDigest(partPath, algorithm);
+      if (actualDigest !== digest) {
+        await this.removeUpload(upload.id);
+        this.logger.warn({
+          message: "Upload checksum mismatch. Discarded upload.",
+          upload: { id: upload.id, filename: upload.filename },
+          expected: digest,
+          actual: actualDigest,
+        });
+        throw new BadRequestException(
+          "The checksum of the uploaded file does not match. The upload has been discarded.",
+        );
+      }
+    }
+
+    await this.filesService.importFile(partPath, upload.filename);
+    await remove(this.getInfoPath(upload.id));
+
+    this.logger.log({
+      message: "Finalized resumable upload.",
+      upload: { id: upload.id, filename: upload.filename },
+    });
+  }
+
+  /**
+   * Parses a tus Upload-Metadata header ("key base64value,key base64value").
+   */
+  private parseMetadata(metadataHeader?: string): Record<string, string> {
+    const metadata: Record<string, string> = {};
+    if (!metadataHeader) {
+      return metadata;
+    }
+
+    for (const pair of metadataHeader.split(",")) {
+      const [key, value] = pair.trim().split(" ");
+      if (!key) {
+        continue;
+      }
+      metadata[key] = value ? Buffer.from(value, "base64").toString() : "";
+    }
+    return metadata;
+  }
+
+  /** Parses a checksum in the tus format ("<algorithm> <base64 digest>"). */
+  private parseChecksum(checksum: string): {
+    algorithm: string;
+    digest: string;
+  } {
+    const [algorithm, digest] = checksum.trim().split(" ");
+    if (!this.supportedChecksumAlgorithms.includes(algorithm) || !digest) {
+      throw new BadRequestException(
+        `Invalid checksum "${checksum}". Expected "<algorithm> <base64 digest>" with one of the algorithms: ${this.supportedChecksumAlgorithms.join(", ")}.`,
+      );
+    }
+    return { algorithm, digest };
+  }
+
+  private async calculateDigest(
+    filePath: string,
+    algorithm: string,
+  ): Promise<string> {
+    const hash = createHash(algorithm);
+    await pipeline(createReadStream(filePath), hash);
+    return hash.digest("base64");
+  }
+
+  private async readInfo(id: string): Promise<Upload> {
+    const infoPath = this.getInfoPath(id);
+    if (!(await pathExists(infoPath))) {
+      throw new NotFoundException(`Upload with id ${id} was not found.`);
+    }
+    return readJson(infoPath);
+  }
+
+  private async getOffset(id: string): Promise<number> {
+    const partPath = this.getPartPath(id);
+    if (!(await pathExists(partPath))) {
+      return 0;
+    }
+    return (await stat(partPath)).size;
+  }
+
+  private async removeUpload(id: string): Promise<void> {
+    await remove(this.getPartPath(id));
+    await remove(this.getInfoPath(id));
+  }
+
+  /**
+   * Uploads are staged in the library they are uploaded to, so moving them
+   * into the library after they are complete doesn't copy them across volumes.
+   */
+  private getStagingDirectory(
+    libraryPath = this.filesService.getUploadLibraryOrFail().path,
+  ): string {
+    return path.join(libraryPath, globals.INTERNAL_DIRECTORY_NAME, "uploads");
+  }
+
+  private getInfoPath(id: string): string {
+    return path.join(this.getStagingDirectory(), `${path.basename(id)}.json`);
+  }
+
+  private getPartPath(id: string): string {
+    return path.join(this.getStagingDirectory(), `${path.basename(id)}.part`);
+  }
+}
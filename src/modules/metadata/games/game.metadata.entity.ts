@@ -16,6 +16,8 @@ import { DatabaseEntity } from "../../database/database.entity";
 import { Media } from "../../media/media.entity";
 import { DeveloperMetadata } from "../developers/developer.metadata.entity";
 import { GenreMetadata } from "../genres/genre.metadata.entity";
+import { GameDependency } from "../models/game-dependency.model";
+import { InstallScript } from "../models/install-script.model";
 import { Metadata } from "../models/metadata.interface";
 import { PublisherMetadata } from "../publishers/publisher.metadata.entity";
 import { TagMetadata } from "../tags/tag.metadata.entity";
@@ -34,7 +36,7 @@ export class GameMetadata extends DatabaseEntity implements Metadata {
   })
   @IsNotIn(globals.RESERVED_PROVIDER_SLUGS, {
     message:
-      "Invalid slug: The terms 'gamevault' and 'user' are reserved slugs.",
+      "Invalid slug: The terms 'gamevault', 'user', 'file' and 'sidecar' are reserved slugs.",
   })
   @ApiProperty({
     description:
@@ -229,6 +231,23 @@ export class GameMetadata extends DatabaseEntity implements Metadata {
   })
   uninstaller_executable?: string;
 
+  @Column({ type: "simple-json", nullable: true })
+  @ApiPropertyOptional({
+    description:
+      "Predefined install script for the game. Its steps are run by clients after extracting or installing the game.",
+    type: () => InstallScript,
+  })
+  install_script?: InstallScript;
+
+  @Column({ type: "simple-json", nullable: true })
+  @ApiPropertyOptional({
+    description:
+      "Redistributables the game requires, e.g. Visual C++ or DirectX. They are detected by the indexer from the installers shipped with the game.",
+    type: () => GameDependency,
+    isArray: true,
+  })
+  dependencies?: GameDependency[];
+
   @JoinTable({
     name: "game_metadata_publishers_publisher_metadata",
     joinColumn: {
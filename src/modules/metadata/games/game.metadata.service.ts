@@ -127,6 +127,8 @@ export class GameMetadataService {
       installer_executable: game.installer_executable,
       uninstaller_parameters: game.uninstaller_parameters,
       uninstaller_executable: game.uninstaller_executable,
+      install_script: game.install_script,
+      dependencies: game.dependencies,
       publishers: null,
       developers: null,
       tags: null,
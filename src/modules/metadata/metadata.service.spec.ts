@@ -169,6 +169,30 @@ describe("MetadataService", () => {
 
       expect((service as any).metadataJobs.size).toBe(1);
     });
+
+    it("should merge the metadata of merge jobs without provider updates", async () => {
+      mockGamesService.findOneByGameIdOrFail.mockImplementation(async (id) => ({
+        id,
+        file_path: `/${id}.zip`,
+        provider_metadata: [],
+      }));
+      const mergeSpy = jest
+        .spyOn(service, "merge")
+        .mockResolvedValue({ id: 42 } as any);
+      const drainQueue = async () => {
+        while ((service as any).isProcessingQueue) {
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+      };
+
+      await service.addUpdateMetadataJob(41);
+      await drainQueue();
+      expect(mergeSpy).not.toHaveBeenCalled();
+
+      await service.addUpdateMetadataJob(42, true);
+      await drainQueue();
+      expect(mergeSpy).toHaveBeenCalledWith(42);
+    });
   });
 
   // ─── search ────────────────────────────────────────────────────────
@@ -311,6 +335,284 @@ describe("MetadataService", () => {
       // Provider description should survive (user didn't override it)
       expect(savedMeta.description).toBe("Provider desc");
     });
+
+    it("should apply file metadata below user metadata", async () => {
+      const fileMeta = {
+        provider_slug: "file",
+        provider_data_id: "1",
+        launch_executable: "Game/game.exe",
+        installer_executable: "setup.exe",
+        created_at: new Date("2020-01-01"),
+        updated_at: new Date("2025-01-01"),
+      } as GameMetadata;
+
+      const userMeta = {
+        provider_slug: "user",
+        provider_data_id: "1",
+        installer_executable: "install.exe",
+        created_at: new Date("2020-01-01"),
+        updated_at: new Date("2025-01-02"),
+      } as GameMetadata;
+
+      const game = {
+        id: 1,
+        file_path: "/test.zip",
+        release_date: new Date("2020-06-15"),
+        type: "WINDOWS_PORTABLE",
+        early_access: true,
+        provider_metadata: [],
+        file_metadata: fileMeta,
+        user_metadata: userMeta,
+        metadata: null,
+      };
+
+      mockGamesService.findOneByGameIdOrFail.mockResolvedValue(game);
+
+      await service.merge(1);
+      const savedMeta = mockGameMetadataService.save.mock.calls[0][0];
+      expect(savedMeta.launch_executable).toBe("Game/game.exe");
+      expect(savedMeta.installer_executable).toBe("install.exe");
+      expect(savedMeta.early_access).toBe(true);
+      expect(savedMeta.provider_slug).toBe("gamevault");
+    });
+
+    it("should apply sidecar metadata between file and user metadata", async () => {
+      service.registerProvider(createMockProvider());
+      const game = {
+        id: 1,
+        file_path: "/test.zip",
+        type: "WINDOWS_PORTABLE",
+        early_access: false,
+        provider_metadata: [
+          {
+            provider_slug: "test-provider",
+            provider_priority: 10,
+            title: "Provider Title",
+            description: "Provider desc",
+          },
+        ],
+        file_metadata: {
+          provider_slug: "file",
+          provider_data_id: "1",
+          launch_executable: "game.exe",
+        },
+        sidecar_metadata: {
+          provider_slug: "sidecar",
+          provider_data_id: "1",
+          title: "Sidecar Title",
+          launch_executable: "bin/game.exe",
+          launch_parameters: "-windowed",
+        },
+        user_metadata: {
+          provider_slug: "user",
+          provider_data_id: "1",
+          launch_parameters: "-fullscreen",
+        },
+        metadata: null,
+      };
+      mockGamesService.findOneByGameIdOrFail.mockResolvedValue(game);
+
+      await service.merge(1);
+      const savedMeta = mockGameMetadataService.save.mock.calls[0][0];
+      expect(savedMeta.title).toBe("Sidecar Title");
+      expect(savedMeta.description).toBe("Provider desc");
+      expect(savedMeta.launch_executable).toBe("bin/game.exe");
+      expect(savedMeta.launch_parameters).toBe("-fullscreen");
+    });
+
+    it("should merge when only file metadata exists", async () => {
+      const game = {
+        id: 1,
+        file_path: "/test.zip",
+        type: "WINDOWS_PORTABLE",
+        early_access: false,
+        provider_metadata: [],
+        file_metadata: {
+          provider_slug: "file",
+          provider_data_id: "1",
+          launch_executable: "game.exe",
+          created_at: new Date("2025-01-02"),
+        },
+        user_metadata: null,
+        metadata: {
+          id: 10,
+          created_at: new Date("2020-01-01"),
+          updated_at: new Date("2025-01-01"),
+        },
+      };
+      mockGamesService.findOneByGameIdOrFail.mockResolvedValue(game);
+
+      await service.merge(1);
+      expect(mockGameMetadataService.save).toHaveBeenCalledWith(
+        expect.objectContaining({ launch_executable: "game.exe" }),
+      );
+    });
+  });
+
+  describe("updateFileMetadata", () => {
+    it("should create the file metadata layer and merge", async () => {
+      const game = { id: 1, file_metadata: null };
+      mockGamesService.findOneByGameIdOrFail.mockResolvedValue(game);
+      const mergeSpy = jest
+        .spyOn(service, "merge")
+        .mockResolvedValue(game as any);
+
+      await service.updateFileMetadata(1, {
+        launch_executable: "Game/game.exe",
+        installer_executable: null,
+      });
+
+      expect(mockGameMetadataService.save).toHaveBeenCalledWith({
+        launch_executable: "Game/game.exe",
+        installer_executable: null,
+        provider_slug: "file",
+        provider_data_id: "1",
+      });
+      expect(mockGamesService.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          file_metadata: expect.objectContaining({ id: 1 }),
+        }),
+      );
+      expect(mergeSpy).toHaveBeenCalledWith(1);
+    });
+
+    it("should leave merging to the caller if requested", async () => {
+      mockGamesService.findOneByGameIdOrFail.mockResolvedValue({
+        id: 1,
+        file_metadata: null,
+      });
+      const mergeSpy = jest.spyOn(service, "merge");
+
+      await expect(
+        service.updateFileMetadata(
+          1,
+          { launch_executable: "Game/game.exe" },
+          false,
+        ),
+      ).resolves.toBe(true);
+
+      expect(mockGameMetadataService.save).toHaveBeenCalled();
+      expect(mergeSpy).not.toHaveBeenCalled();
+    });
+
+    it("should skip unchanged file metadata", async () => {
+      mockGamesService.findOneByGameIdOrFail.mockResolvedValue({
+        id: 1,
+        file_metadata: {
+          id: 5,
+          provider_slug: "file",
+          launch_executable: "Game/game.exe",
+          installer_executable: null,
+        },
+      });
+      const mergeSpy = jest.spyOn(service, "merge");
+
+      await service.updateFileMetadata(1, {
+        launch_executable: "Game/game.exe",
+        installer_executable: null,
+      });
+
+      expect(mockGameMetadataService.save).not.toHaveBeenCalled();
+      expect(mergeSpy).not.toHaveBeenCalled();
+    });
+
+    it("should skip games without file metadata if nothing was found", async () => {
+      mockGamesService.findOneByGameIdOrFail.mockResolvedValue({
+        id: 1,
+        file_metadata: null,
+      });
+
+      await service.updateFileMetadata(1, { launch_executable: null });
+
+      expect(mockGameMetadataService.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updateSidecarMetadata", () => {
+    const createSidecar = (metadata: Partial<GameMetadata>, providers = []) =>
+      ({
+        path: "/files/Game.gamevault.yaml",
+        metadata: { title: null, tags: [], ...metadata },
+        providers,
+      }) as any;
+
+    it("should create the sidecar metadata layer, map providers and merge", async () => {
+      const game = {
+        id: 1,
+        provider_metadata: [
+          { provider_slug: "mapped-provider", provider_data_id: "7" },
+        ],
+        sidecar_metadata: null,
+      };
+      mockGamesService.findOneByGameIdOrFail.mockResolvedValue(game);
+      const mapSpy = jest.spyOn(service, "map").mockResolvedValue(game as any);
+      const mergeSpy = jest
+        .spyOn(service, "merge")
+        .mockResolvedValue(game as any);
+
+      await service.updateSidecarMetadata(
+        1,
+        createSidecar({ title: "Curated Title" }, [
+          { provider_slug: "mapped-provider", provider_data_id: "7" },
+          { provider_slug: "test-provider", provider_data_id: "1234" },
+        ]),
+      );
+
+      expect(mapSpy).toHaveBeenCalledTimes(1);
+      expect(mapSpy).toHaveBeenCalledWith(1, "test-provider", "1234");
+      expect(mockGameMetadataService.save).toHaveBeenCalledWith({
+        title: "Curated Title",
+        tags: [],
+        provider_slug: "sidecar",
+        provider_data_id: "1",
+      });
+      expect(mergeSpy).toHaveBeenCalledWith(1, true);
+    });
+
+    it("should skip unchanged sidecar metadata", async () => {
+      mockGamesService.findOneByGameIdOrFail.mockResolvedValue({
+        id: 1,
+        provider_metadata: [],
+        sidecar_metadata: {
+          id: 5,
+          provider_slug: "sidecar",
+          title: "Curated Title",
+          tags: [{ id: 3, provider_slug: "sidecar", name: "Co-op" }],
+        },
+      });
+      const mergeSpy = jest.spyOn(service, "merge");
+
+      await service.updateSidecarMetadata(
+        1,
+        createSidecar({
+          title: "Curated Title",
+          tags: [{ provider_slug: "sidecar", name: "Co-op" }] as any,
+        }),
+      );
+
+      expect(mockGameMetadataService.save).not.toHaveBeenCalled();
+      expect(mergeSpy).not.toHaveBeenCalled();
+    });
+
+    it("should remove the sidecar metadata layer when the sidecar is gone", async () => {
+      const game = {
+        id: 1,
+        provider_metadata: [],
+        sidecar_metadata: { id: 5, provider_slug: "sidecar" },
+      };
+      mockGamesService.findOneByGameIdOrFail.mockResolvedValue(game);
+      const mergeSpy = jest
+        .spyOn(service, "merge")
+        .mockResolvedValue(game as any);
+
+      await service.updateSidecarMetadata(1, undefined);
+
+      expect(game.sidecar_metadata).toBeNull();
+      expect(
+        mockGameMetadataService.deleteByGameMetadataIdOrFail,
+      ).toHaveBeenCalledWith(5);
+      expect(mergeSpy).toHaveBeenCalledWith(1, true);
+    });
   });
 
   // ─── Private helper tests (via merge behavior) ────────────────────
@@ -9,7 +9,7 @@ import {
 } from "@nestjs/common";
 import { validateOrReject } from "class-validator";
 
-import { kebabCase } from "lodash";
+import { isEqual, kebabCase } from "lodash";
 import { setTimeout } from "timers/promises";
 import { AppConfiguration } from "../../configuration";
 import { InjectGamevaultConfig } from "../../decorators/inject-gamevault-config.decorator";
@@ -17,6 +17,7 @@ import { logGamevaultGame, logMetadataProvider } from "../../logging";
 import { GamesService } from "../games/games.service";
 import { GamevaultGame } from "../games/gamevault-game.entity";
 import { GameType } from "../games/models/game-type.enum";
+import { SidecarFile } from "../games/sidecar-file";
 import { GameMetadata } from "./games/game.metadata.entity";
 import { GameMetadataService } from "./games/game.metadata.service";
 import { MinimalGameMetadataDto } from "./games/minimal-game.metadata.dto";
@@ -27,6 +28,7 @@ import { ProviderNotFoundException } from "./providers/models/provider-not-found
 export class MetadataService {
   private readonly logger = new Logger(this.constructor.name);
   private readonly metadataJobs = new Set<number>();
+  private readonly mergeJobs = new Set<number>();
   private isProcessingQueue = false;
   providers: MetadataProvider[] = [];
 
@@ -118,10 +120,19 @@ export class MetadataService {
     return effectivePriority < 0;
   }
 
+  /** Number of games waiting for their metadata to be updated. */
+  public get queueSize(): number {
+    return this.metadataJobs.size;
+  }
+
   /**
    * Checks the metadata of games and updates them if necessary.
+   * If merge is true, the metadata is merged even if no provider was updated.
    */
-  async addUpdateMetadataJob(gameId: number): Promise<void> {
+  async addUpdateMetadataJob(gameId: number, merge = false): Promise<void> {
+    if (merge) {
+      this.mergeJobs.add(gameId);
+    }
     if (this.metadataJobs.has(gameId)) {
       this.logger.debug({
         message: "Skipping metadata job as it is already enqueued.",
@@ -154,6 +165,7 @@ export class MetadataService {
 
     while (this.metadataJobs.size > 0) {
       const gameId = this.metadataJobs.values().next().value;
+      const merge = this.mergeJobs.delete(gameId);
       const heapBefore = heapMB();
 
       let game: GamevaultGame | undefined;
@@ -163,7 +175,7 @@ export class MetadataService {
           loadRelations: ["provider_metadata"],
         });
         const heapAfterLoad = heapMB();
-        await this.updateMetadata(game);
+        await this.updateMetadata(game, merge);
         const heapAfterUpdate = heapMB();
 
         this.logger.log({
@@ -211,9 +223,13 @@ export class MetadataService {
    * the metadata update is skipped.
    * If the metadata update fails for a provider, the error is logged and the update is skipped.
    * @param game The game to update the metadata for.
+   * @param merge Whether to merge the metadata even if no provider was updated.
    * @returns The updated game.
    */
-  private async updateMetadata(game: GamevaultGame): Promise<void> {
+  private async updateMetadata(
+    game: GamevaultGame,
+    merge = false,
+  ): Promise<void> {
     if (!game) {
       this.logger.error({
         message: "Corresponding metadata-job was not found",
@@ -233,6 +249,9 @@ export class MetadataService {
         message: "Skipping metadata update for (NC) game.",
         game: logGamevaultGame(game),
       });
+      if (merge) {
+        await this.merge(game.id);
+      }
       return;
     }
 
@@ -310,7 +329,7 @@ export class MetadataService {
     // Only merge when a provider was actually updated. On re-indexes where all
     // providers are within TTL, skipping merge here avoids thousands of
     // concurrent fire-and-forget merge calls that would exhaust heap memory.
-    if (metadataChanged) {
+    if (metadataChanged || merge) {
       const heapMB = () =>
         Math.round(process.memoryUsage().heapUsed / 1024 / 1024);
       const heapBefore = heapMB();
@@ -390,22 +409,30 @@ export class MetadataService {
    * The merge follows this priority order (lowest to highest):
    * 1. Game file defaults (release_date, installer_parameters for WINDOWS_SETUP)
    * 2. Provider metadata (sorted by priority, lower priority applied first)
-   * 3. File-derived metadata (early_access flag)
+   * 3. File-derived metadata (suggested executables, early_access flag)
    * 4. User metadata (highest priority, user overrides everything)
    *
    * Safeguards:
-   * - Skips merge if no source metadata exists (no providers and no user metadata)
-   * - For provider-only updates, skips if no provider is newer than current merged metadata
+   * - Skips merge if no source metadata exists (no providers, file or user metadata)
+   * - For provider-only updates, skips if no provider or file metadata is newer than current merged metadata
    * - Always merges when user_metadata exists (user explicitly requested changes)
+   * - Always merges when forced, e.g. after a layer's relations have changed,
+   *   which doesn't update its timestamps
    */
-  async merge(gameId: number): Promise<GamevaultGame> {
+  async merge(gameId: number, force = false): Promise<GamevaultGame> {
     const heapMB = () =>
       Math.round(process.memoryUsage().heapUsed / 1024 / 1024);
     const heapBefore = heapMB();
 
     const game = await this.gamesService.findOneByGameIdOrFail(gameId, {
       loadDeletedEntities: false,
-      loadRelations: ["metadata", "provider_metadata", "user_metadata"],
+      loadRelations: [
+        "metadata",
+        "provider_metadata",
+        "user_metadata",
+        "file_metadata",
+        "sidecar_metadata",
+      ],
     });
 
     this.logger.log({
@@ -418,7 +445,12 @@ export class MetadataService {
     });
 
     // SAFEGUARD: Nothing to merge
-    if (!game.provider_metadata.length && !game.user_metadata) {
+    if (
+      !game.provider_metadata.length &&
+      !game.user_metadata &&
+      !game.file_metadata &&
+      !game.sidecar_metadata
+    ) {
       this.logger.debug({
         message: "No metadata sources available. Skipping merge.",
         game: logGamevaultGame(game),
@@ -428,7 +460,7 @@ export class MetadataService {
 
     // SAFEGUARD: Skip merge for provider-only updates if nothing changed
     // Note: Always merge when user_metadata exists since user explicitly requested changes
-    if (!game.user_metadata && this.isMetadataFresh(game)) {
+    if (!force && !game.user_metadata && this.isMetadataFresh(game)) {
       this.logger.debug({
         message: "Provider metadata unchanged. Skipping merge.",
         game: logGamevaultGame(game),
@@ -440,6 +472,7 @@ export class MetadataService {
     let mergedMetadata = this.buildBaseMetadata(game);
     mergedMetadata = this.applyProviderMetadata(mergedMetadata, game);
     mergedMetadata = this.applyFileMetadata(mergedMetadata, game);
+    mergedMetadata = this.applySidecarMetadata(mergedMetadata, game);
     mergedMetadata = this.applyUserMetadata(mergedMetadata, game);
     mergedMetadata = this.finalizeMetadata(mergedMetadata, game, gameId);
 
@@ -456,17 +489,23 @@ export class MetadataService {
   }
 
   /**
-   * Checks if merged metadata is still fresh (no provider has newer data).
+   * Checks if merged metadata is still fresh (no provider, file or sidecar metadata has newer data).
    */
   private isMetadataFresh(game: GamevaultGame): boolean {
     const effectiveTs =
       game.metadata?.updated_at ?? game.metadata?.created_at ?? null;
     if (!effectiveTs) return false;
 
-    return !game.provider_metadata.some((provider) => {
-      const providerTs = provider.updated_at ?? provider.created_at ?? null;
-      return providerTs != null && providerTs > effectiveTs;
-    });
+    return ![
+      ...game.provider_metadata,
+      game.file_metadata,
+      game.sidecar_metadata,
+    ]
+      .filter((metadata) => metadata)
+      .some((metadata) => {
+        const metadataTs = metadata.updated_at ?? metadata.created_at ?? null;
+        return metadataTs != null && metadataTs > effectiveTs;
+      });
   }
 
   /**
@@ -521,7 +560,7 @@ export class MetadataService {
   }
 
   /**
-   * Applies file-derived metadata (early access flag).
+   * Applies file-derived metadata (suggested executables, early access flag).
    */
   private applyFileMetadata(
     base: GameMetadata,
@@ -529,10 +568,26 @@ export class MetadataService {
   ): GameMetadata {
     return {
       ...base,
+      ...(game.file_metadata ? this.stripEmptyFields(game.file_metadata) : {}),
       early_access: game.early_access,
     } as GameMetadata;
   }
 
+  /**
+   * Applies metadata read from the sidecar file of the game.
+   */
+  private applySidecarMetadata(
+    base: GameMetadata,
+    game: GamevaultGame,
+  ): GameMetadata {
+    if (!game.sidecar_metadata) return base;
+
+    return {
+      ...base,
+      ...this.stripEmptyFields(game.sidecar_metadata),
+    } as GameMetadata;
+  }
+
   /**
    * Applies user metadata (highest priority).
    */
@@ -616,6 +671,165 @@ export class MetadataService {
     }
   }
 
+  /**
+   * Updates the metadata derived from the file of a game, e.g. suggested
+   * executables, and merges the metadata if anything has changed, unless
+   * merge is false. Returns whether the file metadata has changed.
+   */
+  async updateFileMetadata(
+    gameId: number,
+    fileMetadata: Partial<GameMetadata>,
+    merge = true,
+  ): Promise<boolean> {
+    const game = await this.gamesService.findOneByGameIdOrFail(gameId, {
+      loadDeletedEntities: false,
+      loadRelations: ["file_metadata"],
+    });
+
+    const changedFields = Object.keys(fileMetadata).filter(
+      (key) =>
+        !isEqual(game.file_metadata?.[key] ?? null, fileMetadata[key] ?? null),
+    );
+    if (!changedFields.length) {
+      this.logger.debug({
+        message: "File metadata unchanged. Skipping update.",
+        game: logGamevaultGame(game),
+      });
+      return false;
+    }
+
+    game.file_metadata = await this.gameMetadataService.save({
+      ...game.file_metadata,
+      ...fileMetadata,
+      provider_slug: "file",
+      provider_data_id: game.id.toString(),
+    } as GameMetadata);
+    await this.gamesService.save(game);
+    this.logger.log({
+      message: "Updated file metadata of a game.",
+      game: logGamevaultGame(game),
+      changed_fields: changedFields,
+    });
+
+    if (merge) {
+      await this.merge(game.id);
+    }
+    return true;
+  }
+
+  /**
+   * Updates the metadata read from the sidecar file of a game, maps the game
+   * to the providers listed in it and merges the metadata if anything has
+   * changed. Removes the sidecar metadata if the game has no sidecar file.
+   * Provider mappings are kept when they are removed from the sidecar file.
+   */
+  async updateSidecarMetadata(
+    gameId: number,
+    sidecar?: SidecarFile,
+  ): Promise<void> {
+    const game = await this.gamesService.findOneByGameIdOrFail(gameId, {
+      loadDeletedEntities: false,
+      loadRelations: ["provider_metadata", "sidecar_metadata"],
+    });
+
+    let changed = false;
+    for (const mapping of sidecar?.providers ?? []) {
+      if (
+        game.provider_metadata.some(
+          (metadata) =>
+            metadata.provider_slug === mapping.provider_slug &&
+            metadata.provider_data_id === mapping.provider_data_id,
+        )
+      ) {
+        continue;
+      }
+      try {
+        await this.map(
+          game.id,
+          mapping.provider_slug,
+          mapping.provider_data_id,
+        );
+        changed = true;
+      } catch (error) {
+        this.logger.warn({
+          message: "Failed to map game to a provider of its sidecar file.",
+          game: logGamevaultGame(game),
+          sidecar: sidecar.path,
+          mapping,
+          error,
+        });
+      }
+    }
+
+    if (!sidecar && game.sidecar_metadata) {
+      const sidecarMetadataId = game.sidecar_metadata.id;
+      game.sidecar_metadata = null;
+      await this.gamesService.save(game);
+      await this.gameMetadataService.deleteByGameMetadataIdOrFail(
+        sidecarMetadataId,
+      );
+      this.logger.log({
+        message: "Removed sidecar metadata of a game.",
+        game: logGamevaultGame(game),
+      });
+      changed = true;
+    } else if (sidecar) {
+      const changedFields = Object.keys(sidecar.metadata).filter(
+        (key) =>
+          !isEqual(
+            this.toComparableValue(game.sidecar_metadata?.[key]),
+            this.toComparableValue(sidecar.metadata[key]),
+          ),
+      );
+      if (changedFields.length) {
+        game.sidecar_metadata = await this.gameMetadataService.save({
+          ...sidecar.metadata,
+          provider_slug: "sidecar",
+          provider_data_id: game.id.toString(),
+        } as GameMetadata);
+        await this.gamesService.save(game);
+        this.logger.log({
+          message: "Updated sidecar metadata of a game.",
+          game: logGamevaultGame(game),
+          sidecar: sidecar.path,
+          changed_fields: changedFields,
+        });
+        changed = true;
+      }
+    }
+
+    if (!changed) {
+      this.logger.debug({
+        message: "Sidecar metadata unchanged. Skipping update.",
+        game: logGamevaultGame(game),
+      });
+      return;
+    }
+
+    await this.merge(game.id, true);
+  }
+
+  /**
+   * Normalizes a metadata value for comparisons, e.g. relations to their
+   * names and dates to their timestamps.
+   */
+  private toComparableValue(value: unknown): unknown {
+    if (value == null || (Array.isArray(value) && !value.length)) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return value.getTime();
+    }
+    if (Array.isArray(value)) {
+      return value
+        .map((item) =>
+          item && typeof item === "object" && "name" in item ? item.name : item,
+        )
+        .toSorted();
+    }
+    return value;
+  }
+
   /**
    * Removes metadata from the game. Does not remove user provided metadata.
    */
@@ -0,0 +1,30 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+
+export class GameDependency {
+  @ApiProperty({
+    description:
+      "identifier of the redistributable. It is the same for every game that requires it, so clients only need to install it once.",
+    example: "vcredist-2015-2022-x64",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "name of the redistributable",
+    example: "Microsoft Visual C++ 2015-2022 Redistributable (x64)",
+  })
+  name: string;
+
+  @ApiPropertyOptional({
+    description:
+      "architecture of the redistributable (null if it supports all architectures or the architecture is unknown)",
+    example: "x64",
+  })
+  architecture?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "path of the installer of the redistributable inside the game file",
+    example: "_CommonRedist/vcredist/2019/VC_redist.x64.exe",
+  })
+  installer?: string;
+}
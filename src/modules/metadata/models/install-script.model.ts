@@ -0,0 +1,168 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsString,
+  Matches,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+
+import { InstallStepOs } from "./install-step-os.enum";
+import { InstallStepType } from "./install-step-type.enum";
+
+/** Versions of the install script format the server accepts. */
+export const INSTALL_SCRIPT_VERSIONS = [1];
+
+// Relative paths that don't leave the installation directory
+const RELATIVE_PATH = /^(?![\\/]|[a-z]:)(?!(.*[\\/])?\.\.([\\/]|$)).+$/i;
+const RELATIVE_PATH_MESSAGE =
+  "$property must be a path relative to the installation directory";
+
+export class InstallStepVariable {
+  @IsString()
+  @Matches(/^[A-Za-z_][A-Za-z0-9_]*$/, {
+    message: "$property must be a valid environment variable name",
+  })
+  @ApiProperty({
+    description: "name of the environment variable",
+    example: "DXVK_HUD",
+  })
+  name: string;
+
+  @IsString()
+  @ApiProperty({
+    description:
+      "value of the environment variable. You can use %INSTALLDIR% as a placeholder for the installation directory.",
+    example: "fps",
+  })
+  value: string;
+}
+
+export class InstallStep {
+  @IsEnum(InstallStepType)
+  @ApiProperty({
+    description:
+      "type of the step: RUN runs an executable, COPY copies a file or directory, DELETE deletes one, REGISTRY imports a registry file and ENVIRONMENT sets environment variables",
+    type: "string",
+    enum: InstallStepType,
+    example: InstallStepType.RUN,
+  })
+  type: InstallStepType;
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(InstallStepOs, { each: true })
+  @ApiPropertyOptional({
+    description:
+      "operating systems the step runs on. If not set, it runs on all of them.",
+    type: "string",
+    enum: InstallStepOs,
+    isArray: true,
+    example: [InstallStepOs.WINDOWS],
+  })
+  os?: InstallStepOs[];
+
+  @ValidateIf((step: InstallStep) => step.type === InstallStepType.RUN)
+  @IsString()
+  @Matches(RELATIVE_PATH, { message: RELATIVE_PATH_MESSAGE })
+  @ApiPropertyOptional({
+    description: "executable to run (RUN)",
+    example: "_Redist/vc_redist.x64.exe",
+  })
+  executable?: string;
+
+  @IsOptional()
+  @IsString()
+  @ApiPropertyOptional({
+    description:
+      "parameters of the executable (RUN). You can use %INSTALLDIR% as a placeholder for the installation directory.",
+    example: "/install /quiet /norestart",
+  })
+  parameters?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  @ApiPropertyOptional({
+    description:
+      "indicates if the executable needs administrator privileges (RUN)",
+    example: true,
+    default: false,
+  })
+  elevated?: boolean;
+
+  @ValidateIf((step: InstallStep) => step.type === InstallStepType.COPY)
+  @IsString()
+  @Matches(RELATIVE_PATH, { message: RELATIVE_PATH_MESSAGE })
+  @ApiPropertyOptional({
+    description: "file or directory to copy (COPY)",
+    example: "Crack",
+  })
+  source?: string;
+
+  @ValidateIf((step: InstallStep) => step.type === InstallStepType.COPY)
+  @IsString()
+  @Matches(RELATIVE_PATH, { message: RELATIVE_PATH_MESSAGE })
+  @ApiPropertyOptional({
+    description: "destination to copy the file or directory to (COPY)",
+    example: "Bin",
+  })
+  destination?: string;
+
+  @ValidateIf((step: InstallStep) =>
+    [InstallStepType.DELETE, InstallStepType.REGISTRY].includes(step.type),
+  )
+  @IsString()
+  @Matches(RELATIVE_PATH, { message: RELATIVE_PATH_MESSAGE })
+  @ApiPropertyOptional({
+    description:
+      "file or directory to delete (DELETE) or registry file to import (REGISTRY)",
+    example: "Crack",
+  })
+  path?: string;
+
+  @ValidateIf((step: InstallStep) => step.type === InstallStepType.ENVIRONMENT)
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => InstallStepVariable)
+  @ApiPropertyOptional({
+    description: "environment variables to set (ENVIRONMENT)",
+    type: () => InstallStepVariable,
+    isArray: true,
+  })
+  variables?: InstallStepVariable[];
+}
+
+/**
+ * Ordered steps that clients run after extracting or installing a game,
+ * e.g. installing redistributables or copying a crack folder. Paths are
+ * relative to the installation directory.
+ */
+export class InstallScript {
+  @IsIn(INSTALL_SCRIPT_VERSIONS, {
+    message: `version must be one of the following values: ${INSTALL_SCRIPT_VERSIONS.join(", ")}`,
+  })
+  @ApiProperty({
+    description:
+      "version of the install script format. Clients must not run scripts of versions they don't know.",
+    example: 1,
+  })
+  version: number;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => InstallStep)
+  @ApiProperty({
+    description: "steps of the install script in the order they are run",
+    type: () => InstallStep,
+    isArray: true,
+  })
+  steps: InstallStep[];
+}
@@ -0,0 +1,4 @@
+export enum InstallStepOs {
+  WINDOWS = "WINDOWS",
+  LINUX = "LINUX",
+}
@@ -0,0 +1,7 @@
+export enum InstallStepType {
+  RUN = "RUN",
+  COPY = "COPY",
+  DELETE = "DELETE",
+  REGISTRY = "REGISTRY",
+  ENVIRONMENT = "ENVIRONMENT",
+}
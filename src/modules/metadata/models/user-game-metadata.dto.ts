@@ -17,6 +17,7 @@ import {
 
 import { MediaValidator } from "../../../validators/media.validator";
 import { Media } from "../../media/media.entity";
+import { InstallScript } from "./install-script.model";
 
 export class UpdateGameUserMetadataDto {
   @ApiPropertyOptional({
@@ -181,6 +182,15 @@ export class UpdateGameUserMetadataDto {
   })
   uninstaller_executable?: string;
 
+  @IsOptional()
+  @ApiPropertyOptional({
+    description:
+      "Predefined install script for the game. Its steps are run by clients after extracting or installing the game. Set it to null to remove it.",
+    type: () => InstallScript,
+    nullable: true,
+  })
+  install_script?: InstallScript | null;
+
   @IsArray()
   @IsOptional()
   @IsUrl(undefined, { each: true })
@@ -1,5 +1,18 @@
-import { Controller, Get, Query, Res, StreamableFile } from "@nestjs/common";
-import { ApiOkResponse, ApiOperation, ApiTags } from "@nestjs/swagger";
+import {
+  Controller,
+  Get,
+  Header,
+  Headers,
+  Query,
+  Res,
+  StreamableFile,
+} from "@nestjs/common";
+import {
+  ApiHeader,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from "@nestjs/swagger";
 import { Response } from "express";
 import { SkipGuards } from "../../decorators/skip-guards.decorator";
 import { OtpService } from "./otp.service";
@@ -15,11 +28,27 @@ export class OtpController {
     summary: "returns a game download for the otp",
     operationId: "getOtpGame",
   })
+  @ApiHeader({
+    name: "Range",
+    required: false,
+    description:
+      "This header lets you control the range of bytes to download, see getGameDownload.",
+    example: "bytes=1024-",
+  })
+  @ApiHeader({
+    name: "If-Range",
+    required: false,
+    description:
+      "This header lets you make the Range header conditional, see getGameDownload.",
+  })
+  @Header("Accept-Ranges", "bytes")
   @SkipGuards()
   async getOtpGame(
     @Query("otp") otp: string,
     @Res({ passthrough: true }) response: Response,
+    @Headers("Range") range?: string,
+    @Headers("If-Range") ifRange?: string,
   ): Promise<StreamableFile> {
-    return this.otpService.get(otp, response);
+    return this.otpService.get(otp, response, range, ifRange);
   }
 }
@@ -46,6 +46,25 @@ describe("OtpService", () => {
         mockResponse,
         42,
         1024,
+        undefined,
+        undefined,
+        undefined,
+      );
+    });
+
+    it("should pass range headers on to the download", async () => {
+      const mockResponse = { setHeader: jest.fn() } as any;
+      const otp = service.create("testuser", 42);
+      filesService.download.mockResolvedValue({} as any);
+
+      await service.get(otp, mockResponse, "bytes=1024-", '"400-1"');
+      expect(filesService.download).toHaveBeenCalledWith(
+        mockResponse,
+        42,
+        undefined,
+        "bytes=1024-",
+        undefined,
+        '"400-1"',
       );
     });
 
@@ -94,6 +113,9 @@ describe("OtpService", () => {
         mockResponse,
         99,
         2048,
+        undefined,
+        undefined,
+        undefined,
       );
     });
   });
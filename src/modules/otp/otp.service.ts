@@ -39,7 +39,12 @@ export class OtpService {
     return randomOtp;
   }
 
-  async get(otp: string, response: Response): Promise<StreamableFile> {
+  async get(
+    otp: string,
+    response: Response,
+    range?: string,
+    ifRange?: string,
+  ): Promise<StreamableFile> {
     const existingOtp = this.otps.get(otp);
     if (!existingOtp) {
       throw new UnauthorizedException("Invalid OTP");
@@ -53,6 +58,9 @@ export class OtpService {
       response,
       existingOtp.gameId,
       existingOtp.xDownloadSpeedLimit,
+      range,
+      undefined,
+      ifRange,
     );
   }
 }
@@ -1,4 +1,5 @@
 export enum StatusEnum {
   HEALTHY = "HEALTHY",
   UNHEALTHY = "UNHEALTHY",
+  DEGRADED = "DEGRADED",
 }
@@ -50,13 +50,10 @@ describe("StatusService", () => {
   });
 
   describe("set", () => {
-    it("should update currentStatus before getExtensive recreates it", () => {
+    it("should keep the status when getExtensive recreates it", () => {
       service.set(StatusEnum.UNHEALTHY, "Database disconnected");
-      // Note: getExtensive() creates a new Status (always HEALTHY) and copies protocol
-      // The status field on the new Status is always reset to HEALTHY by the constructor
-      const result = service.getExtensive();
-      // getExtensive recreates the status object with HEALTHY default
-      expect(result.status).toBe(StatusEnum.HEALTHY);
+      expect(service.getExtensive().status).toBe(StatusEnum.UNHEALTHY);
+      expect(service.get().status).toBe(StatusEnum.UNHEALTHY);
     });
 
     it("should add a protocol entry", () => {
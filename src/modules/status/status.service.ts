@@ -14,9 +14,11 @@ export class StatusService {
   }
 
   getExtensive(): Status {
+    const status = this.currentStatus.status;
     this.currentStatus = new Status(this.epoch, [
       ...this.currentStatus.protocol,
     ]);
+    this.currentStatus.status = status;
     return this.currentStatus;
   }
 
@@ -3,9 +3,14 @@ import "reflect-metadata";
 dotenv.config();
 
 import { NestFactory } from "@nestjs/core";
+import { omit } from "lodash";
+import { parentPort } from "worker_threads";
 import { AppModule } from "../app.module";
 import logger from "../logging";
 import { FilesService } from "../modules/games/files.service";
+import { IndexJobsService } from "../modules/games/index-jobs.service";
+import { IndexJobTrigger } from "../modules/games/models/index-job-trigger.enum";
+import { StatusService } from "../modules/status/status.service";
 import loadPlugins from "../plugin";
 
 async function run(): Promise<void> {
@@ -38,9 +43,26 @@ async function run(): Promise<void> {
 
     logger.log({ context: "Indexer", message: "Indexer (worker) started." });
 
+    // Forward the progress to the main thread, which serves it to the API.
+    // The metadata queue of the worker is not part of it.
+    const progressSubscription = appContext
+      .get(IndexJobsService, { strict: false })
+      .watchProgress()
+      .subscribe((progress) =>
+        parentPort?.postMessage({
+          type: "index-progress",
+          progress: omit(progress, "metadata_queue_size"),
+        }),
+      );
+
+    // Status changes of the index run, e.g. held deletions, are forwarded to
+    // the main thread as well
+    const statusService = appContext.get(StatusService, { strict: false });
+    const statusProtocolLength = statusService.getExtensive().protocol.length;
+
     try {
       if (typeof filesService.indexAllFiles === "function") {
-        await filesService.indexAllFiles();
+        await filesService.indexAllFiles(IndexJobTrigger.STARTUP);
       } else {
         // Fallback to startIndexing if present (startIndexing may schedule work)
         if (typeof (filesService as any).startIndexing === "function") {
@@ -56,6 +78,17 @@ async function run(): Promise<void> {
       });
     }
 
+    for (const entry of statusService
+      .getExtensive()
+      .protocol.slice(statusProtocolLength)) {
+      parentPort?.postMessage({
+        type: "status",
+        status: entry.status,
+        reason: entry.reason,
+      });
+    }
+
+    progressSubscription.unsubscribe();
     await appContext.close();
     process.exit(0);
   } catch (error) {
@@ -0,0 +1,102 @@
+import {
+  getInstallScriptErrors,
+  toInstallScript,
+} from "./install-script.validator";
+
+describe("InstallScriptValidator", () => {
+  const validScript = {
+    version: 1,
+    steps: [
+      {
+        type: "RUN",
+        os: ["WINDOWS"],
+        executable: "_Redist/vc_redist.x64.exe",
+        parameters: "/install /quiet /norestart",
+        elevated: true,
+      },
+      { type: "COPY", source: "Crack", destination: "Bin" },
+      { type: "DELETE", path: "Crack" },
+      { type: "REGISTRY", os: ["WINDOWS"], path: "settings.reg" },
+      {
+        type: "ENVIRONMENT",
+        os: ["LINUX"],
+        variables: [{ name: "DXVK_HUD", value: "fps" }],
+      },
+    ],
+  };
+
+  it("should accept valid install scripts", () => {
+    expect(getInstallScriptErrors(validScript)).toEqual([]);
+  });
+
+  it("should reject unknown versions and empty scripts", () => {
+    expect(getInstallScriptErrors({ version: 2, steps: [] })).toEqual([
+      "version must be one of the following values: 1",
+      "steps should not be empty",
+    ]);
+    expect(getInstallScriptErrors([])).toEqual([
+      "install script must be an object",
+    ]);
+  });
+
+  it("should reject steps that miss the fields of their type", () => {
+    expect(
+      getInstallScriptErrors({
+        version: 1,
+        steps: [{ type: "COPY", source: "Crack" }, { type: "FORMAT" }],
+      }),
+    ).toEqual([
+      "steps.0: destination must be a path relative to the installation directory",
+      "steps.0: destination must be a string",
+      "steps.1: type must be one of the following values: RUN, COPY, DELETE, REGISTRY, ENVIRONMENT",
+    ]);
+  });
+
+  it("should reject paths outside of the installation directory", () => {
+    for (const path of [
+      "/etc/passwd",
+      "C:\\Windows",
+      "\\\\server\\x",
+      "../x",
+      "a/../../x",
+    ]) {
+      expect(
+        getInstallScriptErrors({
+          version: 1,
+          steps: [{ type: "DELETE", path }],
+        }),
+      ).toEqual([
+        "steps.0: path must be a path relative to the installation directory",
+      ]);
+    }
+  });
+
+  it("should reject invalid environment variables", () => {
+    expect(
+      getInstallScriptErrors({
+        version: 1,
+        steps: [
+          {
+            type: "ENVIRONMENT",
+            variables: [{ name: "1NVALID", value: "x" }],
+          },
+        ],
+      }),
+    ).toEqual([
+      "steps.0.variables.0: name must be a valid environment variable name",
+    ]);
+  });
+
+  it("should drop unknown properties of install scripts", () => {
+    const installScript = toInstallScript({
+      ...validScript,
+      author: "someone",
+      steps: [{ ...validScript.steps[2], recursive: true }],
+    });
+
+    expect(JSON.parse(JSON.stringify(installScript))).toEqual({
+      version: 1,
+      steps: [{ type: "DELETE", path: "Crack" }],
+    });
+  });
+});
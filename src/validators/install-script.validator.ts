@@ -0,0 +1,37 @@
+import { plainToInstance } from "class-transformer";
+import { validateSync, ValidationError } from "class-validator";
+
+import { InstallScript } from "../modules/metadata/models/install-script.model";
+
+/**
+ * Validates an install script and returns its errors, prefixed with the
+ * path of the invalid field (e.g. "steps.0: executable must be a string").
+ */
+export function getInstallScriptErrors(value: unknown): string[] {
+  if (value == null || typeof value !== "object" || Array.isArray(value)) {
+    return ["install script must be an object"];
+  }
+  return flattenErrors(validateSync(plainToInstance(InstallScript, value)));
+}
+
+/**
+ * Converts a valid install script to an {@link InstallScript}, dropping all
+ * properties that are not part of the install script format.
+ */
+export function toInstallScript(value: object): InstallScript {
+  const installScript = plainToInstance(InstallScript, value);
+  validateSync(installScript, { whitelist: true });
+  return installScript;
+}
+
+function flattenErrors(errors: ValidationError[], path = ""): string[] {
+  return errors.flatMap((error) => [
+    ...Object.values(error.constraints ?? {}).map((message) =>
+      path ? `${path}: ${message}` : message,
+    ),
+    ...flattenErrors(
+      error.children ?? [],
+      path ? `${path}.${error.property}` : error.property,
+    ),
+  ]);
+}